@@ -34,6 +34,8 @@ module.exports = {
     'no-implied-eval': 'error',
     'no-new-func': 'error',
     'import/order': ['warn', { 'newlines-between': 'always' }],
+    // The MCP SDK only exposes subpaths through package.json "exports", which the resolvers miss.
+    'import/no-unresolved': ['error', { ignore: ['^@modelcontextprotocol/sdk/'] }],
   },
   overrides: [
     {
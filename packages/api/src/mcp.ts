@@ -0,0 +1,104 @@
+import type { Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger as baseLogger, redactSecrets } from '@opalmind/logger';
+import type { MatomoClient } from '@opalmind/sdk';
+
+import { executeTool, toolDefinitions, toolInputSchema, type ToolDefinition } from './tools.js';
+import { parseToolParameters } from './validation.js';
+import { packageVersion } from './version.js';
+
+export const MCP_ENDPOINT = '/mcp';
+
+const mcpLogger = baseLogger.child({ package: '@opalmind/api', component: 'mcp' });
+
+function errorResult(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return { isError: true, content: [{ type: 'text', text: redactSecrets(message) }] };
+}
+
+/**
+ * Builds an MCP server exposing the same tools, schemas, and defaults as the Opal `/tools/*`
+ * endpoints. Tool failures are reported as `isError` results so assistants can read the guidance.
+ */
+export function createMcpServer(client: MatomoClient, definitions: readonly ToolDefinition[] = toolDefinitions): Server {
+  const server = new Server({ name: 'opalmind', version: packageVersion }, { capabilities: { tools: {} } });
+  const definitionsByName = new Map(definitions.map(definition => [definition.name, definition]));
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: definitions.map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toolInputSchema(definition),
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async request => {
+    const { name, arguments: args = {} } = request.params;
+    const definition = definitionsByName.get(name);
+    if (!definition) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool "${name}".`);
+    }
+
+    const startTime = Date.now();
+    try {
+      const parameters = parseToolParameters(definition.schema, args);
+      const result = await executeTool(definition, client, parameters);
+      mcpLogger.info('tools', { event: 'success', tool: name, durationMs: Date.now() - startTime });
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      mcpLogger.error('tools', {
+        event: 'failure',
+        tool: name,
+        message: error instanceof Error ? redactSecrets(error.message) : 'Unknown error',
+      });
+      return errorResult(error);
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Express handler for the streamable HTTP transport. It runs statelessly: each POST gets its own
+ * server/transport pair, so replicas behind a load balancer need no session affinity.
+ */
+export function createMcpRequestHandler(client: MatomoClient) {
+  return async (req: Request, res: Response) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: { code: ErrorCode.ConnectionClosed, message: 'Method not allowed; this endpoint is stateless.' },
+        id: null,
+      });
+      return;
+    }
+
+    const server = createMcpServer(client);
+    const transport = new StreamableHTTPServerTransport({ enableJsonResponse: true });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    try {
+      // The SDK's optional callbacks are declared without `| undefined`, which trips exactOptionalPropertyTypes.
+      await server.connect(transport as Transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      mcpLogger.error('transport failure', { message: error instanceof Error ? redactSecrets(error.message) : 'Unknown error' });
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: '2.0', error: { code: ErrorCode.InternalError, message: 'Internal server error' }, id: null });
+      }
+    }
+  };
+}
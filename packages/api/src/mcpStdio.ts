@@ -0,0 +1,28 @@
+import { fileURLToPath } from 'node:url';
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { setDefaultLogTransport, stderrTransport } from '@opalmind/logger';
+import { createMatomoClient } from '@opalmind/sdk';
+
+import { createMcpServer } from './mcp.js';
+import { apiLogger, loadMatomoClientConfig } from './server.js';
+
+/**
+ * Serves the tools over MCP stdio for locally launched assistants. The launching process owns the
+ * Matomo credentials, so no bearer token is involved; stdout is reserved for protocol frames.
+ */
+export async function startMcpStdio(): Promise<void> {
+  setDefaultLogTransport(stderrTransport);
+  const server = createMcpServer(createMatomoClient(loadMatomoClientConfig()));
+  await server.connect(new StdioServerTransport());
+  apiLogger.info('mcp stdio server ready');
+}
+
+const isDirectRun = process.argv[1] === fileURLToPath(import.meta.url);
+
+if (isDirectRun) {
+  startMcpStdio().catch(err => {
+    apiLogger.error('failed to start mcp stdio server', { error: err });
+    process.exit(1);
+  });
+}
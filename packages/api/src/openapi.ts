@@ -0,0 +1,139 @@
+import { comparisonModes } from '@opalmind/sdk';
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+import { toolDefinitions, toolInputSchema, type ToolDefinition } from './tools.js';
+import { packageVersion } from './version.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// The library's generic signature makes tsc recurse through every zod type; only the result shape matters here.
+const convertZodSchema = zodToJsonSchema as unknown as (schema: z.ZodTypeAny, options: { $refStrategy: 'none' }) => JsonSchema;
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const metricDeltaSchema: JsonSchema = {
+  type: 'object',
+  required: ['current', 'previous', 'delta', 'deltaPct', 'direction'],
+  properties: {
+    current: { type: ['number', 'null'] },
+    previous: { type: ['number', 'null'] },
+    delta: { type: ['number', 'null'] },
+    deltaPct: { type: ['number', 'null'] },
+    direction: { enum: ['up', 'down', 'flat', null] },
+    currency: { type: ['string', 'null'] },
+    unit: { enum: ['seconds', 'percent'] },
+  },
+};
+
+const comparisonWindowSchema: JsonSchema = {
+  type: 'object',
+  required: ['period', 'date'],
+  properties: { period: { type: 'string' }, date: { type: 'string' } },
+};
+
+const comparedReportSchema: JsonSchema = {
+  type: 'object',
+  description: 'Returned instead of the plain report when `compare` is set. Record reports carry `metrics`; list reports carry `rows`.',
+  required: ['comparison', 'current', 'previous'],
+  properties: {
+    comparison: { enum: [...comparisonModes] },
+    current: { $ref: '#/components/schemas/ComparisonWindow' },
+    previous: { $ref: '#/components/schemas/ComparisonWindow' },
+    metrics: { type: 'object', additionalProperties: { $ref: '#/components/schemas/MetricDelta' } },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['label', 'metrics'],
+        properties: {
+          label: { type: 'string' },
+          metrics: { type: 'object', additionalProperties: { $ref: '#/components/schemas/MetricDelta' } },
+        },
+        additionalProperties: true,
+      },
+    },
+  },
+};
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  // Inline everything: OpenAPI 3.1 accepts JSON Schema directly, but not the draft-07 `$schema` marker.
+  const jsonSchema = convertZodSchema(schema, { $refStrategy: 'none' });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function responseSchema(definition: ToolDefinition): JsonSchema {
+  const base = definition.response ? toJsonSchema(definition.response) : { description: 'Tool-specific JSON payload.' };
+  const comparable = definition.parameters.some(parameter => parameter.name === 'compare');
+  return comparable ? { oneOf: [base, { $ref: '#/components/schemas/ComparedReport' }] } : base;
+}
+
+function toolOperation(definition: ToolDefinition) {
+  return {
+    operationId: definition.name,
+    summary: definition.description,
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['parameters'],
+            properties: { parameters: toolInputSchema(definition) },
+          },
+        },
+      },
+    },
+    responses: {
+      '200': {
+        description: `${definition.name} result`,
+        content: { 'application/json': { schema: responseSchema(definition) } },
+      },
+      '400': errorResponse('Invalid parameters, unknown site, or unsupported period/date.'),
+      '401': errorResponse('Missing or invalid bearer token.'),
+      '429': errorResponse('Rate limit exceeded; see the Retry-After header.'),
+      '500': errorResponse('Matomo or service failure. Matomo guidance is included in the message.'),
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI 3.1 contract for the `/tools/*` endpoints from the tool registry, so gateway
+ * and agent integrations see the same parameters, defaults, and response shapes as Opal discovery.
+ */
+export function buildOpenApiDocument(definitions: readonly ToolDefinition[] = toolDefinitions) {
+  const paths: Record<string, { post: ReturnType<typeof toolOperation> }> = {};
+  for (const definition of definitions) {
+    paths[definition.endpoint] = { post: toolOperation(definition) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'OpalMind Matomo Tools',
+      version: packageVersion,
+      description: 'Read-only Matomo analytics tools. Parameters are sent inside a `parameters` object.',
+    },
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'The OPAL_BEARER_TOKEN configured on the service.' },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' } },
+        },
+        MetricDelta: metricDeltaSchema,
+        ComparisonWindow: comparisonWindowSchema,
+        ComparedReport: comparedReportSchema,
+      },
+    },
+  };
+}
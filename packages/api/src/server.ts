@@ -4,11 +4,15 @@ import { fileURLToPath } from 'node:url';
 
 import type { NextFunction, Request, Response, Router } from 'express';
 import express from 'express';
-import { Parameter, ParameterType, ToolsService, Function as ToolFunction } from '@optimizely-opal/opal-tools-sdk';
+import { ToolsService, Function as ToolFunction } from '@optimizely-opal/opal-tools-sdk';
 import { logger as baseLogger, redactSecrets } from '@opalmind/logger';
-import { createMatomoClient, type MatomoClientConfig } from '@opalmind/sdk';
+import { createMatomoClient, parseReportAllowlist, type MatomoClientConfig } from '@opalmind/sdk';
 
-import { ValidationError, parseToolInvocation } from './validation.js';
+import { MCP_ENDPOINT, createMcpRequestHandler } from './mcp.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { loadSiteMapConfig } from './siteMap.js';
+import { executeTool, toolDefinitions } from './tools.js';
+import { ValidationError, readToolInvocation, registerEndpointValidator, validateToolParameters } from './validation.js';
 
 export const apiLogger = baseLogger.child({ package: '@opalmind/api' });
 const toolsLogger = apiLogger.child({ component: 'tools-service' });
@@ -84,12 +88,6 @@ function parseOptionalFloat(value: unknown): number | undefined {
   return Number.isNaN(numeric) ? undefined : numeric;
 }
 
-function parseOptionalString(value: unknown): string | undefined {
-  if (typeof value !== 'string') return undefined;
-  const trimmed = value.trim();
-  return trimmed.length === 0 ? undefined : trimmed;
-}
-
 function configureToolsServiceLogging(service: ToolsService) {
   const internal = service as unknown as { router: Router; functions: ToolFunction[] };
   const router = internal.router;
@@ -112,8 +110,8 @@ function configureToolsServiceLogging(service: ToolsService) {
       let authProvider: string | undefined;
 
       try {
-        const { params, auth, usedFallback } = extractInvocationPayload(req.body, endpoint);
-        paramKeys = summarizeParameters(params);
+        const { params: rawParams, auth, usedFallback } = readToolInvocation(req.body);
+        paramKeys = summarizeParameters(rawParams);
         authProvider = summarizeAuthProvider(auth);
 
         logToolInfo('request', {
@@ -124,6 +122,9 @@ function configureToolsServiceLogging(service: ToolsService) {
           fallbackUsed: usedFallback,
         });
 
+        // Validate after logging so rejected calls still leave a (redacted) request trail.
+        const params = validateToolParameters(endpoint, rawParams);
+
         const handlerParamCount = handler.length;
         const result =
           handlerParamCount >= 2 ? await handler(params, auth) : await handler(params);
@@ -158,13 +159,6 @@ function configureToolsServiceLogging(service: ToolsService) {
   (service as unknown as { registerTool: typeof sanitizedRegisterTool }).registerTool = sanitizedRegisterTool;
 }
 
-function extractInvocationPayload(
-  body: unknown,
-  endpoint: string
-): { params: Record<string, unknown>; auth: unknown; usedFallback: boolean } {
-  return parseToolInvocation(body, endpoint);
-}
-
 const SENSITIVE_PARAM_KEY = /(token|secret|password|auth)/i;
 
 function summarizeParameters(params: unknown): string[] {
@@ -423,6 +417,57 @@ function sanitizeErrorForLogs(error: unknown): { message?: string; status?: numb
   return { message: 'Unknown error' };
 }
 
+/**
+ * Reads the Matomo connection settings shared by the HTTP service and the MCP stdio entrypoint.
+ */
+export function loadMatomoClientConfig(): MatomoClientConfig {
+  const matomoBaseUrl = process.env.MATOMO_BASE_URL?.trim();
+  if (!matomoBaseUrl) {
+    throw new Error('MATOMO_BASE_URL must be set before starting the service.');
+  }
+
+  const matomoToken = process.env.MATOMO_TOKEN?.trim();
+  if (!matomoToken || matomoToken === 'set-me') {
+    throw new Error('MATOMO_TOKEN must be set to a valid Matomo token before starting the service.');
+  }
+
+  const defaultSiteIdEnv = process.env.MATOMO_DEFAULT_SITE_ID?.trim();
+  const defaultSiteId =
+    defaultSiteIdEnv && defaultSiteIdEnv.length > 0 ? Number.parseInt(defaultSiteIdEnv, 10) : undefined;
+
+  if (defaultSiteIdEnv && (Number.isNaN(defaultSiteId) || !Number.isFinite(defaultSiteId))) {
+    throw new Error('MATOMO_DEFAULT_SITE_ID must be a valid integer when provided.');
+  }
+
+  const siteMap = loadSiteMapConfig();
+
+  const cacheWarnHitRate = parseOptionalFloat(process.env.MATOMO_CACHE_WARN_HIT_RATE);
+  const cacheFailHitRate = parseOptionalFloat(process.env.MATOMO_CACHE_FAIL_HIT_RATE);
+  const cacheSampleSize = parseOptionalNumber(process.env.MATOMO_CACHE_SAMPLE_SIZE);
+
+  const reportAllowlistEnv = process.env.MATOMO_REPORT_ALLOWLIST?.trim();
+  const reportAllowlist = reportAllowlistEnv ? parseReportAllowlist(reportAllowlistEnv) : undefined;
+  const reportMetadataFallback = process.env.MATOMO_REPORT_METADATA_FALLBACK?.trim() === '1';
+
+  const cacheHealthThresholds: Record<string, number> = {};
+  if (cacheWarnHitRate !== undefined) cacheHealthThresholds.warnHitRate = cacheWarnHitRate;
+  if (cacheFailHitRate !== undefined) cacheHealthThresholds.failHitRate = cacheFailHitRate;
+  if (cacheSampleSize !== undefined) cacheHealthThresholds.sampleSize = cacheSampleSize;
+
+  return {
+    baseUrl: matomoBaseUrl,
+    tokenAuth: matomoToken,
+    ...(defaultSiteId !== undefined ? { defaultSiteId } : {}),
+    ...(siteMap.sites.length > 0 ? { sites: siteMap.sites } : {}),
+    ...(siteMap.hydrate ? { hydrateSites: true } : {}),
+    ...(reportAllowlist ? { reportAllowlist } : {}),
+    ...(reportMetadataFallback ? { reportMetadataFallback: true } : {}),
+    ...(Object.keys(cacheHealthThresholds).length > 0
+      ? { cacheHealth: cacheHealthThresholds }
+      : {}),
+  };
+}
+
 export function buildServer() {
   const app = express();
   app.disable('x-powered-by');
@@ -453,23 +498,7 @@ export function buildServer() {
     throw new Error('OPAL_BEARER_TOKEN must be set to a non-default value before starting the service.');
   }
 
-  const matomoBaseUrl = process.env.MATOMO_BASE_URL?.trim();
-  if (!matomoBaseUrl) {
-    throw new Error('MATOMO_BASE_URL must be set before starting the service.');
-  }
-
-  const matomoToken = process.env.MATOMO_TOKEN?.trim();
-  if (!matomoToken || matomoToken === 'set-me') {
-    throw new Error('MATOMO_TOKEN must be set to a valid Matomo token before starting the service.');
-  }
-
-  const defaultSiteIdEnv = process.env.MATOMO_DEFAULT_SITE_ID?.trim();
-  const defaultSiteId =
-    defaultSiteIdEnv && defaultSiteIdEnv.length > 0 ? Number.parseInt(defaultSiteIdEnv, 10) : undefined;
-
-  if (defaultSiteIdEnv && (Number.isNaN(defaultSiteId) || !Number.isFinite(defaultSiteId))) {
-    throw new Error('MATOMO_DEFAULT_SITE_ID must be a valid integer when provided.');
-  }
+  const matomoClient = createMatomoClient(loadMatomoClientConfig());
 
   const rateLimitWindowMs = parsePositiveIntegerEnv('OPAL_RATE_LIMIT_WINDOW_MS', 60_000);
   const rateLimitMax = parsePositiveIntegerEnv('OPAL_RATE_LIMIT_MAX', 60);
@@ -481,13 +510,11 @@ export function buildServer() {
   });
 
   app.use('/tools', generalLimiter);
-
-  const cacheWarnHitRate = parseOptionalFloat(process.env.MATOMO_CACHE_WARN_HIT_RATE);
-  const cacheFailHitRate = parseOptionalFloat(process.env.MATOMO_CACHE_FAIL_HIT_RATE);
-  const cacheSampleSize = parseOptionalNumber(process.env.MATOMO_CACHE_SAMPLE_SIZE);
+  app.use(MCP_ENDPOINT, generalLimiter);
 
   app.use((req: Request, res: Response, next: NextFunction) => {
-    const requiresAuth = req.path.startsWith('/tools');
+    // MCP clients authenticate with the same bearer token as Opal tool calls.
+    const requiresAuth = req.path.startsWith('/tools') || req.path === MCP_ENDPOINT;
     if (!requiresAuth) {
       return next();
     }
@@ -514,570 +541,26 @@ export function buildServer() {
     return next();
   });
 
-  const cacheHealthThresholds: Record<string, number> = {};
-  if (cacheWarnHitRate !== undefined) cacheHealthThresholds.warnHitRate = cacheWarnHitRate;
-  if (cacheFailHitRate !== undefined) cacheHealthThresholds.failHitRate = cacheFailHitRate;
-  if (cacheSampleSize !== undefined) cacheHealthThresholds.sampleSize = cacheSampleSize;
-
-  const clientConfig: MatomoClientConfig = {
-    baseUrl: matomoBaseUrl,
-    tokenAuth: matomoToken,
-    ...(defaultSiteId !== undefined ? { defaultSiteId } : {}),
-    ...(Object.keys(cacheHealthThresholds).length > 0
-      ? { cacheHealth: cacheHealthThresholds }
-      : {}),
-  };
-
-  const matomoClient = createMatomoClient(clientConfig);
-
   const toolsService = new ToolsService(app);
   configureToolsServiceLogging(toolsService);
 
-  const siteIdParam = new Parameter('siteId', ParameterType.Integer, 'Override site ID (defaults to MATOMO_DEFAULT_SITE_ID)', false);
-  const periodParam = new Parameter('period', ParameterType.String, 'Matomo period (day, week, month, year, range)', false);
-  const dateParam = new Parameter('date', ParameterType.String, 'Date or range (YYYY-MM-DD, today, yesterday, last7, etc.)', false);
-  const segmentParam = new Parameter('segment', ParameterType.String, 'Matomo segment expression', false);
-  const limitParam = new Parameter('limit', ParameterType.Integer, 'Maximum number of records to return', false);
-  const eventCategoryFilterParam = new Parameter('category', ParameterType.String, 'Filter by event category', false);
-  const eventActionFilterParam = new Parameter('action', ParameterType.String, 'Filter by event action', false);
-  const eventNameFilterParam = new Parameter('name', ParameterType.String, 'Filter by event name', false);
-  const includeSeriesParam = new Parameter(
-    'includeSeries',
-    ParameterType.Boolean,
-    'Include per-period breakdown for ecommerce revenue totals',
-    false
-  );
-  const channelTypeParam = new Parameter(
-    'channelType',
-    ParameterType.String,
-    'Filter traffic channels to a specific type (e.g., direct, search, social)',
-    false
-  );
-  const goalFilterIdParam = new Parameter(
-    'goalId',
-    ParameterType.String,
-    'Filter to a specific Matomo goal (numeric id or special goal name)',
-    false
-  );
-  const goalTypeFilterParam = new Parameter(
-    'goalType',
-    ParameterType.String,
-    'Filter goal conversions by Matomo goal type (ecommerce, manual, etc.)',
-    false
-  );
-  const funnelIdParam = new Parameter('funnelId', ParameterType.String, 'Matomo funnel identifier', true);
-
-  toolsService.registerTool(
-    'GetKeyNumbers',
-    'Returns Matomo key metrics for the selected period and date.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getKeyNumbers>[0] = {};
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (period !== undefined) {
-        request.period = period;
-      }
-      if (date !== undefined) {
-        request.date = date;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      return matomoClient.getKeyNumbers(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam],
-    '/tools/get-key-numbers'
-  );
-
-  toolsService.registerTool(
-    'DiagnoseMatomo',
-    'Runs connectivity and permission checks against the configured Matomo instance.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const request: Parameters<typeof matomoClient.runDiagnostics>[0] = {};
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      return matomoClient.runDiagnostics(request);
-    },
-    [siteIdParam],
-    '/tools/diagnose-matomo'
-  );
-
-  const includeDetailsParam = new Parameter('includeDetails', ParameterType.Boolean, 'Include detailed site access checks', false);
-
-  toolsService.registerTool(
-    'GetHealthStatus',
-    'Returns comprehensive health status for Matomo API, cache, and dependencies.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const includeDetails = Boolean(parameters?.['includeDetails']);
-      const request: Parameters<typeof matomoClient.getHealthStatus>[0] = { includeDetails };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      return matomoClient.getHealthStatus(request);
-    },
-    [siteIdParam, includeDetailsParam],
-    '/tools/get-health-status'
-  );
-
-  toolsService.registerTool(
-    'GetKeyNumbersHistorical',
-    'Returns key metrics broken down per period for multi-day comparisons.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getKeyNumbersSeries>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'last7',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      return matomoClient.getKeyNumbersSeries(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam],
-    '/tools/get-key-numbers-historical'
-  );
-
-  toolsService.registerTool(
-    'GetMostPopularUrls',
-    'Retrieves the most visited pages for the selected period and date.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getMostPopularUrls>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getMostPopularUrls(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-most-popular-urls'
-  );
-
-  toolsService.registerTool(
-    'GetTopReferrers',
-    'Lists the top referrers driving traffic for the selected period.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getTopReferrers>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getTopReferrers(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-top-referrers'
-  );
-
-  toolsService.registerTool(
-    'GetEntryPages',
-    'Returns the most common entry pages for the selected time range.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getEntryPages>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getEntryPages(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-entry-pages'
-  );
-
-  toolsService.registerTool(
-    'GetCampaigns',
-    'Lists campaign-level referrer metrics.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getCampaigns>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getCampaigns(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-campaigns'
-  );
-
-  toolsService.registerTool(
-    'GetEcommerceOverview',
-    'Returns ecommerce order revenue and conversion metrics for the selected period.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getEcommerceOverview>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      return matomoClient.getEcommerceOverview(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam],
-    '/tools/get-ecommerce-overview'
-  );
-
-  toolsService.registerTool(
-    'GetEcommerceRevenue',
-    'Aggregates ecommerce revenue totals with optional per-period breakdown.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const includeSeriesValue = parameters?.['includeSeries'];
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-      const includeSeries =
-        typeof includeSeriesValue === 'boolean'
-          ? includeSeriesValue
-          : typeof includeSeriesValue === 'string'
-          ? includeSeriesValue.toLowerCase() === 'true'
-          : undefined;
-
-      const request: Parameters<typeof matomoClient.getEcommerceRevenueTotals>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (includeSeries !== undefined) {
-        request.includeSeries = includeSeries;
-      }
-      return matomoClient.getEcommerceRevenueTotals(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, includeSeriesParam],
-    '/tools/get-ecommerce-revenue'
-  );
-
-  toolsService.registerTool(
-    'GetTrafficChannels',
-    'Provides a high-level breakdown of traffic sources (direct, search, social, referrals, campaigns).',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const channelType = parseOptionalString(parameters?.['channelType']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getTrafficChannels>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      if (channelType !== undefined) {
-        request.channelType = channelType;
-      }
-      return matomoClient.getTrafficChannels(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam, channelTypeParam],
-    '/tools/get-traffic-channels'
-  );
-
-  toolsService.registerTool(
-    'GetGoalConversions',
-    'Returns goal conversion metrics with optional filtering by goal or type.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const goalIdValue = parameters?.['goalId'];
-      const goalType = parseOptionalString(parameters?.['goalType']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const goalIdNumeric = parseOptionalNumber(goalIdValue);
-      const goalIdString = parseOptionalString(goalIdValue);
-      const goalId = goalIdString ?? goalIdNumeric;
-
-      const request: Parameters<typeof matomoClient.getGoalConversions>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      if (goalId !== undefined) {
-        request.goalId = goalId;
-      }
-      if (goalType !== undefined) {
-        request.goalType = goalType;
-      }
-      return matomoClient.getGoalConversions(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam, goalFilterIdParam, goalTypeFilterParam],
-    '/tools/get-goal-conversions'
-  );
-
-  toolsService.registerTool(
-    'GetFunnelAnalytics',
-    'Returns funnel conversion metrics and step breakdown for a Matomo funnel.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const funnelIdValue = parameters?.['funnelId'];
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const funnelIdString = parseOptionalString(funnelIdValue);
-      const funnelIdNumeric = parseOptionalNumber(funnelIdValue);
-      const funnelId = funnelIdString ?? (funnelIdNumeric !== undefined ? String(funnelIdNumeric) : undefined);
-
-      if (!funnelId) {
-        throw new Error('funnelId is required');
-      }
-
-      const request: Parameters<typeof matomoClient.getFunnelSummary>[0] = {
-        funnelId,
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      return matomoClient.getFunnelSummary(request);
-    },
-    [siteIdParam, funnelIdParam, periodParam, dateParam, segmentParam],
-    '/tools/get-funnel-analytics'
-  );
-
-  toolsService.registerTool(
-    'GetEvents',
-    'Returns aggregate event metrics optionally filtered by category, action, or name.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const category = parseOptionalString(parameters?.['category']);
-      const action = parseOptionalString(parameters?.['action']);
-      const name = parseOptionalString(parameters?.['name']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getEvents>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      if (category !== undefined) {
-        request.category = category;
-      }
-      if (action !== undefined) {
-        request.action = action;
-      }
-      if (name !== undefined) {
-        request.name = name;
-      }
-      return matomoClient.getEvents(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam, eventCategoryFilterParam, eventActionFilterParam, eventNameFilterParam],
-    '/tools/get-events'
-  );
+  for (const definition of toolDefinitions) {
+    toolsService.registerTool(
+      definition.name,
+      definition.description,
+      async (parameters: Record<string, unknown>) => executeTool(definition, matomoClient, parameters),
+      [...definition.parameters],
+      definition.endpoint
+    );
+    registerEndpointValidator(definition.endpoint, definition.schema);
+  }
 
-  toolsService.registerTool(
-    'GetEventCategories',
-    'Summarizes events grouped by category with aggregate counts and values.',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getEventCategories>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getEventCategories(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-event-categories'
-  );
+  app.all(MCP_ENDPOINT, createMcpRequestHandler(matomoClient));
 
-  toolsService.registerTool(
-    'GetDeviceTypes',
-    'Breaks down visits by high-level device categories (desktop, mobile, tablet).',
-    async (parameters: Record<string, unknown>) => {
-      const siteId = parseOptionalNumber(parameters?.['siteId']);
-      const periodValue = parameters?.['period'];
-      const dateValue = parameters?.['date'];
-      const segmentValue = parameters?.['segment'];
-      const limit = parseOptionalNumber(parameters?.['limit']);
-      const period = typeof periodValue === 'string' ? periodValue : undefined;
-      const date = typeof dateValue === 'string' ? dateValue : undefined;
-      const segment = typeof segmentValue === 'string' ? segmentValue : undefined;
-
-      const request: Parameters<typeof matomoClient.getDeviceTypes>[0] = {
-        period: period ?? 'day',
-        date: date ?? 'today',
-      };
-      if (siteId !== undefined) {
-        request.siteId = siteId;
-      }
-      if (segment !== undefined) {
-        request.segment = segment;
-      }
-      if (limit !== undefined) {
-        request.limit = limit;
-      }
-      return matomoClient.getDeviceTypes(request);
-    },
-    [siteIdParam, periodParam, dateParam, segmentParam, limitParam],
-    '/tools/get-device-types'
-  );
+  const openApiDocument = buildOpenApiDocument();
+  app.get('/openapi.json', (_req: Request, res: Response) => {
+    res.json(openApiDocument);
+  });
 
   app.get('/healthz', (_req: Request, res: Response) => {
     res.status(200).json({ ok: true, status: 'alive' });
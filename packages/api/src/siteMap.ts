@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+import { load as loadYaml } from 'js-yaml';
+import { parseSiteMap, type SiteDefinition } from '@opalmind/sdk';
+
+export interface SiteMapConfig {
+  sites: SiteDefinition[];
+  hydrate: boolean;
+}
+
+function parseSiteMapSource(source: string, origin: string): SiteDefinition[] {
+  let payload: unknown;
+  try {
+    // YAML is a superset of JSON, so a single parser covers both file formats.
+    payload = loadYaml(source);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new Error(`${origin} is not valid JSON or YAML: ${reason}`);
+  }
+
+  try {
+    return parseSiteMap(payload);
+  } catch (error) {
+    throw new Error(`${origin}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Loads the operator site map from `MATOMO_SITES_FILE` (JSON or YAML path) or the inline
+ * `MATOMO_SITES` value. `MATOMO_SITES_HYDRATE=1` enables roster hydration from Matomo.
+ */
+export function loadSiteMapConfig(env: NodeJS.ProcessEnv = process.env): SiteMapConfig {
+  const hydrate = env.MATOMO_SITES_HYDRATE?.trim() === '1';
+  const filePath = env.MATOMO_SITES_FILE?.trim();
+  const inline = env.MATOMO_SITES?.trim();
+
+  if (filePath) {
+    const resolved = path.resolve(filePath);
+    let source: string;
+    try {
+      source = readFileSync(resolved, 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`MATOMO_SITES_FILE could not be read (${resolved}): ${reason}`);
+    }
+    return { sites: parseSiteMapSource(source, 'MATOMO_SITES_FILE'), hydrate };
+  }
+
+  if (inline) {
+    return { sites: parseSiteMapSource(inline, 'MATOMO_SITES'), hydrate };
+  }
+
+  return { sites: [], hydrate };
+}
@@ -0,0 +1,21 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+import { syncToolReference } from './tools.js';
+
+const readmePath = fileURLToPath(new URL('../../../README.md', import.meta.url));
+
+/** Rewrites the README tool table from the registry; run via `npm run docs:tools`. */
+export function syncToolDocs(path: string = readmePath): boolean {
+  const readme = readFileSync(path, 'utf8');
+  const synced = syncToolReference(readme);
+  if (synced === readme) return false;
+  writeFileSync(path, synced);
+  return true;
+}
+
+const isDirectRun = process.argv[1] === fileURLToPath(import.meta.url);
+
+if (isDirectRun) {
+  process.stdout.write(syncToolDocs() ? 'Updated the README tool table.\n' : 'README tool table is up to date.\n');
+}
@@ -0,0 +1,880 @@
+import { Parameter, ParameterType } from '@optimizely-opal/opal-tools-sdk';
+import {
+  MAX_COMPARED_SITES,
+  MAX_USER_FLOW_PATHS,
+  campaignBreakdownSchema,
+  campaignsSchema,
+  cohortRetentionSchema,
+  conversionLagSchema,
+  customDimensionReportSchema,
+  customDimensionsSchema,
+  deviceTypesSchema,
+  diagnosticsSchema,
+  downloadsSchema,
+  ecommerceSummarySchema,
+  engagementDistributionSchema,
+  entryPagesSchema,
+  exitPagesSchema,
+  eventCategoriesSchema,
+  eventsSchema,
+  funnelAnalyticsSchema,
+  funnelDefinitionsSchema,
+  goalBreakdownSchema,
+  goalConversionsSchema,
+  goalsSchema,
+  healthStatusSchema,
+  keyNumbersSchema,
+  matomoReportSchema,
+  monetaryValueSchema,
+  mostPopularUrlsSchema,
+  outlinksSchema,
+  pageTitlesSchema,
+  pageTransitionsSchema,
+  productPerformanceSchema,
+  realtimeActivitySchema,
+  referrerDetailsSchema,
+  siteComparisonSchema,
+  siteSearchOverviewSchema,
+  sitesSchema,
+  topReferrersSchema,
+  technologyBreakdownSchema,
+  trafficChannelsSchema,
+  userFlowSchema,
+  visitFrequencySchema,
+  visitorLocationsSchema,
+  type MatomoClient,
+} from '@opalmind/sdk';
+import { z } from 'zod';
+
+import { ValidationError, createParameterSchema, productDimensionSchema } from './validation.js';
+
+type ToolMethod = {
+  [K in keyof MatomoClient]: MatomoClient[K] extends (input: never) => Promise<unknown> ? K : never;
+}[keyof MatomoClient];
+
+type ToolRequest<M extends ToolMethod> = NonNullable<Parameters<MatomoClient[M]>[0]>;
+
+interface ToolSpec<M extends ToolMethod> {
+  name: string;
+  description: string;
+  endpoint: string;
+  parameters: readonly Parameter[];
+  /** MatomoClient method invoked with the validated parameters. */
+  method: M;
+  /** Applied when the caller omits a parameter, so every tool documents the window it reports on. */
+  defaults?: Partial<ToolRequest<M>>;
+  /** Reshapes the validated parameters when they do not map one-to-one onto the SDK input. */
+  prepare?: (request: Record<string, unknown>) => ToolRequest<M>;
+  /** Response body published in the OpenAPI document; tools without one are described as free-form JSON. */
+  response?: z.ZodTypeAny;
+  /** Validators for parameters whose shared schema (keyed by name) does not fit this tool. */
+  fields?: Record<string, z.ZodTypeAny>;
+}
+
+export interface ToolDefinition<M extends ToolMethod = ToolMethod> extends ToolSpec<M> {
+  schema: z.ZodTypeAny;
+}
+
+function defineTool<M extends ToolMethod>(spec: ToolSpec<M>): ToolDefinition<M> {
+  return { ...spec, schema: createParameterSchema(spec.parameters, spec.fields) };
+}
+
+const REPORT_DEFAULTS = { period: 'day', date: 'today' } as const;
+
+const siteIdParam = new Parameter('siteId', ParameterType.Integer, 'Override site ID (defaults to MATOMO_DEFAULT_SITE_ID)', false);
+const siteParam = new Parameter(
+  'site',
+  ParameterType.String,
+  'Site name or alias from the configured site map (alternative to siteId)',
+  false
+);
+const periodParam = new Parameter('period', ParameterType.String, 'Matomo period (day, week, month, year, range)', false);
+const dateParam = new Parameter('date', ParameterType.String, 'Date or range (YYYY-MM-DD, today, yesterday, last7, etc.)', false);
+const segmentParam = new Parameter('segment', ParameterType.String, 'Matomo segment expression', false);
+const limitParam = new Parameter('limit', ParameterType.Integer, 'Maximum number of records to return', false);
+const eventCategoryFilterParam = new Parameter('category', ParameterType.String, 'Filter by event category', false);
+const eventActionFilterParam = new Parameter('action', ParameterType.String, 'Filter by event action', false);
+const eventNameFilterParam = new Parameter('name', ParameterType.String, 'Filter by event name', false);
+const includeSeriesParam = new Parameter(
+  'includeSeries',
+  ParameterType.Boolean,
+  'Include per-period breakdown for ecommerce revenue totals',
+  false
+);
+const channelTypeParam = new Parameter(
+  'channelType',
+  ParameterType.String,
+  'Filter traffic channels to a specific type (e.g., direct, search, social)',
+  false
+);
+const referrerTypeParam = new Parameter(
+  'referrerType',
+  ParameterType.String,
+  'Referrer report to drill into: search_engines, keywords, websites, or social_networks (aliases such as search, referral, or social work too)',
+  true
+);
+const referrerSubtableParam = new Parameter(
+  'idSubtable',
+  ParameterType.Integer,
+  'idSubtable of a row from the same period, to list its keywords (search engines), search engines (keywords), or URLs (websites, social networks)',
+  false
+);
+const goalFilterIdParam = new Parameter(
+  'goalId',
+  ParameterType.String,
+  'Filter to a specific Matomo goal (numeric id, configured goal name, or special goal name such as ecommerceOrder)',
+  false
+);
+const breakdownGoalParam = new Parameter('goalId', ParameterType.String, 'Configured goal id or name; see ListGoals', true);
+const goalBreakdownParam = new Parameter(
+  'breakdown',
+  ParameterType.String,
+  'Split conversions by channel (default), device, or landingPage',
+  false
+);
+const goalTypeFilterParam = new Parameter(
+  'goalType',
+  ParameterType.String,
+  'Filter goal conversions by Matomo goal type (ecommerce, manual, etc.)',
+  false
+);
+const funnelIdParam = new Parameter('funnelId', ParameterType.String, 'Matomo funnel id or name; see ListFunnels', true);
+const compareParam = new Parameter(
+  'compare',
+  ParameterType.String,
+  'Compare against the preceding window (previous_period or previous_year) and return per-metric deltas',
+  false
+);
+const pageUrlParam = new Parameter(
+  'url',
+  ParameterType.String,
+  'Full page URL as tracked by Matomo (e.g., https://example.com/pricing)',
+  true
+);
+const startUrlParam = new Parameter(
+  'startUrl',
+  ParameterType.String,
+  'Only return paths landing on this page URL (e.g., https://example.com/pricing)',
+  false
+);
+const flowStepsParam = new Parameter('steps', ParameterType.Integer, 'Maximum pages per path (2-10)', false);
+const flowLimitParam = new Parameter('limit', ParameterType.Integer, `Number of paths to return (1-${MAX_USER_FLOW_PATHS})`, false);
+const conversionGoalParam = new Parameter(
+  'goalId',
+  ParameterType.String,
+  'Matomo goal id or ecommerceOrder; all goals when omitted',
+  false
+);
+const cohortWeeksParam = new Parameter('weeks', ParameterType.Integer, 'Number of most recent weekly cohorts to return', false);
+const reportMethodParam = new Parameter(
+  'method',
+  ParameterType.String,
+  'Read-only Matomo API method in Module.action form (e.g., UserCountry.getCountry)',
+  true
+);
+const reportParamsParam = new Parameter(
+  'params',
+  ParameterType.Dictionary,
+  'Additional method-specific Matomo parameters (e.g., {"idGoal": 1, "flat": 1})',
+  false
+);
+const reportCategoryParam = new Parameter(
+  'category',
+  ParameterType.String,
+  'Only return reports whose category or subcategory contains this text (e.g., Goals, Locations)',
+  false
+);
+const granularityParam = new Parameter(
+  'granularity',
+  ParameterType.String,
+  'Location level to break visits down by: country, region, or city',
+  false
+);
+const countryCodeParam = new Parameter(
+  'countryCode',
+  ParameterType.String,
+  'Two-letter ISO country code restricting the report to one country (e.g., SE)',
+  false
+);
+const technologyDimensionParam = new Parameter(
+  'dimension',
+  ParameterType.String,
+  'Technology to break visits down by: browser, os (operating system versions), model (device models), or resolution',
+  false
+);
+const productDimensionParam = new Parameter(
+  'dimension',
+  ParameterType.String,
+  'Split ecommerce items by sku, name (product name), or category',
+  false
+);
+const abandonedCartsParam = new Parameter(
+  'abandonedCarts',
+  ParameterType.Boolean,
+  'Report items left in abandoned carts instead of purchased items',
+  false
+);
+const engagementDistributionParam = new Parameter(
+  'distribution',
+  ParameterType.String,
+  'Distribution to return: hourOfDay (server time), dayOfWeek, visitDuration, or pagesPerVisit',
+  false
+);
+const customDimensionParam = new Parameter(
+  'customDimension',
+  ParameterType.String,
+  'Custom dimension name (e.g., Plan tier), id, or dimensionN reference; see ListCustomDimensions',
+  true
+);
+const lastMinutesParam = new Parameter('lastMinutes', ParameterType.Integer, 'Minutes of real-time activity to count', false);
+const includeDetailsParam = new Parameter('includeDetails', ParameterType.Boolean, 'Include detailed site access checks', false);
+const siteIdsParam = new Parameter('siteIds', ParameterType.List, 'Matomo site IDs to compare', false);
+const sitesParam = new Parameter('sites', ParameterType.List, 'Site names or aliases from the site map to compare', false);
+const includeTrafficChannelsParam = new Parameter(
+  'includeTrafficChannels',
+  ParameterType.Boolean,
+  'Add per-site traffic channel visits',
+  false
+);
+const includeEcommerceParam = new Parameter(
+  'includeEcommerce',
+  ParameterType.Boolean,
+  'Add per-site ecommerce overview metrics',
+  false
+);
+
+// Response schemas mirror what the client returns, so revenue fields carry the site currency.
+const monetaryField = monetaryValueSchema.optional();
+const ecommerceSummaryResponse = ecommerceSummarySchema.extend({
+  revenue: monetaryField,
+  revenue_per_visit: monetaryField,
+  revenue_per_conversion: monetaryField,
+  avg_order_revenue: monetaryField,
+  revenue_subtotal: monetaryField,
+  revenue_tax: monetaryField,
+  revenue_shipping: monetaryField,
+  revenue_discount: monetaryField,
+});
+
+const availableReportsResponse = z.array(
+  z.object({
+    method: z.string(),
+    module: z.string(),
+    action: z.string(),
+    name: z.string(),
+    category: z.string().optional(),
+    subcategory: z.string().optional(),
+    dimension: z.string().optional(),
+    documentation: z.string().optional(),
+    metrics: z.array(z.object({ id: z.string(), name: z.string(), documentation: z.string().optional() })),
+    parameters: z.record(z.string()).optional(),
+    pages: z.array(z.string()).optional(),
+  })
+);
+
+const siteScope = [siteIdParam, siteParam];
+const reportWindow = [...siteScope, periodParam, dateParam, segmentParam];
+
+function parseOptionalString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length === 0 ? undefined : trimmed;
+}
+
+function parseOptionalInteger(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? undefined : value;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const numeric = Number.parseInt(value, 10);
+  return Number.isNaN(numeric) ? undefined : numeric;
+}
+
+function parseReportParams(value: unknown): Record<string, string | number | boolean> | undefined {
+  if (value === undefined) return undefined;
+  const params: Record<string, string | number | boolean> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof entry !== 'string' && typeof entry !== 'number' && typeof entry !== 'boolean') {
+      throw new ValidationError(`params.${key} must be a string, number, or boolean`);
+    }
+    params[key] = entry;
+  }
+  return params;
+}
+
+function parseListParameter(value: unknown): Array<string | number> {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : value === undefined ? [] : [value];
+  const items: Array<string | number> = [];
+  for (const entry of entries) {
+    if (typeof entry === 'number' && Number.isFinite(entry)) {
+      items.push(entry);
+    } else if (typeof entry === 'string' && entry.trim().length > 0) {
+      items.push(entry.trim());
+    }
+  }
+  return items;
+}
+
+export const toolDefinitions: readonly ToolDefinition[] = [
+  defineTool({
+    name: 'GetKeyNumbers',
+    description: 'Returns Matomo key metrics for the selected period and date.',
+    endpoint: '/tools/get-key-numbers',
+    parameters: [...reportWindow, compareParam],
+    method: 'getKeyNumbers',
+    defaults: REPORT_DEFAULTS,
+    response: keyNumbersSchema,
+  }),
+  defineTool({
+    name: 'DiagnoseMatomo',
+    description: 'Runs connectivity, permission, and reporting-plugin checks against the configured Matomo instance.',
+    endpoint: '/tools/diagnose-matomo',
+    parameters: siteScope,
+    method: 'runDiagnostics',
+    response: diagnosticsSchema,
+  }),
+  defineTool({
+    name: 'GetHealthStatus',
+    description: 'Returns comprehensive health status for Matomo API, cache, and dependencies.',
+    endpoint: '/tools/get-health-status',
+    parameters: [...siteScope, includeDetailsParam],
+    method: 'getHealthStatus',
+    defaults: { includeDetails: false },
+    response: healthStatusSchema,
+  }),
+  defineTool({
+    name: 'ListSites',
+    description: 'Lists the Matomo sites callers can reference by name, alias, or siteId.',
+    endpoint: '/tools/list-sites',
+    parameters: [],
+    method: 'listSites',
+    response: sitesSchema,
+  }),
+  defineTool({
+    name: 'GetKeyNumbersHistorical',
+    description: 'Returns key metrics broken down per period for multi-day comparisons.',
+    endpoint: '/tools/get-key-numbers-historical',
+    parameters: reportWindow,
+    method: 'getKeyNumbersSeries',
+    defaults: { period: 'day', date: 'last7' },
+    response: z.array(keyNumbersSchema.extend({ date: z.string() })),
+  }),
+  defineTool({
+    name: 'GetMostPopularUrls',
+    description: 'Retrieves the most visited pages for the selected period and date.',
+    endpoint: '/tools/get-most-popular-urls',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getMostPopularUrls',
+    defaults: REPORT_DEFAULTS,
+    response: mostPopularUrlsSchema,
+  }),
+  defineTool({
+    name: 'GetPageTitles',
+    description: 'Retrieves the most viewed page titles with hits, visits, and time on page for the selected period.',
+    endpoint: '/tools/get-page-titles',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getPageTitles',
+    defaults: REPORT_DEFAULTS,
+    response: pageTitlesSchema,
+  }),
+  defineTool({
+    name: 'GetOutlinks',
+    description: 'Lists the external links visitors clicked (e.g., partner sites), with clicks and visits per destination URL.',
+    endpoint: '/tools/get-outlinks',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getOutlinks',
+    defaults: REPORT_DEFAULTS,
+    response: outlinksSchema,
+  }),
+  defineTool({
+    name: 'GetDownloads',
+    description: 'Lists the files visitors downloaded (e.g., PDFs), with downloads and visits per file URL.',
+    endpoint: '/tools/get-downloads',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getDownloads',
+    defaults: REPORT_DEFAULTS,
+    response: downloadsSchema,
+  }),
+  defineTool({
+    name: 'GetTopReferrers',
+    description: 'Lists the top referrers driving traffic for the selected period.',
+    endpoint: '/tools/get-top-referrers',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getTopReferrers',
+    defaults: REPORT_DEFAULTS,
+    response: topReferrersSchema,
+  }),
+  defineTool({
+    name: 'GetEntryPages',
+    description: 'Returns the most common entry pages for the selected time range.',
+    endpoint: '/tools/get-entry-pages',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getEntryPages',
+    defaults: REPORT_DEFAULTS,
+    response: entryPagesSchema,
+  }),
+  defineTool({
+    name: 'GetExitPages',
+    description: 'Returns the pages where visits most often ended, with exit counts and exit rates, for the selected time range.',
+    endpoint: '/tools/get-exit-pages',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getExitPages',
+    defaults: REPORT_DEFAULTS,
+    response: exitPagesSchema,
+  }),
+  defineTool({
+    name: 'GetPageTransitions',
+    description:
+      'Explains how visitors move through one page: previous pages, internal searches, and referrers that led to it, and the next pages, searches, outlinks, downloads, or exits that followed, each with its share of pageviews.',
+    endpoint: '/tools/get-page-transitions',
+    parameters: [...reportWindow, pageUrlParam, limitParam],
+    method: 'getPageTransitions',
+    defaults: REPORT_DEFAULTS,
+    response: pageTransitionsSchema,
+  }),
+  defineTool({
+    name: 'GetUserFlow',
+    description:
+      'Returns the most common entry-to-exit paths through the site, optionally starting from one landing page, with visits, exits, and drop-off at each step.',
+    endpoint: '/tools/get-user-flow',
+    parameters: [...reportWindow, startUrlParam, flowStepsParam, flowLimitParam],
+    method: 'getUserFlow',
+    defaults: { ...REPORT_DEFAULTS, steps: 4 },
+    prepare: request => {
+      // The Transitions fallback issues requests per path and step, so the path count is capped.
+      if (typeof request.limit === 'number' && request.limit > MAX_USER_FLOW_PATHS) {
+        throw new ValidationError(`limit must be an integer between 1 and ${MAX_USER_FLOW_PATHS}`);
+      }
+      return request;
+    },
+    response: userFlowSchema,
+  }),
+  defineTool({
+    name: 'GetVisitorFrequency',
+    description:
+      'Compares new and returning visitors (visits, actions, bounce rate, time on site, conversions) and the share of visits from returning visitors.',
+    endpoint: '/tools/get-visitor-frequency',
+    parameters: [...reportWindow, compareParam],
+    method: 'getVisitorFrequency',
+    defaults: REPORT_DEFAULTS,
+    response: visitFrequencySchema,
+  }),
+  defineTool({
+    name: 'GetVisitsToConversion',
+    description: 'Distributes goal conversions by the number of visits visitors needed before converting.',
+    endpoint: '/tools/get-visits-to-conversion',
+    parameters: [...reportWindow, conversionGoalParam, compareParam],
+    method: 'getVisitsToConversion',
+    defaults: REPORT_DEFAULTS,
+    response: conversionLagSchema,
+  }),
+  defineTool({
+    name: 'GetDaysToConversion',
+    description: 'Distributes goal conversions by the number of days between the first visit and the conversion.',
+    endpoint: '/tools/get-days-to-conversion',
+    parameters: [...reportWindow, conversionGoalParam, compareParam],
+    method: 'getDaysToConversion',
+    defaults: REPORT_DEFAULTS,
+    response: conversionLagSchema,
+  }),
+  defineTool({
+    name: 'GetCohortRetention',
+    description:
+      'Returns a weekly retention matrix: for each first-visit cohort, the percent of visitors who returned in each following week (requires the Matomo Cohorts plugin).',
+    endpoint: '/tools/get-cohort-retention',
+    parameters: [...siteScope, cohortWeeksParam, segmentParam],
+    method: 'getCohortRetention',
+    defaults: { weeks: 8 },
+    response: cohortRetentionSchema,
+  }),
+  defineTool({
+    name: 'GetEngagementDistribution',
+    description:
+      "Shows how visits are distributed by hour of day (server time), day of week, visit duration, or pages per visit, with each bucket's share of all visits.",
+    endpoint: '/tools/get-engagement-distribution',
+    parameters: [...reportWindow, engagementDistributionParam, compareParam],
+    method: 'getEngagementDistribution',
+    defaults: { ...REPORT_DEFAULTS, distribution: 'hourOfDay' },
+    response: engagementDistributionSchema,
+  }),
+  defineTool({
+    name: 'GetCampaigns',
+    description: 'Lists campaign-level referrer metrics.',
+    endpoint: '/tools/get-campaigns',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getCampaigns',
+    defaults: REPORT_DEFAULTS,
+    response: z.array(campaignsSchema.element.extend({ revenue: monetaryField })),
+  }),
+  defineTool({
+    name: 'GetCampaignBreakdown',
+    description:
+      'Splits campaigns by UTM parameters: each campaign name with its keyword and content values, plus source/medium pairs (e.g., newsletter / email vs. facebook / paid-social), with conversions and revenue. Source, medium, and content need the MarketingCampaignsReporting plugin.',
+    endpoint: '/tools/get-campaign-breakdown',
+    parameters: [...reportWindow, limitParam],
+    method: 'getCampaignBreakdown',
+    defaults: REPORT_DEFAULTS,
+    response: campaignBreakdownSchema,
+  }),
+  defineTool({
+    name: 'GetEcommerceOverview',
+    description: 'Returns ecommerce order revenue and conversion metrics for the selected period.',
+    endpoint: '/tools/get-ecommerce-overview',
+    parameters: [...reportWindow, compareParam],
+    method: 'getEcommerceOverview',
+    defaults: REPORT_DEFAULTS,
+    response: ecommerceSummaryResponse,
+  }),
+  defineTool({
+    name: 'GetEcommerceRevenue',
+    description: 'Aggregates ecommerce revenue totals with optional per-period breakdown.',
+    endpoint: '/tools/get-ecommerce-revenue',
+    parameters: [...reportWindow, includeSeriesParam],
+    method: 'getEcommerceRevenueTotals',
+    defaults: REPORT_DEFAULTS,
+    response: z.object({
+      totals: ecommerceSummaryResponse,
+      series: z.array(ecommerceSummaryResponse.extend({ label: z.string() })).optional(),
+    }),
+  }),
+  defineTool({
+    name: 'GetProductPerformance',
+    description:
+      'Reports ecommerce product revenue, quantity, orders, average price, and conversion rate by SKU, product name, or category, optionally for abandoned carts.',
+    endpoint: '/tools/get-product-performance',
+    parameters: [...reportWindow, productDimensionParam, abandonedCartsParam, limitParam, compareParam],
+    method: 'getProductPerformance',
+    defaults: { ...REPORT_DEFAULTS, dimension: 'sku' },
+    fields: { dimension: productDimensionSchema },
+    response: productPerformanceSchema,
+  }),
+  defineTool({
+    name: 'GetTrafficChannels',
+    description: 'Provides a high-level breakdown of traffic sources (direct, search, social, referrals, campaigns).',
+    endpoint: '/tools/get-traffic-channels',
+    parameters: [...reportWindow, limitParam, channelTypeParam, compareParam],
+    method: 'getTrafficChannels',
+    defaults: REPORT_DEFAULTS,
+    response: z.array(trafficChannelsSchema.element.extend({ revenue: monetaryField })),
+  }),
+  defineTool({
+    name: 'GetReferrerDetails',
+    description:
+      'Breaks a referrer channel down into individual search engines, search keywords, referring websites, or social networks, with conversion and bounce rates; pass a row idSubtable to expand it.',
+    endpoint: '/tools/get-referrer-details',
+    parameters: [...reportWindow, referrerTypeParam, referrerSubtableParam, limitParam, compareParam],
+    method: 'getReferrerDetails',
+    defaults: REPORT_DEFAULTS,
+    response: referrerDetailsSchema,
+    prepare: ({ referrerType, ...request }) => {
+      if (request.compare !== undefined && request.idSubtable !== undefined) {
+        throw new ValidationError('idSubtable cannot be combined with compare because subtable ids differ between periods.');
+      }
+      return { ...request, referrerType: String(referrerType) };
+    },
+  }),
+  defineTool({
+    name: 'GetGoalConversions',
+    description: 'Returns goal conversion metrics with optional filtering by goal or type.',
+    endpoint: '/tools/get-goal-conversions',
+    parameters: [...reportWindow, limitParam, goalFilterIdParam, goalTypeFilterParam, compareParam],
+    method: 'getGoalConversions',
+    defaults: REPORT_DEFAULTS,
+    response: z.array(
+      goalConversionsSchema.element.extend({ id: z.string(), label: z.string(), type: z.string(), revenue: monetaryField })
+    ),
+  }),
+  defineTool({
+    name: 'ListGoals',
+    description:
+      'Lists the goals configured for the site (id, name, match attribute and pattern, default revenue) so goals can be referenced by name.',
+    endpoint: '/tools/list-goals',
+    parameters: siteScope,
+    method: 'listGoals',
+    response: goalsSchema,
+  }),
+  defineTool({
+    name: 'GetGoalBreakdown',
+    description:
+      'Splits conversions of one goal by traffic channel, device type, or top landing page, with each share of the goal total.',
+    endpoint: '/tools/get-goal-breakdown',
+    parameters: [...reportWindow, breakdownGoalParam, goalBreakdownParam, limitParam],
+    method: 'getGoalBreakdown',
+    defaults: { ...REPORT_DEFAULTS, breakdown: 'channel' },
+    response: goalBreakdownSchema,
+  }),
+  defineTool({
+    name: 'ListFunnels',
+    description: 'Lists the activated funnels for the site (id, name, linked goal, and step definitions) so funnels can be referenced by name.',
+    endpoint: '/tools/list-funnels',
+    parameters: siteScope,
+    method: 'listFunnels',
+    response: funnelDefinitionsSchema,
+  }),
+  defineTool({
+    name: 'GetFunnelAnalytics',
+    description: 'Returns funnel conversion metrics and step breakdown for a Matomo funnel.',
+    endpoint: '/tools/get-funnel-analytics',
+    parameters: [...siteScope, funnelIdParam, periodParam, dateParam, segmentParam],
+    method: 'getFunnelSummary',
+    defaults: REPORT_DEFAULTS,
+    prepare: ({ funnelId, ...request }) => ({ ...request, funnelId: String(funnelId) }),
+    response: funnelAnalyticsSchema,
+  }),
+  defineTool({
+    name: 'GetEvents',
+    description: 'Returns aggregate event metrics optionally filtered by category, action, or name.',
+    endpoint: '/tools/get-events',
+    parameters: [
+      ...reportWindow,
+      limitParam,
+      eventCategoryFilterParam,
+      eventActionFilterParam,
+      eventNameFilterParam,
+      compareParam,
+    ],
+    method: 'getEvents',
+    defaults: REPORT_DEFAULTS,
+    response: eventsSchema,
+  }),
+  defineTool({
+    name: 'GetEventCategories',
+    description: 'Summarizes events grouped by category with aggregate counts and values.',
+    endpoint: '/tools/get-event-categories',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getEventCategories',
+    defaults: REPORT_DEFAULTS,
+    response: eventCategoriesSchema,
+  }),
+  defineTool({
+    name: 'GetDeviceTypes',
+    description: 'Breaks down visits by high-level device categories (desktop, mobile, tablet).',
+    endpoint: '/tools/get-device-types',
+    parameters: [...reportWindow, limitParam, compareParam],
+    method: 'getDeviceTypes',
+    defaults: REPORT_DEFAULTS,
+    response: deviceTypesSchema,
+  }),
+  defineTool({
+    name: 'GetVisitorLocations',
+    description:
+      'Shows where visitors come from by country, region, or city, with ISO country codes, visits, and conversion metrics.',
+    endpoint: '/tools/get-visitor-locations',
+    parameters: [...reportWindow, granularityParam, countryCodeParam, limitParam, compareParam],
+    method: 'getVisitorLocations',
+    defaults: { ...REPORT_DEFAULTS, granularity: 'country' },
+    response: visitorLocationsSchema,
+  }),
+  defineTool({
+    name: 'GetTechnologyBreakdown',
+    description:
+      "Breaks down visits by browser, operating system version, device model, or screen resolution, with each row's share of all visits.",
+    endpoint: '/tools/get-technology-breakdown',
+    parameters: [...reportWindow, technologyDimensionParam, limitParam, compareParam],
+    method: 'getTechnologyBreakdown',
+    defaults: { ...REPORT_DEFAULTS, dimension: 'browser' },
+    response: technologyBreakdownSchema,
+  }),
+  defineTool({
+    name: 'GetSiteSearch',
+    description:
+      'Summarizes internal site search: top search terms with result pages viewed and exit rate, search terms that returned no results, search categories, and the pages visitors opened after searching.',
+    endpoint: '/tools/get-site-search',
+    parameters: [...reportWindow, limitParam],
+    method: 'getSiteSearch',
+    defaults: REPORT_DEFAULTS,
+    response: siteSearchOverviewSchema,
+  }),
+  defineTool({
+    name: 'CompareSites',
+    description:
+      'Compares key metrics (and optionally traffic channels and ecommerce) across several sites with ranks and share of total.',
+    endpoint: '/tools/compare-sites',
+    parameters: [
+      siteIdsParam,
+      sitesParam,
+      periodParam,
+      dateParam,
+      segmentParam,
+      includeTrafficChannelsParam,
+      includeEcommerceParam,
+    ],
+    method: 'compareSites',
+    defaults: REPORT_DEFAULTS,
+    prepare: ({ siteIds, sites, ...request }) => {
+      const references = [...parseListParameter(siteIds), ...parseListParameter(sites)];
+      if (references.length === 0) {
+        throw new ValidationError('Provide at least one site via siteIds or sites.');
+      }
+      if (references.length > MAX_COMPARED_SITES) {
+        throw new ValidationError(`At most ${MAX_COMPARED_SITES} sites can be compared at once.`);
+      }
+      return { ...request, sites: references };
+    },
+    response: siteComparisonSchema,
+  }),
+  defineTool({
+    name: 'GetRealtimeActivity',
+    description:
+      'Shows who is on the site right now: live visit, visitor, action, and conversion counts for the last minutes plus the most recent visits with their pages, referrer, location, and device. IPs and visitor ids are never included.',
+    endpoint: '/tools/get-realtime-activity',
+    parameters: [...siteScope, lastMinutesParam, limitParam, segmentParam],
+    method: 'getRealtimeActivity',
+    defaults: { lastMinutes: 30, limit: 10 },
+    response: realtimeActivitySchema,
+  }),
+  defineTool({
+    name: 'ListCustomDimensions',
+    description:
+      'Lists the custom dimensions configured for the site (id, name, visit or action scope, and the dimensionN name used in segments).',
+    endpoint: '/tools/list-custom-dimensions',
+    parameters: siteScope,
+    method: 'listCustomDimensions',
+    response: customDimensionsSchema,
+  }),
+  defineTool({
+    name: 'GetCustomDimension',
+    description:
+      'Reports visits and actions per value of one custom dimension (such as plan tier or login state), referenced by its configured name or id.',
+    endpoint: '/tools/get-custom-dimension',
+    parameters: [...reportWindow, customDimensionParam, limitParam],
+    method: 'getCustomDimension',
+    defaults: REPORT_DEFAULTS,
+    response: customDimensionReportSchema,
+  }),
+  defineTool({
+    name: 'ListReports',
+    description:
+      "Lists the reports the site's Matomo plugins provide (module, action, dimension, metrics, documentation) so callers can check what exists before querying.",
+    endpoint: '/tools/list-reports',
+    parameters: [...siteScope, reportCategoryParam],
+    method: 'listAvailableReports',
+    response: availableReportsResponse,
+  }),
+  defineTool({
+    name: 'RunMatomoReport',
+    description:
+      'Runs any allowlisted read-only Matomo report (Module.action) and returns its rows generically normalized. Use API.getReportMetadata to discover reports.',
+    endpoint: '/tools/run-matomo-report',
+    parameters: [...siteScope, reportMethodParam, periodParam, dateParam, segmentParam, limitParam, reportParamsParam],
+    method: 'runReport',
+    defaults: REPORT_DEFAULTS,
+    prepare: ({ method, params, ...request }) => {
+      const reportParams = parseReportParams(params);
+      return { ...request, method: String(method), ...(reportParams ? { params: reportParams } : {}) };
+    },
+    response: matomoReportSchema,
+  }),
+];
+
+/**
+ * Maps `site` onto a numeric siteId, rejecting calls where `site` and `siteId` are both given and
+ * disagree. `siteId` itself is always numeric; names only travel through `site`.
+ */
+export async function resolveSiteParameter(
+  client: Pick<MatomoClient, 'resolveSite'>,
+  parameters: Record<string, unknown>
+): Promise<number | undefined> {
+  const siteId = parseOptionalInteger(parameters['siteId']);
+  const site = parseOptionalString(parameters['site']);
+  if (site === undefined) {
+    return siteId;
+  }
+
+  const resolved = await client.resolveSite(site);
+  if (siteId !== undefined && siteId !== resolved.siteId) {
+    throw new ValidationError(`site "${site}" resolves to siteId ${resolved.siteId}, which conflicts with siteId ${siteId}.`);
+  }
+  return resolved.siteId;
+}
+
+/**
+ * Runs a tool against the Matomo client. `parameters` must already have passed the tool's
+ * schema; omitted values fall back to the definition defaults.
+ */
+export async function executeTool(
+  definition: ToolDefinition,
+  client: MatomoClient,
+  parameters: Record<string, unknown>
+): Promise<unknown> {
+  const request: Record<string, unknown> = { ...(definition.defaults as Record<string, unknown> | undefined) };
+  for (const [key, value] of Object.entries(parameters)) {
+    if (value !== undefined && key !== 'site' && key !== 'siteId') {
+      request[key] = value;
+    }
+  }
+
+  const siteId = await resolveSiteParameter(client, parameters);
+  if (siteId !== undefined) {
+    request.siteId = siteId;
+  }
+
+  const input = definition.prepare ? definition.prepare(request) : request;
+  const method = client[definition.method] as (input: unknown) => Promise<unknown>;
+  return method.call(client, input);
+}
+
+export interface JsonSchemaObject {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+  additionalProperties: false;
+}
+
+const JSON_SCHEMA_TYPES: Record<ParameterType, Record<string, unknown>> = {
+  [ParameterType.String]: { type: 'string' },
+  [ParameterType.Integer]: { type: 'integer' },
+  [ParameterType.Number]: { type: 'number' },
+  [ParameterType.Boolean]: { type: 'boolean' },
+  [ParameterType.List]: { type: 'array', items: { type: ['string', 'number'] } },
+  [ParameterType.Dictionary]: { type: 'object' },
+};
+
+/** Describes a tool's parameters as JSON Schema for transports that advertise input schemas. */
+export function toolInputSchema(definition: ToolDefinition): JsonSchemaObject {
+  const defaults = (definition.defaults ?? {}) as Record<string, unknown>;
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const parameter of definition.parameters) {
+    const property: Record<string, unknown> = { ...JSON_SCHEMA_TYPES[parameter.type], description: parameter.description };
+    if (defaults[parameter.name] !== undefined) property.default = defaults[parameter.name];
+    properties[parameter.name] = property;
+  }
+
+  const required = definition.parameters.filter(parameter => parameter.required).map(parameter => parameter.name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}), additionalProperties: false };
+}
+
+function formatParameter(parameter: Parameter, defaults: Record<string, unknown>): string {
+  const name = `\`${parameter.name}\`${parameter.required ? ' (required)' : ''}`;
+  const fallback = defaults[parameter.name];
+  return fallback === undefined ? name : `${name} = \`${String(fallback)}\``;
+}
+
+/** Renders the README tool table from the definitions. */
+export function renderToolReference(definitions: readonly ToolDefinition[] = toolDefinitions): string {
+  const rows = definitions.map(definition => {
+    const defaults = (definition.defaults ?? {}) as Record<string, unknown>;
+    const parameters = definition.parameters.map(parameter => formatParameter(parameter, defaults)).join(', ');
+    return `| \`${definition.name}\` | \`POST ${definition.endpoint}\` | ${definition.description} | ${parameters || '—'} |`;
+  });
+
+  return ['| Tool | Endpoint | Purpose | Parameters (defaults) |', '|------|----------|---------|-----------------------|', ...rows].join(
+    '\n'
+  );
+}
+
+const TOOL_REFERENCE_START = '<!-- tools:start -->';
+const TOOL_REFERENCE_END = '<!-- tools:end -->';
+
+/** Replaces the generated block between the `tools:start`/`tools:end` markers in `markdown`. */
+export function syncToolReference(markdown: string, definitions: readonly ToolDefinition[] = toolDefinitions): string {
+  const start = markdown.indexOf(TOOL_REFERENCE_START);
+  const end = markdown.indexOf(TOOL_REFERENCE_END);
+  if (start === -1 || end < start) {
+    throw new Error(`Expected ${TOOL_REFERENCE_START} and ${TOOL_REFERENCE_END} markers.`);
+  }
+
+  return `${markdown.slice(0, start + TOOL_REFERENCE_START.length)}\n${renderToolReference(definitions)}\n${markdown.slice(end)}`;
+}
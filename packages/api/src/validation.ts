@@ -1,3 +1,25 @@
+import { ParameterType, type Parameter } from '@optimizely-opal/opal-tools-sdk';
+import {
+  comparisonModes,
+  engagementDistributions,
+  goalBreakdownDimensions,
+  isComparisonMode,
+  isEngagementDistribution,
+  isGoalBreakdownDimension,
+  isLocationGranularity,
+  isMatomoPeriod,
+  isProductDimension,
+  isTechnologyDimension,
+  locationGranularities,
+  matomoPeriods,
+  MAX_USER_FLOW_STEPS,
+  PeriodError,
+  productDimensions,
+  referrerDetailTypes,
+  resolveReferrerDetailType,
+  resolvePeriodWindow,
+  technologyDimensions,
+} from '@opalmind/sdk';
 import { z, ZodError } from 'zod';
 
 export class ValidationError extends Error {
@@ -23,12 +45,207 @@ const baseInvocationSchema = z
 
 const endpointValidators = new Map<string, z.ZodTypeAny>();
 
+const DATE_TOKEN_PATTERN = /^(today|yesterday|(last|previous)\d+|\d{4}-\d{2}(-\d{2})?)$/i;
+
+function emptyToUndefined(value: unknown): unknown {
+  return value === '' || value === null ? undefined : value;
+}
+
+function numericStringToNumber(value: unknown): unknown {
+  return typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? Number(value) : value;
+}
+
+function integerSchema(name: string, options: { positive?: boolean } = {}): z.ZodTypeAny {
+  const base = z.number({ invalid_type_error: `${name} must be an integer` }).int(`${name} must be an integer`);
+  return z.preprocess(
+    numericStringToNumber,
+    options.positive ? base.positive(`${name} must be a positive integer`) : base
+  );
+}
+
+const STEPS_MESSAGE = `steps must be an integer between 2 and ${MAX_USER_FLOW_STEPS}`;
+const stepsSchema = z.preprocess(
+  numericStringToNumber,
+  z
+    .number({ invalid_type_error: STEPS_MESSAGE })
+    .int(STEPS_MESSAGE)
+    .min(2, STEPS_MESSAGE)
+    .max(MAX_USER_FLOW_STEPS, STEPS_MESSAGE)
+);
+
+const periodSchema = z
+  .string({ invalid_type_error: 'period must be a string' })
+  .trim()
+  .toLowerCase()
+  .refine(isMatomoPeriod, `period must be one of: ${matomoPeriods.join(', ')}`);
+
+const dateSchema = z
+  .string({ invalid_type_error: 'date must be a string' })
+  .trim()
+  .refine(
+    value => value.split(',').length <= 2 && value.split(',').every(part => DATE_TOKEN_PATTERN.test(part.trim())),
+    'date must be YYYY-MM-DD, YYYY-MM, today, yesterday, lastN, previousN, or a YYYY-MM-DD,YYYY-MM-DD range'
+  );
+
+const compareSchema = z
+  .string({ invalid_type_error: 'compare must be a string' })
+  .trim()
+  .toLowerCase()
+  .refine(isComparisonMode, `compare must be one of: ${comparisonModes.join(', ')}`);
+
+const granularitySchema = z
+  .string({ invalid_type_error: 'granularity must be a string' })
+  .trim()
+  .toLowerCase()
+  .refine(isLocationGranularity, `granularity must be one of: ${locationGranularities.join(', ')}`);
+
+const dimensionSchema = z
+  .string({ invalid_type_error: 'dimension must be a string' })
+  .trim()
+  .toLowerCase()
+  .refine(isTechnologyDimension, `dimension must be one of: ${technologyDimensions.join(', ')}`);
+
+/** `dimension` of GetProductPerformance, which splits items rather than technologies. */
+export const productDimensionSchema = z
+  .string({ invalid_type_error: 'dimension must be a string' })
+  .trim()
+  .toLowerCase()
+  .refine(isProductDimension, `dimension must be one of: ${productDimensions.join(', ')}`);
+
+const distributionSchema = z
+  .string({ invalid_type_error: 'distribution must be a string' })
+  .trim()
+  .refine(isEngagementDistribution, `distribution must be one of: ${engagementDistributions.join(', ')}`);
+
+const goalBreakdownSchema = z
+  .string({ invalid_type_error: 'breakdown must be a string' })
+  .trim()
+  .refine(isGoalBreakdownDimension, `breakdown must be one of: ${goalBreakdownDimensions.join(', ')}`);
+
+const referrerTypeSchema = z
+  .string({ invalid_type_error: 'referrerType must be a string' })
+  .trim()
+  .refine(
+    value => resolveReferrerDetailType(value) !== undefined,
+    `referrerType must be one of: ${referrerDetailTypes.join(', ')}`
+  );
+
+const countryCodeSchema = z
+  .string({ invalid_type_error: 'countryCode must be a string' })
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, 'countryCode must be a two-letter ISO country code');
+
+// Names go through `site`; `siteId` stays numeric so it matches the published integer parameter.
+const SITE_ID_MESSAGE = 'siteId must be a positive integer; pass site names as site';
+
+const siteIdSchema = z.preprocess(
+  numericStringToNumber,
+  z.number({ invalid_type_error: SITE_ID_MESSAGE }).int(SITE_ID_MESSAGE).positive(SITE_ID_MESSAGE)
+);
+
+const booleanSchema = (name: string) =>
+  z.union([z.boolean(), z.enum(['true', 'false', '1', '0']).transform(value => value === 'true' || value === '1')], {
+    errorMap: () => ({ message: `${name} must be a boolean` }),
+  });
+
+const namedFieldSchemas: Record<string, z.ZodTypeAny> = {
+  siteId: siteIdSchema,
+  period: periodSchema,
+  date: dateSchema,
+  limit: integerSchema('limit', { positive: true }),
+  compare: compareSchema,
+  granularity: granularitySchema,
+  countryCode: countryCodeSchema,
+  dimension: dimensionSchema,
+  distribution: distributionSchema,
+  referrerType: referrerTypeSchema,
+  breakdown: goalBreakdownSchema,
+  idSubtable: integerSchema('idSubtable', { positive: true }),
+  steps: stepsSchema,
+  weeks: integerSchema('weeks', { positive: true }),
+  lastMinutes: integerSchema('lastMinutes', { positive: true }),
+};
+
+function fieldSchema(parameter: Parameter, overrides: Record<string, z.ZodTypeAny>): z.ZodTypeAny {
+  const named = overrides[parameter.name] ?? namedFieldSchemas[parameter.name];
+  if (named) {
+    return named;
+  }
+
+  switch (parameter.type) {
+    case ParameterType.Integer:
+      return integerSchema(parameter.name);
+    case ParameterType.Number:
+      return z.preprocess(
+        numericStringToNumber,
+        z.number({ invalid_type_error: `${parameter.name} must be a number` }).finite(`${parameter.name} must be a number`)
+      );
+    case ParameterType.Boolean:
+      return booleanSchema(parameter.name);
+    case ParameterType.List:
+      return z.union([z.array(z.union([z.string(), z.number()])), z.string()], {
+        errorMap: () => ({ message: `${parameter.name} must be a list of strings or numbers` }),
+      });
+    case ParameterType.Dictionary:
+      return z.record(z.unknown(), { invalid_type_error: `${parameter.name} must be an object` });
+    default:
+      // Identifiers such as goalId/funnelId are declared as strings but often sent as numbers.
+      return z.union([z.string(), z.number()], {
+        errorMap: () => ({ message: `${parameter.name} must be a string` }),
+      });
+  }
+}
+
+/**
+ * Builds the strict parameter schema for a tool from its `Parameter` definitions so discovery
+ * metadata and request validation cannot drift apart. `overrides` replaces the shared schema of a
+ * parameter name for tools where that name means something else.
+ */
+export function createParameterSchema(
+  parameters: readonly Parameter[],
+  overrides: Record<string, z.ZodTypeAny> = {}
+): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const parameter of parameters) {
+    const schema = fieldSchema(parameter, overrides);
+    shape[parameter.name] = parameter.required
+      ? z.preprocess(emptyToUndefined, schema)
+      : z.preprocess(emptyToUndefined, schema.optional());
+  }
+
+  return z
+    .object(shape)
+    .strict()
+    .superRefine((value, ctx) => {
+      const { period, date } = value as { period?: string; date?: string };
+      if (!('date' in shape) || date === undefined) {
+        return;
+      }
+
+      try {
+        resolvePeriodWindow({ period: period ?? 'day', date });
+      } catch (error) {
+        if (error instanceof PeriodError) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['date'], message: error.message });
+          return;
+        }
+        throw error;
+      }
+    });
+}
+
+export function registerEndpointValidator(endpoint: string, schema: z.ZodTypeAny): void {
+  endpointValidators.set(endpoint, schema);
+}
+
 function pickParameters(source: Record<string, unknown>): Record<string, unknown> {
   const { parameters, ...rest } = source;
   if (parameters && typeof parameters === 'object' && !Array.isArray(parameters)) {
     return parameters as Record<string, unknown>;
   }
 
+  // `auth` belongs to the invocation envelope, not to the tool parameters.
+  delete rest.auth;
   return rest;
 }
 
@@ -62,39 +279,59 @@ function sanitizeContainer(body: unknown): {
   }
 }
 
-export function parseToolInvocation(body: unknown, endpoint: string): {
-  params: Record<string, unknown>;
-  auth: unknown;
-  usedFallback: boolean;
-} {
-  const { container, parameters, usedFallback } = sanitizeContainer(body);
-
-  const schema = endpointValidators.get(endpoint);
-  if (!schema) {
-    return {
-      params: parameters,
-      auth: container.auth,
-      usedFallback,
-    };
-  }
-
+/** Parses tool parameters with `schema`, reporting the first issue as a `ValidationError`. */
+export function parseToolParameters(schema: z.ZodTypeAny, parameters: Record<string, unknown>): Record<string, unknown> {
   try {
-    const parsed = schema.parse(parameters);
-    return {
-      params: parsed as Record<string, unknown>,
-      auth: container.auth,
-      usedFallback,
-    };
+    return schema.parse(parameters) as Record<string, unknown>;
   } catch (error) {
     if (error instanceof ZodError) {
       const issue = error.issues[0];
       const pathSegment = typeof issue?.path?.[0] === 'string' ? (issue?.path?.[0] as string) : undefined;
       let message = issue?.message ?? 'Request parameters are invalid.';
-      if (message === 'Required' && pathSegment) {
+      if (issue?.code === z.ZodIssueCode.unrecognized_keys) {
+        message = `Unknown parameter${issue.keys.length > 1 ? 's' : ''}: ${issue.keys.join(', ')}`;
+      } else if (pathSegment && (message === 'Required' || emptyToUndefined(parameters[pathSegment]) === undefined)) {
         message = `${pathSegment} is required`;
+      } else if (pathSegment && !message.includes(pathSegment)) {
+        message = `${pathSegment}: ${message}`;
       }
       throw new ValidationError(message, error.format());
     }
     throw error;
   }
 }
+
+/**
+ * Validates tool parameters against the schema registered for `endpoint`. Endpoints without a
+ * registered schema pass through unchanged.
+ */
+export function validateToolParameters(endpoint: string, parameters: Record<string, unknown>): Record<string, unknown> {
+  const schema = endpointValidators.get(endpoint);
+  return schema ? parseToolParameters(schema, parameters) : parameters;
+}
+
+/** Unwraps the invocation envelope without applying the endpoint schema. */
+export function readToolInvocation(body: unknown): {
+  params: Record<string, unknown>;
+  auth: unknown;
+  usedFallback: boolean;
+} {
+  const { container, parameters, usedFallback } = sanitizeContainer(body);
+  return {
+    params: parameters,
+    auth: container.auth,
+    usedFallback,
+  };
+}
+
+export function parseToolInvocation(body: unknown, endpoint: string): {
+  params: Record<string, unknown>;
+  auth: unknown;
+  usedFallback: boolean;
+} {
+  const invocation = readToolInvocation(body);
+  return {
+    ...invocation,
+    params: validateToolParameters(endpoint, invocation.params),
+  };
+}
@@ -0,0 +1,4 @@
+import { createRequire } from 'node:module';
+
+/** Version of the @opalmind/api package, reported by MCP and OpenAPI metadata. */
+export const { version: packageVersion } = createRequire(import.meta.url)('../package.json') as { version: string };
@@ -0,0 +1,73 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { MatomoClient } from '@opalmind/sdk';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createMcpServer } from '../src/mcp.js';
+import { toolDefinitions } from '../src/tools.js';
+
+const matomoClient = {
+  resolveSite: vi.fn(),
+  getKeyNumbers: vi.fn(),
+  getFunnelSummary: vi.fn(),
+};
+
+async function connect() {
+  const server = createMcpServer(matomoClient as unknown as MatomoClient);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('MCP server', () => {
+  it('lists every registered tool with a JSON Schema built from its parameters', async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(toolDefinitions.map(definition => definition.name));
+    const funnel = tools.find(tool => tool.name === 'GetFunnelAnalytics');
+    expect(funnel?.inputSchema).toMatchObject({
+      type: 'object',
+      required: ['funnelId'],
+      properties: {
+        siteId: { type: 'integer' },
+        period: { type: 'string', default: 'day' },
+        date: { type: 'string', default: 'today' },
+      },
+    });
+  });
+
+  it('validates arguments and calls the SDK with the tool defaults', async () => {
+    matomoClient.resolveSite.mockResolvedValue({ name: 'shop-se', siteId: 7 });
+    matomoClient.getKeyNumbers.mockResolvedValue({ nb_visits: 42 });
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'GetKeyNumbers', arguments: { site: 'shop-se', period: 'WEEK' } });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ nb_visits: 42 }, null, 2) }]);
+    expect(matomoClient.getKeyNumbers).toHaveBeenCalledWith({ siteId: 7, period: 'week', date: 'today' });
+  });
+
+  it('reports validation and Matomo failures as tool errors', async () => {
+    matomoClient.getKeyNumbers.mockRejectedValue(new Error('Request failed: token_auth=abc123'));
+    const client = await connect();
+
+    const invalid = await client.callTool({ name: 'GetFunnelAnalytics', arguments: { period: 'day' } });
+    expect(invalid).toMatchObject({ isError: true, content: [{ type: 'text', text: 'funnelId is required' }] });
+    expect(matomoClient.getFunnelSummary).not.toHaveBeenCalled();
+
+    const failed = await client.callTool({ name: 'GetKeyNumbers', arguments: {} });
+    expect(failed).toMatchObject({ isError: true, content: [{ type: 'text', text: 'Request failed: token_auth=REDACTED' }] });
+  });
+
+  it('rejects unknown tools at the protocol level', async () => {
+    const client = await connect();
+    await expect(client.callTool({ name: 'DropDatabase', arguments: {} })).rejects.toThrow('Unknown tool "DropDatabase".');
+  });
+});
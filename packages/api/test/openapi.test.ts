@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildOpenApiDocument } from '../src/openapi.js';
+import { toolDefinitions } from '../src/tools.js';
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument();
+
+  it('describes every tool endpoint behind bearer auth', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toEqual(toolDefinitions.map(definition => definition.endpoint));
+    expect(document.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.components.securitySchemes.bearerAuth).toMatchObject({ type: 'http', scheme: 'bearer' });
+    expect(document.components.schemas.Error).toEqual({
+      type: 'object',
+      required: ['error'],
+      properties: { error: { type: 'string' } },
+    });
+  });
+
+  it('builds request bodies from the tool parameters and defaults', () => {
+    const operation = document.paths['/tools/get-funnel-analytics']?.post;
+
+    expect(operation?.operationId).toBe('GetFunnelAnalytics');
+    expect(operation?.requestBody.content['application/json'].schema.properties.parameters).toMatchObject({
+      required: ['funnelId'],
+      additionalProperties: false,
+      properties: { date: { type: 'string', default: 'today' }, funnelId: { type: 'string' } },
+    });
+    expect(operation?.responses['400'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error' });
+  });
+
+  it('publishes response schemas, including currency-tagged revenue and comparison reports', () => {
+    const campaigns = document.paths['/tools/get-campaigns']?.post.responses['200'].content['application/json'].schema;
+
+    expect(campaigns).toMatchObject({
+      oneOf: [
+        {
+          type: 'array',
+          items: {
+            required: ['label'],
+            properties: {
+              nb_visits: { type: 'number' },
+              revenue: { type: 'object', required: ['value', 'currency'] },
+            },
+          },
+        },
+        { $ref: '#/components/schemas/ComparedReport' },
+      ],
+    });
+
+    const products = document.paths['/tools/get-product-performance']?.post.responses['200'].content['application/json'].schema;
+    expect(products).toMatchObject({
+      oneOf: [
+        {
+          type: 'array',
+          items: {
+            properties: {
+              abandoned_carts: { type: 'number' },
+              revenue: { type: 'object', required: ['value', 'currency'] },
+              avg_price: { type: 'object', required: ['value', 'currency'] },
+            },
+          },
+        },
+        { $ref: '#/components/schemas/ComparedReport' },
+      ],
+    });
+  });
+
+  it('publishes a typed response for every tool', () => {
+    const untyped = toolDefinitions.filter(definition => definition.response === undefined).map(definition => definition.name);
+    expect(untyped).toEqual([]);
+
+    const funnels = document.paths['/tools/list-funnels']?.post.responses['200'].content['application/json'].schema;
+    expect(funnels).toMatchObject({ type: 'array', items: { required: ['id', 'label', 'steps'] } });
+
+    const comparison = document.paths['/tools/compare-sites']?.post.responses['200'].content['application/json'].schema;
+    expect(comparison).toMatchObject({ required: ['period', 'date', 'sites', 'totals'] });
+  });
+});
@@ -1,9 +1,18 @@
 import { EventEmitter } from 'node:events';
+import type { AddressInfo } from 'node:net';
 
 import type { Express, NextFunction, Request, Response } from 'express';
 import httpMocks from 'node-mocks-http';
 import type { LogRecord } from '@opalmind/logger';
-import { MatomoClientError } from '@opalmind/sdk';
+import {
+  DEFAULT_REPORT_ALLOWLIST,
+  MatomoClientError,
+  ReportMethodError,
+  UnknownCustomDimensionError,
+  UnknownFunnelError,
+  UnknownGoalError,
+  UnknownSiteError,
+} from '@opalmind/sdk';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mockMatomoClient = vi.hoisted(() => ({
@@ -23,6 +32,34 @@ const mockMatomoClient = vi.hoisted(() => ({
   getFunnelSummary: vi.fn(),
   runDiagnostics: vi.fn(),
   getHealthStatus: vi.fn(),
+  resolveSite: vi.fn(),
+  listSites: vi.fn(),
+  compareSites: vi.fn(),
+  runReport: vi.fn(),
+  listAvailableReports: vi.fn(),
+  getVisitorLocations: vi.fn(),
+  getTechnologyBreakdown: vi.fn(),
+  getProductPerformance: vi.fn(),
+  getSiteSearch: vi.fn(),
+  getPageTitles: vi.fn(),
+  getOutlinks: vi.fn(),
+  getDownloads: vi.fn(),
+  getExitPages: vi.fn(),
+  getPageTransitions: vi.fn(),
+  getUserFlow: vi.fn(),
+  getVisitorFrequency: vi.fn(),
+  getVisitsToConversion: vi.fn(),
+  getDaysToConversion: vi.fn(),
+  getCohortRetention: vi.fn(),
+  getEngagementDistribution: vi.fn(),
+  listCustomDimensions: vi.fn(),
+  getCustomDimension: vi.fn(),
+  getRealtimeActivity: vi.fn(),
+  getReferrerDetails: vi.fn(),
+  getCampaignBreakdown: vi.fn(),
+  listGoals: vi.fn(),
+  getGoalBreakdown: vi.fn(),
+  listFunnels: vi.fn(),
 }));
 
 const createMatomoClientMock = vi.hoisted(() => vi.fn(() => mockMatomoClient));
@@ -148,6 +185,34 @@ beforeEach(() => {
   mockMatomoClient.getFunnelSummary.mockReset();
   mockMatomoClient.runDiagnostics.mockReset();
   mockMatomoClient.getHealthStatus.mockReset();
+  mockMatomoClient.resolveSite.mockReset();
+  mockMatomoClient.listSites.mockReset();
+  mockMatomoClient.compareSites.mockReset();
+  mockMatomoClient.runReport.mockReset();
+  mockMatomoClient.listAvailableReports.mockReset();
+  mockMatomoClient.getVisitorLocations.mockReset();
+  mockMatomoClient.getTechnologyBreakdown.mockReset();
+  mockMatomoClient.getProductPerformance.mockReset();
+  mockMatomoClient.getSiteSearch.mockReset();
+  mockMatomoClient.getPageTitles.mockReset();
+  mockMatomoClient.getOutlinks.mockReset();
+  mockMatomoClient.getDownloads.mockReset();
+  mockMatomoClient.getExitPages.mockReset();
+  mockMatomoClient.getPageTransitions.mockReset();
+  mockMatomoClient.getUserFlow.mockReset();
+  mockMatomoClient.getVisitorFrequency.mockReset();
+  mockMatomoClient.getVisitsToConversion.mockReset();
+  mockMatomoClient.getDaysToConversion.mockReset();
+  mockMatomoClient.getCohortRetention.mockReset();
+  mockMatomoClient.getEngagementDistribution.mockReset();
+  mockMatomoClient.listCustomDimensions.mockReset();
+  mockMatomoClient.getCustomDimension.mockReset();
+  mockMatomoClient.getRealtimeActivity.mockReset();
+  mockMatomoClient.getReferrerDetails.mockReset();
+  mockMatomoClient.getCampaignBreakdown.mockReset();
+  mockMatomoClient.listGoals.mockReset();
+  mockMatomoClient.getGoalBreakdown.mockReset();
+  mockMatomoClient.listFunnels.mockReset();
 
   delete process.env.OPAL_CORS_ALLOWLIST;
   delete process.env.OPAL_CORS_ALLOW_ALL;
@@ -158,6 +223,11 @@ beforeEach(() => {
   delete process.env.MATOMO_CACHE_WARN_HIT_RATE;
   delete process.env.MATOMO_CACHE_FAIL_HIT_RATE;
   delete process.env.MATOMO_CACHE_SAMPLE_SIZE;
+  delete process.env.MATOMO_SITES;
+  delete process.env.MATOMO_SITES_FILE;
+  delete process.env.MATOMO_SITES_HYDRATE;
+  delete process.env.MATOMO_REPORT_ALLOWLIST;
+  delete process.env.MATOMO_REPORT_METADATA_FALLBACK;
 
   process.env.MATOMO_BASE_URL = 'https://matomo.example.com';
   process.env.MATOMO_TOKEN = 'token';
@@ -499,7 +569,7 @@ describe('tools logging', () => {
       url: '/tools/get-key-numbers',
       headers: { authorization: 'Bearer test-token' },
       body: {
-        parameters: { period: 'day', date: 'today', token_auth: 'super-secret' },
+        parameters: { period: 'day', date: 'today', segment: 'pageUrl=@token_auth=super-secret' },
       },
     });
 
@@ -510,6 +580,25 @@ describe('tools logging', () => {
     const serializedErrors = JSON.stringify(errorEntries satisfies LogRecord[]);
     expect(serializedErrors).not.toContain('super-secret');
     expect(serializedErrors).not.toContain('token_auth=');
+  });
+
+  it('redacts sensitive keys when rejecting unknown parameters', async () => {
+    const app = await createApp();
+
+    const result = await invoke(app, {
+      url: '/tools/get-key-numbers',
+      headers: { authorization: 'Bearer test-token' },
+      body: {
+        parameters: { period: 'day', date: 'today', token_auth: 'super-secret' },
+      },
+    });
+
+    expect(result.status).toBe(400);
+    expect(result.body).toEqual({ error: 'Unknown parameter: token_auth' });
+
+    const errorEntries = logRecords.filter(record => record.level === 'error' && record.message === 'tools');
+    const serializedErrors = JSON.stringify(errorEntries satisfies LogRecord[]);
+    expect(serializedErrors).not.toContain('super-secret');
     expect(serializedErrors).toContain('[redacted]');
   });
 });
@@ -577,6 +666,806 @@ describe('tool endpoints', () => {
     });
   });
 
+  it('forwards comparison requests to the Matomo client', async () => {
+    const app = await createApp();
+    const comparison = {
+      comparison: 'previous_period',
+      current: { period: 'month', date: '2025-09-01' },
+      previous: { period: 'month', date: '2025-08-01' },
+      rows: [],
+    };
+    mockMatomoClient.getTrafficChannels.mockResolvedValue(comparison);
+
+    const response = await invoke(app, {
+      url: '/tools/get-traffic-channels',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'month', date: '2025-09-01', compare: 'Previous_Period' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(comparison);
+    expect(mockMatomoClient.getTrafficChannels).toHaveBeenCalledWith({
+      siteId: undefined,
+      period: 'month',
+      date: '2025-09-01',
+      segment: undefined,
+      limit: undefined,
+      channelType: undefined,
+      compare: 'previous_period',
+    });
+  });
+
+  it('rejects unknown comparison modes', async () => {
+    const app = await createApp();
+
+    const response = await invoke(app, {
+      url: '/tools/get-key-numbers',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { compare: 'last_quarter' } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'compare must be one of: previous_period, previous_year' });
+    expect(mockMatomoClient.getKeyNumbers).not.toHaveBeenCalled();
+  });
+
+  it('resolves site names to site ids before calling Matomo', async () => {
+    const app = await createApp();
+    mockMatomoClient.resolveSite.mockResolvedValue({ name: 'shop-se', siteId: 7 });
+    mockMatomoClient.getKeyNumbers.mockResolvedValue({ nb_visits: 5 });
+
+    const response = await invoke(app, {
+      url: '/tools/get-key-numbers',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { site: 'shop-se' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockMatomoClient.resolveSite).toHaveBeenCalledWith('shop-se');
+    expect(mockMatomoClient.getKeyNumbers).toHaveBeenCalledWith({ siteId: 7, period: 'day', date: 'today' });
+  });
+
+  it('rejects unknown or conflicting site references', async () => {
+    const app = await createApp();
+    mockMatomoClient.resolveSite.mockRejectedValueOnce(new UnknownSiteError('shop-xx', ['shop-se']));
+
+    const unknown = await invoke(app, {
+      url: '/tools/get-key-numbers',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { site: 'shop-xx' } },
+    });
+
+    expect(unknown.status).toBe(400);
+    expect(unknown.body).toEqual({ error: 'Unknown site "shop-xx". Known sites: shop-se.' });
+
+    mockMatomoClient.resolveSite.mockResolvedValueOnce({ name: 'shop-se', siteId: 7 });
+    const conflicting = await invoke(app, {
+      url: '/tools/get-key-numbers',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { site: 'shop-se', siteId: 3 } },
+    });
+
+    expect(conflicting.status).toBe(400);
+    expect(conflicting.body).toEqual({ error: 'site "shop-se" resolves to siteId 7, which conflicts with siteId 3.' });
+    expect(mockMatomoClient.getKeyNumbers).not.toHaveBeenCalled();
+  });
+
+  it('passes the configured site map to the Matomo client', async () => {
+    process.env.MATOMO_SITES = [
+      'shop-se:',
+      '  siteId: 7',
+      '  aliases: [Shop Sweden]',
+      '  timezone: Europe/Stockholm',
+      '  currency: sek',
+      'blog: 9',
+    ].join('\n');
+    process.env.MATOMO_SITES_HYDRATE = '1';
+
+    await createApp();
+
+    expect(createMatomoClientMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        hydrateSites: true,
+        sites: [
+          {
+            name: 'shop-se',
+            siteId: 7,
+            aliases: ['Shop Sweden'],
+            timezone: 'Europe/Stockholm',
+            currency: 'SEK',
+            source: 'config',
+          },
+          { name: 'blog', siteId: 9, source: 'config' },
+        ],
+      })
+    );
+  });
+
+  it('refuses to start with an invalid site map', async () => {
+    process.env.MATOMO_SITES = JSON.stringify([{ name: 'shop-se', siteId: 'abc' }]);
+
+    await expect(createApp()).rejects.toThrow(/^MATOMO_SITES: Invalid site map/);
+  });
+
+  it('compares sites given ids and names', async () => {
+    const app = await createApp();
+    const report = { period: 'month', date: '2025-09-01', sites: [], totals: { metrics: {} } };
+    mockMatomoClient.compareSites.mockResolvedValue(report);
+
+    const response = await invoke(app, {
+      url: '/tools/compare-sites',
+      headers: { authorization: 'Bearer test-token' },
+      body: {
+        parameters: {
+          siteIds: [1, 2],
+          sites: 'shop-se, shop-de',
+          period: 'month',
+          date: '2025-09-01',
+          includeEcommerce: 'true',
+        },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(report);
+    expect(mockMatomoClient.compareSites).toHaveBeenCalledWith({
+      sites: [1, 2, 'shop-se', 'shop-de'],
+      period: 'month',
+      date: '2025-09-01',
+      includeEcommerce: true,
+    });
+  });
+
+  it('returns visitor locations at the requested granularity', async () => {
+    const app = await createApp();
+    const locations = [{ label: 'Stockholm, Sweden', countryCode: 'SE', region: 'Stockholm', nb_visits: 20 }];
+    mockMatomoClient.getVisitorLocations.mockResolvedValue(locations);
+
+    const response = await invoke(app, {
+      url: '/tools/get-visitor-locations',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { granularity: 'Region', countryCode: 'se', period: 'month', date: '2025-09-01' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(locations);
+    expect(mockMatomoClient.getVisitorLocations).toHaveBeenCalledWith({
+      granularity: 'region',
+      countryCode: 'se',
+      period: 'month',
+      date: '2025-09-01',
+    });
+  });
+
+  it.each([
+    [{ granularity: 'continent' }, 'granularity must be one of: country, region, city'],
+    [{ countryCode: 'Sweden' }, 'countryCode must be a two-letter ISO country code'],
+  ])('rejects invalid location parameters %j', async (parameters, message) => {
+    const app = await createApp();
+
+    const response = await invoke(app, {
+      url: '/tools/get-visitor-locations',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: message });
+    expect(mockMatomoClient.getVisitorLocations).not.toHaveBeenCalled();
+  });
+
+  it('breaks visits down by the requested technology dimension', async () => {
+    const app = await createApp();
+    const rows = [{ label: '1920x1080', nb_visits: 40, shareOfVisits: 40 }];
+    mockMatomoClient.getTechnologyBreakdown.mockResolvedValue(rows);
+
+    const response = await invoke(app, {
+      url: '/tools/get-technology-breakdown',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { dimension: 'resolution', limit: '5' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(rows);
+    expect(mockMatomoClient.getTechnologyBreakdown).toHaveBeenCalledWith({
+      dimension: 'resolution',
+      limit: 5,
+      period: 'day',
+      date: 'today',
+    });
+
+    const invalid = await invoke(app, {
+      url: '/tools/get-technology-breakdown',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { dimension: 'language' } },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({ error: 'dimension must be one of: browser, os, model, resolution' });
+  });
+
+  it('reports product performance for abandoned carts with currency-tagged revenue', async () => {
+    const app = await createApp();
+    const rows = [
+      {
+        label: 'Shoes',
+        revenue: { value: 640, currency: 'EUR' },
+        quantity: 8,
+        abandoned_carts: 6,
+        avg_price: { value: 80, currency: 'EUR' },
+        nb_visits: 90,
+      },
+    ];
+    mockMatomoClient.getProductPerformance.mockResolvedValue(rows);
+
+    const response = await invoke(app, {
+      url: '/tools/get-product-performance',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { dimension: 'Category', abandonedCarts: '1', limit: '5', period: 'month', date: '2025-09-01' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(rows);
+    expect(response.body[0].revenue).toEqual({ value: 640, currency: 'EUR' });
+    expect(mockMatomoClient.getProductPerformance).toHaveBeenCalledWith({
+      dimension: 'category',
+      abandonedCarts: true,
+      limit: 5,
+      period: 'month',
+      date: '2025-09-01',
+    });
+
+    const invalid = await invoke(app, {
+      url: '/tools/get-product-performance',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { dimension: 'browser' } },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({ error: 'dimension must be one of: sku, name, category' });
+  });
+
+  it('defaults the engagement distribution to visits per server hour', async () => {
+    const app = await createApp();
+    const rows = [{ label: '9h', nb_visits: 12, shareOfVisits: 60 }];
+    mockMatomoClient.getEngagementDistribution.mockResolvedValue(rows);
+
+    const response = await invoke(app, {
+      url: '/tools/get-engagement-distribution',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'week', date: '2025-09-01' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(rows);
+    expect(mockMatomoClient.getEngagementDistribution).toHaveBeenCalledWith({
+      distribution: 'hourOfDay',
+      period: 'week',
+      date: '2025-09-01',
+    });
+
+    const invalid = await invoke(app, {
+      url: '/tools/get-engagement-distribution',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { distribution: 'minuteOfHour' } },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({
+      error: 'distribution must be one of: hourOfDay, dayOfWeek, visitDuration, pagesPerVisit',
+    });
+  });
+
+  it('returns the UTM campaign breakdown for the requested window', async () => {
+    const app = await createApp();
+    const breakdown = {
+      source: 'MarketingCampaignsReporting',
+      campaigns: [{ name: 'autumn-sale', nb_visits: 20, keywords: [] }],
+      sourceMedium: [{ source: 'newsletter', medium: 'email', nb_visits: 20 }],
+    };
+    mockMatomoClient.getCampaignBreakdown.mockResolvedValue(breakdown);
+
+    const response = await invoke(app, {
+      url: '/tools/get-campaign-breakdown',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'month', date: '2025-09-01', limit: 5 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(breakdown);
+    expect(mockMatomoClient.getCampaignBreakdown).toHaveBeenCalledWith({ period: 'month', date: '2025-09-01', limit: 5 });
+  });
+
+  it('lists goals and breaks one goal down by the requested dimension', async () => {
+    const app = await createApp();
+    const goal = { id: 2, name: 'Signup', matchAttribute: 'url', caseSensitive: false, allowMultiple: false, useEventValueAsRevenue: false };
+    mockMatomoClient.listGoals.mockResolvedValue([goal]);
+    const breakdown = {
+      goal,
+      breakdown: 'device',
+      totals: { nb_conversions: 10 },
+      rows: [{ label: 'Desktop', segment: 'deviceType==desktop', nb_conversions: 6, shareOfConversions: 60 }],
+    };
+    mockMatomoClient.getGoalBreakdown.mockResolvedValue(breakdown);
+
+    const listed = await invoke(app, {
+      url: '/tools/list-goals',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: {} },
+    });
+    expect(listed.status).toBe(200);
+    expect(listed.body).toEqual([goal]);
+
+    const response = await invoke(app, {
+      url: '/tools/get-goal-breakdown',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { goalId: 'Signup', breakdown: 'device', period: 'week', date: '2025-09-01' } },
+    });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(breakdown);
+    expect(mockMatomoClient.getGoalBreakdown).toHaveBeenCalledWith({
+      goalId: 'Signup',
+      breakdown: 'device',
+      period: 'week',
+      date: '2025-09-01',
+    });
+
+    const invalid = await invoke(app, {
+      url: '/tools/get-goal-breakdown',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { goalId: 2, breakdown: 'country' } },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({ error: 'breakdown must be one of: channel, device, landingPage' });
+  });
+
+  it('surfaces unknown goal names as bad requests', async () => {
+    const app = await createApp();
+    mockMatomoClient.getGoalConversions.mockRejectedValue(new UnknownGoalError('Purchase', ['Signup']));
+
+    const response = await invoke(app, {
+      url: '/tools/get-goal-conversions',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { goalId: 'Purchase' } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Unknown goal "Purchase". Configured goals: Signup.' });
+  });
+
+  it('validates referrer drill-downs and keeps subtables out of comparisons', async () => {
+    const app = await createApp();
+    const rows = [{ label: 'linkedin.com', nb_visits: 30, idSubtable: 4 }];
+    mockMatomoClient.getReferrerDetails.mockResolvedValue(rows);
+
+    const response = await invoke(app, {
+      url: '/tools/get-referrer-details',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { referrerType: 'social', idSubtable: '4' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(rows);
+    expect(mockMatomoClient.getReferrerDetails).toHaveBeenCalledWith({
+      referrerType: 'social',
+      idSubtable: 4,
+      period: 'day',
+      date: 'today',
+    });
+
+    const direct = await invoke(app, {
+      url: '/tools/get-referrer-details',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { referrerType: 'direct' } },
+    });
+    expect(direct.status).toBe(400);
+    expect(direct.body).toEqual({ error: 'referrerType must be one of: search_engines, keywords, websites, social_networks' });
+
+    const compared = await invoke(app, {
+      url: '/tools/get-referrer-details',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { referrerType: 'websites', idSubtable: 4, compare: 'previous_period' } },
+    });
+    expect(compared.status).toBe(400);
+    expect(mockMatomoClient.getReferrerDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports realtime activity without exposing visitor details', async () => {
+    const app = await createApp();
+    const activity = {
+      counters: { lastMinutes: 10, visits: 4, actions: 9, visitors: 4, visitsConverted: 0 },
+      visits: [{ idVisit: 12, pages: [{ type: 'action', url: 'https://example.com/' }] }],
+    };
+    mockMatomoClient.getRealtimeActivity.mockResolvedValue(activity);
+
+    const response = await invoke(app, {
+      url: '/tools/get-realtime-activity',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { lastMinutes: '10' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(activity);
+    expect(mockMatomoClient.getRealtimeActivity).toHaveBeenCalledWith({ lastMinutes: 10, limit: 10 });
+
+    const optIn = await invoke(app, {
+      url: '/tools/get-realtime-activity',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { includeVisitorDetails: true } },
+    });
+    expect(optIn.status).toBe(400);
+    expect(mockMatomoClient.getRealtimeActivity).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires a custom dimension reference and passes names through to the client', async () => {
+    const app = await createApp();
+    const report = {
+      dimension: { id: 3, name: 'Plan tier', scope: 'visit', active: true, segment: 'dimension3' },
+      rows: [{ label: 'pro', nb_visits: 40 }],
+    };
+    mockMatomoClient.getCustomDimension.mockResolvedValue(report);
+
+    const response = await invoke(app, {
+      url: '/tools/get-custom-dimension',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { customDimension: 'plan tier', limit: 5 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(report);
+    expect(mockMatomoClient.getCustomDimension).toHaveBeenCalledWith({
+      customDimension: 'plan tier',
+      limit: 5,
+      period: 'day',
+      date: 'today',
+    });
+
+    const missing = await invoke(app, {
+      url: '/tools/get-custom-dimension',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: {} },
+    });
+    expect(missing.status).toBe(400);
+    expect(mockMatomoClient.getCustomDimension).toHaveBeenCalledTimes(1);
+  });
+
+  it('surfaces unknown custom dimensions as bad requests', async () => {
+    const app = await createApp();
+    mockMatomoClient.getCustomDimension.mockRejectedValue(
+      new UnknownCustomDimensionError('membership', ['Plan tier', 'Logged in status'])
+    );
+
+    const response = await invoke(app, {
+      url: '/tools/get-custom-dimension',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { customDimension: 'membership' } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      error: 'Unknown custom dimension "membership". Configured dimensions: Plan tier, Logged in status.',
+    });
+  });
+
+  it('requires a page url for transitions and forwards it with the window', async () => {
+    const app = await createApp();
+    const transitions = { url: 'https://example.com/pricing', pageviews: 10, exits: 2, exitShare: 20 };
+    mockMatomoClient.getPageTransitions.mockResolvedValue(transitions);
+
+    const response = await invoke(app, {
+      url: '/tools/get-page-transitions',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { url: 'https://example.com/pricing', period: 'week', date: '2025-09-01' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(transitions);
+    expect(mockMatomoClient.getPageTransitions).toHaveBeenCalledWith({
+      url: 'https://example.com/pricing',
+      period: 'week',
+      date: '2025-09-01',
+    });
+
+    const missing = await invoke(app, {
+      url: '/tools/get-page-transitions',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: {} },
+    });
+    expect(missing.status).toBe(400);
+    expect(mockMatomoClient.getPageTransitions).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns user flow paths from a landing page and bounds the step count', async () => {
+    const app = await createApp();
+    const flow = { source: 'UsersFlow', startUrl: 'https://example.com/pricing', paths: [] };
+    mockMatomoClient.getUserFlow.mockResolvedValue(flow);
+
+    const response = await invoke(app, {
+      url: '/tools/get-user-flow',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { startUrl: 'https://example.com/pricing', period: 'month', date: '2025-09-01', limit: '3' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(flow);
+    expect(mockMatomoClient.getUserFlow).toHaveBeenCalledWith({
+      startUrl: 'https://example.com/pricing',
+      period: 'month',
+      date: '2025-09-01',
+      limit: 3,
+      steps: 4,
+    });
+
+    const invalid = await invoke(app, {
+      url: '/tools/get-user-flow',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { steps: 12 } },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({ error: 'steps must be an integer between 2 and 10' });
+
+    const tooManyPaths = await invoke(app, {
+      url: '/tools/get-user-flow',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { limit: 21 } },
+    });
+    expect(tooManyPaths.status).toBe(400);
+    expect(tooManyPaths.body).toEqual({ error: 'limit must be an integer between 1 and 20' });
+    expect(mockMatomoClient.getUserFlow).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the cohort retention matrix for the requested weeks', async () => {
+    const app = await createApp();
+    const retention = { period: 'week', available: false, cohorts: [], averageRetention: [] };
+    mockMatomoClient.getCohortRetention.mockResolvedValue(retention);
+
+    const response = await invoke(app, {
+      url: '/tools/get-cohort-retention',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { weeks: '12', siteId: 2 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(retention);
+    expect(mockMatomoClient.getCohortRetention).toHaveBeenCalledWith({ siteId: 2, weeks: 12 });
+
+    const defaulted = await invoke(app, {
+      url: '/tools/get-cohort-retention',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: {} },
+    });
+    expect(defaulted.status).toBe(200);
+    expect(mockMatomoClient.getCohortRetention).toHaveBeenLastCalledWith({ weeks: 8 });
+  });
+
+  it('forwards goal filters to the conversion lag tools and frequency windows', async () => {
+    const app = await createApp();
+    mockMatomoClient.getVisitsToConversion.mockResolvedValue([{ label: '1 visit', nb_conversions: 3, shareOfConversions: 100 }]);
+    mockMatomoClient.getDaysToConversion.mockResolvedValue([]);
+    mockMatomoClient.getVisitorFrequency.mockResolvedValue({ nb_visits_returning: 10, returning_visits_share: 50 });
+
+    const visits = await invoke(app, {
+      url: '/tools/get-visits-to-conversion',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { goalId: '4', period: 'month', date: '2025-09-01' } },
+    });
+    expect(visits.status).toBe(200);
+    expect(mockMatomoClient.getVisitsToConversion).toHaveBeenCalledWith({ goalId: '4', period: 'month', date: '2025-09-01' });
+
+    const days = await invoke(app, {
+      url: '/tools/get-days-to-conversion',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: {} },
+    });
+    expect(days.status).toBe(200);
+    expect(mockMatomoClient.getDaysToConversion).toHaveBeenCalledWith({ period: 'day', date: 'today' });
+
+    const frequency = await invoke(app, {
+      url: '/tools/get-visitor-frequency',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'week', date: '2025-09-08' } },
+    });
+    expect(frequency.body).toEqual({ nb_visits_returning: 10, returning_visits_share: 50 });
+    expect(mockMatomoClient.getVisitorFrequency).toHaveBeenCalledWith({ period: 'week', date: '2025-09-08' });
+  });
+
+  it('returns exit pages for the requested window', async () => {
+    const app = await createApp();
+    const pages = [{ label: '/checkout/thanks', exit_nb_visits: 40, exit_rate: '80%' }];
+    mockMatomoClient.getExitPages.mockResolvedValue(pages);
+
+    const response = await invoke(app, {
+      url: '/tools/get-exit-pages',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { limit: 3 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(pages);
+    expect(mockMatomoClient.getExitPages).toHaveBeenCalledWith({ limit: 3, period: 'day', date: 'today' });
+  });
+
+  it('routes page title, outlink, and download reports to their client helpers', async () => {
+    const app = await createApp();
+    const downloads = [{ label: 'example.com/files/brochure.pdf', url: 'https://example.com/files/brochure.pdf', nb_hits: 31 }];
+    mockMatomoClient.getPageTitles.mockResolvedValue([]);
+    mockMatomoClient.getOutlinks.mockResolvedValue([]);
+    mockMatomoClient.getDownloads.mockResolvedValue(downloads);
+
+    const response = await invoke(app, {
+      url: '/tools/get-downloads',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'month', date: '2025-09-01', limit: 5 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(downloads);
+    expect(mockMatomoClient.getDownloads).toHaveBeenCalledWith({ period: 'month', date: '2025-09-01', limit: 5 });
+
+    for (const url of ['/tools/get-page-titles', '/tools/get-outlinks']) {
+      const result = await invoke(app, { url, headers: { authorization: 'Bearer test-token' }, body: { parameters: {} } });
+      expect(result.status).toBe(200);
+    }
+    expect(mockMatomoClient.getPageTitles).toHaveBeenCalledWith({ period: 'day', date: 'today' });
+    expect(mockMatomoClient.getOutlinks).toHaveBeenCalledWith({ period: 'day', date: 'today' });
+  });
+
+  it('returns the site search overview including zero-result terms', async () => {
+    const app = await createApp();
+    const overview = {
+      keywords: [{ label: 'pricing', nb_visits: 12, nb_pages_per_search: 1.5, exit_rate: '25%' }],
+      noResultKeywords: [{ label: 'refund policy', nb_visits: 4 }],
+      categories: [],
+      pagesFollowingSearch: [],
+    };
+    mockMatomoClient.getSiteSearch.mockResolvedValue(overview);
+
+    const response = await invoke(app, {
+      url: '/tools/get-site-search',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { period: 'week', date: '2025-09-01', limit: 20 } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(overview);
+    expect(mockMatomoClient.getSiteSearch).toHaveBeenCalledWith({ period: 'week', date: '2025-09-01', limit: 20 });
+  });
+
+  it('lists the report catalogue for a site', async () => {
+    const app = await createApp();
+    const reports = [
+      { method: 'UserCountry.getCountry', module: 'UserCountry', action: 'getCountry', name: 'Country', metrics: [] },
+    ];
+    mockMatomoClient.listAvailableReports.mockResolvedValue(reports);
+
+    const response = await invoke(app, {
+      url: '/tools/list-reports',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { siteId: 3, category: 'Locations' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(reports);
+    expect(mockMatomoClient.listAvailableReports).toHaveBeenCalledWith({ siteId: 3, category: 'Locations' });
+  });
+
+  it('runs allowlisted Matomo reports with method-specific parameters', async () => {
+    const app = await createApp();
+    const result = { method: 'Goals.getItemsSku', siteId: 1, period: 'month', date: '2025-09-01', report: { type: 'table', rows: [] } };
+    mockMatomoClient.runReport.mockResolvedValue(result);
+
+    const response = await invoke(app, {
+      url: '/tools/run-matomo-report',
+      headers: { authorization: 'Bearer test-token' },
+      body: {
+        parameters: { method: 'Goals.getItemsSku', period: 'month', date: '2025-09-01', params: { abandonedCarts: 1 } },
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(result);
+    expect(mockMatomoClient.runReport).toHaveBeenCalledWith({
+      method: 'Goals.getItemsSku',
+      period: 'month',
+      date: '2025-09-01',
+      params: { abandonedCarts: 1 },
+    });
+  });
+
+  it('surfaces refused report methods and nested params as client errors', async () => {
+    const app = await createApp();
+    mockMatomoClient.runReport.mockRejectedValue(
+      new ReportMethodError('UsersManager.getUsers', 'Matomo method "UsersManager.getUsers" is not allowed: only read-only reporting APIs can be called.')
+    );
+
+    const refused = await invoke(app, {
+      url: '/tools/run-matomo-report',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { method: 'UsersManager.getUsers' } },
+    });
+    expect(refused.status).toBe(400);
+    expect(refused.body).toEqual({
+      error: 'Matomo method "UsersManager.getUsers" is not allowed: only read-only reporting APIs can be called.',
+    });
+
+    const nested = await invoke(app, {
+      url: '/tools/run-matomo-report',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { method: 'Goals.get', params: { filter: { nested: true } } } },
+    });
+    expect(nested.status).toBe(400);
+    expect(nested.body).toEqual({ error: 'params.filter must be a string, number, or boolean' });
+    expect(mockMatomoClient.runReport).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the report allowlist from the environment', async () => {
+    process.env.MATOMO_REPORT_ALLOWLIST = 'default, Live.getCounters';
+
+    await createApp();
+
+    expect(createMatomoClientMock).toHaveBeenCalledWith(
+      expect.objectContaining({ reportAllowlist: [...DEFAULT_REPORT_ALLOWLIST, 'Live.getCounters'] })
+    );
+    expect(createMatomoClientMock).not.toHaveBeenCalledWith(expect.objectContaining({ reportMetadataFallback: true }));
+  });
+
+  it('enables the report metadata fallback only when opted in', async () => {
+    process.env.MATOMO_REPORT_METADATA_FALLBACK = '1';
+
+    await createApp();
+
+    expect(createMatomoClientMock).toHaveBeenCalledWith(expect.objectContaining({ reportMetadataFallback: true }));
+  });
+
+  it('requires at least one site to compare', async () => {
+    const app = await createApp();
+
+    const response = await invoke(app, {
+      url: '/tools/compare-sites',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { siteIds: [] } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Provide at least one site via siteIds or sites.' });
+    expect(mockMatomoClient.compareSites).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ period: 'quarter' }, 'period must be one of: day, week, month, year, range'],
+    [{ date: '2025/01/01' }, 'date must be YYYY-MM-DD, YYYY-MM, today, yesterday, lastN, previousN, or a YYYY-MM-DD,YYYY-MM-DD range'],
+    [{ date: '2025-02-30' }, 'Unsupported date "2025-02-30" for period "day".'],
+    [{ period: 'range', date: 'today' }, 'Unsupported date "today" for period "range".'],
+    [{ limit: -5 }, 'limit must be a positive integer'],
+    [{ limit: 'ten' }, 'limit must be an integer'],
+    [{ siteId: 0 }, 'siteId must be a positive integer; pass site names as site'],
+    [{ siteId: 'shop-se' }, 'siteId must be a positive integer; pass site names as site'],
+    [{ sort: 'desc', order: 'asc' }, 'Unknown parameters: sort, order'],
+  ])('rejects invalid parameters %j before calling Matomo', async (parameters, message) => {
+    const app = await createApp();
+
+    const response = await invoke(app, {
+      url: '/tools/get-most-popular-urls',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: message });
+    expect(mockMatomoClient.getMostPopularUrls).not.toHaveBeenCalled();
+  });
+
+  it('normalizes validated parameters before invoking handlers', async () => {
+    const app = await createApp();
+    mockMatomoClient.getHealthStatus.mockResolvedValue({ status: 'healthy' });
+
+    const response = await invoke(app, {
+      url: '/tools/get-health-status',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { siteId: '4', includeDetails: 'false' } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockMatomoClient.getHealthStatus).toHaveBeenCalledWith({ includeDetails: false, siteId: 4 });
+  });
+
   it('returns historical key numbers with defaults', async () => {
     const app = await createApp();
     const historicalPayload = [
@@ -660,6 +1549,30 @@ describe('tool endpoints', () => {
     });
   });
 
+  it('lists funnels and surfaces unknown funnel names as bad requests', async () => {
+    const app = await createApp();
+    const funnels = [{ id: '4', label: 'Checkout flow', goalId: '3', steps: [{ id: '1', label: 'Cart' }] }];
+    mockMatomoClient.listFunnels.mockResolvedValue(funnels);
+    mockMatomoClient.getFunnelSummary.mockRejectedValue(new UnknownFunnelError('signup', ['Checkout flow']));
+
+    const listed = await invoke(app, {
+      url: '/tools/list-funnels',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { siteId: 2 } },
+    });
+    expect(listed.status).toBe(200);
+    expect(listed.body).toEqual(funnels);
+    expect(mockMatomoClient.listFunnels).toHaveBeenCalledWith({ siteId: 2 });
+
+    const response = await invoke(app, {
+      url: '/tools/get-funnel-analytics',
+      headers: { authorization: 'Bearer test-token' },
+      body: { parameters: { funnelId: 'signup' } },
+    });
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Unknown funnel "signup". Activated funnels: Checkout flow.' });
+  });
+
   it('returns diagnostics result from Matomo client', async () => {
     const app = await createApp();
     const diagnostics = {
@@ -974,6 +1887,62 @@ describe('tool endpoints', () => {
   });
 });
 
+describe('openapi document', () => {
+  it('is served without authentication', async () => {
+    const app = await createApp();
+
+    const response = await invoke(app, { url: '/openapi.json', method: 'GET' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ openapi: '3.1.0', paths: { '/tools/get-key-numbers': { post: { operationId: 'GetKeyNumbers' } } } });
+  });
+});
+
+describe('mcp transport', () => {
+  it('requires the bearer token', async () => {
+    const app = await createApp();
+    const response = await invoke(app, { url: '/mcp', body: { jsonrpc: '2.0', id: 1, method: 'tools/list' } });
+
+    expect(response.status).toBe(401);
+    expect(mockMatomoClient.getKeyNumbers).not.toHaveBeenCalled();
+  });
+
+  it('rejects session-oriented GET requests', async () => {
+    const app = await createApp();
+    const response = await invoke(app, { url: '/mcp', method: 'GET', headers: { authorization: 'Bearer test-token' } });
+
+    expect(response.status).toBe(405);
+    expect(response.headers.allow).toBe('POST');
+  });
+
+  it('serves tool calls over streamable HTTP', async () => {
+    const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+    const { StreamableHTTPClientTransport } = await import('@modelcontextprotocol/sdk/client/streamableHttp.js');
+    mockMatomoClient.getKeyNumbers.mockResolvedValue({ nb_visits: 12 });
+
+    const app = await createApp();
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    try {
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`), {
+          requestInit: { headers: { authorization: 'Bearer test-token' } },
+        })
+      );
+      const result = await client.callTool({ name: 'GetKeyNumbers', arguments: { date: 'yesterday' } });
+
+      expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ nb_visits: 12 }, null, 2) }]);
+      expect(mockMatomoClient.getKeyNumbers).toHaveBeenCalledWith({ period: 'day', date: 'yesterday' });
+    } finally {
+      await client.close();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
 describe('configuration guards', () => {
   it('throws when MATOMO_BASE_URL is missing', async () => {
     delete process.env.MATOMO_BASE_URL;
@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+import { MatomoClient } from '@opalmind/sdk';
+import { describe, expect, it, vi } from 'vitest';
+
+import { executeTool, syncToolReference, toolDefinitions } from '../src/tools.js';
+
+const readmePath = fileURLToPath(new URL('../../../README.md', import.meta.url));
+
+function findTool(name: string) {
+  const definition = toolDefinitions.find(candidate => candidate.name === name);
+  if (!definition) throw new Error(`Unknown tool ${name}`);
+  return definition;
+}
+
+describe('tool definitions', () => {
+  it('use unique names and endpoints backed by MatomoClient methods', () => {
+    expect(new Set(toolDefinitions.map(definition => definition.name)).size).toBe(toolDefinitions.length);
+    expect(new Set(toolDefinitions.map(definition => definition.endpoint)).size).toBe(toolDefinitions.length);
+    for (const definition of toolDefinitions) {
+      expect(typeof MatomoClient.prototype[definition.method]).toBe('function');
+    }
+  });
+
+  it('declare explicit period and date defaults for every dated report', () => {
+    for (const definition of toolDefinitions) {
+      if (!definition.parameters.some(parameter => parameter.name === 'date')) continue;
+      expect(definition.defaults, definition.name).toMatchObject({ period: 'day' });
+      expect((definition.defaults as { date?: string }).date, definition.name).toBeDefined();
+    }
+  });
+
+  it('keeps the README tool table in sync (npm run docs:tools rewrites it)', () => {
+    const readme = readFileSync(readmePath, 'utf8');
+    expect(readme).toBe(syncToolReference(readme));
+  });
+});
+
+describe('executeTool', () => {
+  it('applies defaults, resolves sites, and hands the validated request to the SDK', async () => {
+    const client = {
+      resolveSite: vi.fn().mockResolvedValue({ name: 'shop-se', siteId: 7 }),
+      getMostPopularUrls: vi.fn().mockResolvedValue([]),
+    };
+    const definition = findTool('GetMostPopularUrls');
+    const parameters = definition.schema.parse({ site: 'shop-se', limit: '5', compare: 'PREVIOUS_PERIOD' });
+
+    await executeTool(definition, client as unknown as MatomoClient, parameters);
+
+    expect(client.getMostPopularUrls).toHaveBeenCalledWith({
+      siteId: 7,
+      period: 'day',
+      date: 'today',
+      limit: 5,
+      compare: 'previous_period',
+    });
+  });
+
+  it('reshapes parameters through prepare hooks', async () => {
+    const client = { getFunnelSummary: vi.fn().mockResolvedValue({}) };
+    const definition = findTool('GetFunnelAnalytics');
+
+    await executeTool(definition, client as unknown as MatomoClient, definition.schema.parse({ funnelId: 12, period: 'week' }));
+
+    expect(client.getFunnelSummary).toHaveBeenCalledWith({ funnelId: '12', period: 'week', date: 'today' });
+  });
+});
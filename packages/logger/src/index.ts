@@ -81,8 +81,7 @@ function sanitizeContext(context: LogContext): LogContext {
     : {};
 }
 
-const defaultTransport: LogTransport = record => {
-  const consoleMethod = LOG_LEVEL_TO_CONSOLE_METHOD[record.level];
+function serializeRecord(record: LogRecord): string {
   const payload = {
     time: record.timestamp,
     level: record.level,
@@ -90,7 +89,12 @@ const defaultTransport: LogTransport = record => {
     ...record.context,
   } satisfies Record<string, unknown>;
 
-  const serialized = JSON.stringify(payload);
+  return JSON.stringify(payload);
+}
+
+const consoleTransport: LogTransport = record => {
+  const consoleMethod = LOG_LEVEL_TO_CONSOLE_METHOD[record.level];
+  const serialized = serializeRecord(record);
   const printer = console[consoleMethod] as ((...args: unknown[]) => void) | undefined;
   if (typeof printer === 'function') {
     printer(serialized);
@@ -99,6 +103,20 @@ const defaultTransport: LogTransport = record => {
   }
 };
 
+/** Writes every record to stderr, keeping stdout free for protocols such as MCP over stdio. */
+export const stderrTransport: LogTransport = record => {
+  process.stderr.write(`${serializeRecord(record)}\n`);
+};
+
+let activeTransport: LogTransport = consoleTransport;
+
+const defaultTransport: LogTransport = record => activeTransport(record);
+
+/** Replaces the transport used by loggers created without an explicit one, including `logger`. */
+export function setDefaultLogTransport(transport: LogTransport): void {
+  activeTransport = transport;
+}
+
 function emit(
   transport: LogTransport,
   level: LogLevel,
@@ -0,0 +1,64 @@
+import type { CohortRetentionRow } from './schemas.js';
+
+// Columns the Cohorts plugin uses for the number of visitors in a cohort.
+const COHORT_SIZE_COLUMNS = ['nb_uniq_visitors', 'Cohorts_nb_uniq_visitors'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function readNumber(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number.parseFloat(value.replace('%', '')) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+}
+
+function collectCohortRows(payload: unknown): Array<{ cohort: string; row: Record<string, unknown> }> {
+  if (Array.isArray(payload)) {
+    return payload
+      .filter(isRecord)
+      .filter(row => typeof row.label === 'string')
+      .map(row => ({ cohort: row.label as string, row }));
+  }
+  if (!isRecord(payload)) return [];
+
+  // Multi-period requests come back keyed by cohort period, one row each.
+  return Object.entries(payload).flatMap(([cohort, value]) => {
+    const row = Array.isArray(value) ? value[0] : value;
+    return isRecord(row) ? [{ cohort, row }] : [];
+  });
+}
+
+/**
+ * Reads a Cohorts plugin report into a retention matrix. Columns named `<metric>_<n>` hold the
+ * metric `n` periods after the cohort's first visit; missing offsets become null.
+ */
+export function buildCohortRetention(payload: unknown, metric: string): CohortRetentionRow[] {
+  const offsetPattern = new RegExp(`^${metric}_(\\d+)$`, 'i');
+
+  return collectCohortRows(payload).map(({ cohort, row }) => {
+    const retention: Array<number | null> = [];
+    for (const [key, value] of Object.entries(row)) {
+      const offset = key.match(offsetPattern)?.[1];
+      if (offset !== undefined) retention[Number(offset)] = readNumber(value);
+    }
+
+    const result: CohortRetentionRow = { cohort, retention: Array.from(retention, value => value ?? null) };
+    const sizeColumn = COHORT_SIZE_COLUMNS.find(column => readNumber(row[column]) !== null);
+    if (sizeColumn) result.visitors = readNumber(row[sizeColumn]) as number;
+    return result;
+  });
+}
+
+/** Mean retention per offset across the cohorts that have a value for it. */
+export function averageCohortRetention(cohorts: readonly CohortRetentionRow[]): Array<number | null> {
+  const length = Math.max(0, ...cohorts.map(cohort => cohort.retention.length));
+  return Array.from({ length }, (_, offset) => {
+    const values = cohorts.map(cohort => cohort.retention[offset]).filter((value): value is number => typeof value === 'number');
+    return values.length > 0 ? roundTo(values.reduce((sum, value) => sum + value, 0) / values.length, 2) : null;
+  });
+}
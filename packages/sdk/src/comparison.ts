@@ -0,0 +1,230 @@
+import {
+  precedingPeriodWindow,
+  resolvePeriodWindow,
+  shiftPeriodWindow,
+  type PeriodOptions,
+  type PeriodWindow,
+} from './periods.js';
+
+export type ComparisonMode = 'previous_period' | 'previous_year';
+
+export const comparisonModes: readonly ComparisonMode[] = ['previous_period', 'previous_year'];
+
+export function isComparisonMode(value: unknown): value is ComparisonMode {
+  return typeof value === 'string' && (comparisonModes as readonly string[]).includes(value);
+}
+
+export interface ComparisonInput {
+  compare: ComparisonMode;
+}
+
+export interface ComparisonWindow {
+  period: string;
+  date: string;
+}
+
+export type DeltaDirection = 'up' | 'down' | 'flat';
+
+export interface MetricDelta {
+  current: number | null;
+  previous: number | null;
+  delta: number | null;
+  deltaPct: number | null;
+  direction: DeltaDirection | null;
+  currency?: string | null;
+  unit?: 'seconds' | 'percent';
+}
+
+export interface ComparedRecordReport {
+  comparison: ComparisonMode;
+  current: ComparisonWindow;
+  previous: ComparisonWindow;
+  metrics: Record<string, MetricDelta>;
+}
+
+export interface ComparedRow extends Record<string, unknown> {
+  label: string;
+  metrics: Record<string, MetricDelta>;
+}
+
+export interface ComparedListReport {
+  comparison: ComparisonMode;
+  current: ComparisonWindow;
+  previous: ComparisonWindow;
+  rows: ComparedRow[];
+}
+
+export interface MetricValue {
+  value: number;
+  currency?: string | null;
+  unit?: 'seconds' | 'percent';
+}
+
+/**
+ * Derives the Matomo `period`/`date` pair that precedes the requested window.
+ * `previous_period` steps back by the window's own length; `previous_year`
+ * shifts the same window back twelve months.
+ */
+export function resolveComparisonWindow(
+  window: ComparisonWindow,
+  mode: ComparisonMode,
+  options: PeriodOptions = {}
+): ComparisonWindow {
+  return resolveComparisonWindows(window, mode, options).previous;
+}
+
+/**
+ * Series windows (`lastN`, `previousN`, or `start,end` on a non-range period) make Matomo answer
+ * with one entry per unit, which cannot be compared as one record or row list, so both sides are
+ * requested as a single `range` over the same dates.
+ */
+function toComparisonWindow(window: PeriodWindow): ComparisonWindow {
+  return window.series ? { period: 'range', date: `${window.start},${window.end}` } : { period: window.period, date: window.date };
+}
+
+/** Resolves both sides of a comparison to concrete, equally sized windows. */
+export function resolveComparisonWindows(
+  window: ComparisonWindow,
+  mode: ComparisonMode,
+  options: PeriodOptions = {}
+): { current: ComparisonWindow; previous: ComparisonWindow } {
+  const current = resolvePeriodWindow(window, options);
+  const previous = mode === 'previous_year' ? shiftPeriodWindow(current, -1, 'year') : precedingPeriodWindow(current);
+
+  return { current: toComparisonWindow(current), previous: toComparisonWindow(previous) };
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Reads a comparable number from a report field: plain numbers, `"42%"` rates,
+ * `{ value, currency }` money and `{ value, unit: 'seconds' }` durations. Identifier fields are skipped.
+ */
+export function extractMetricValue(key: string, value: unknown): MetricValue | undefined {
+  if (/^id/i.test(key)) {
+    return undefined;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { value } : undefined;
+  }
+
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*%$/);
+    return match ? { value: Number.parseFloat(match[1]!), unit: 'percent' } : undefined;
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    if (typeof record.value !== 'number' || !Number.isFinite(record.value)) {
+      return undefined;
+    }
+    if ('currency' in record) {
+      return { value: record.value, currency: typeof record.currency === 'string' ? record.currency : null };
+    }
+    if (record.unit === 'seconds') {
+      return { value: record.value, unit: 'seconds' };
+    }
+  }
+
+  return undefined;
+}
+
+export function computeMetricDelta(current: number | null, previous: number | null): MetricDelta {
+  if (current === null || previous === null) {
+    return { current, previous, delta: null, deltaPct: null, direction: null };
+  }
+
+  const delta = roundTo(current - previous, 2);
+  const deltaPct = previous === 0 ? null : roundTo(((current - previous) / Math.abs(previous)) * 100, 1);
+  const direction: DeltaDirection = delta > 0 ? 'up' : delta < 0 ? 'down' : 'flat';
+
+  return { current, previous, delta, deltaPct, direction };
+}
+
+function compareMetricFields(
+  current: Record<string, unknown>,
+  previous: Record<string, unknown> | undefined
+): Record<string, MetricDelta> {
+  const metrics: Record<string, MetricDelta> = {};
+
+  for (const [key, value] of Object.entries(current)) {
+    const currentMetric = extractMetricValue(key, value);
+    if (!currentMetric) continue;
+
+    const previousMetric = previous ? extractMetricValue(key, previous[key]) : undefined;
+    const delta = computeMetricDelta(currentMetric.value, previousMetric?.value ?? null);
+    if (currentMetric.currency !== undefined) {
+      delta.currency = currentMetric.currency;
+    }
+    if (currentMetric.unit !== undefined) {
+      delta.unit = currentMetric.unit;
+    }
+    metrics[key] = delta;
+  }
+
+  return metrics;
+}
+
+export function compareRecords(
+  mode: ComparisonMode,
+  windows: { current: ComparisonWindow; previous: ComparisonWindow },
+  current: object,
+  previous: object
+): ComparedRecordReport {
+  return {
+    comparison: mode,
+    current: windows.current,
+    previous: windows.previous,
+    metrics: compareMetricFields(current as Record<string, unknown>, previous as Record<string, unknown>),
+  };
+}
+
+/**
+ * Rows are matched on `keyField` (the Matomo label by default). Rows missing from
+ * the previous window keep `previous: null` rather than assuming zero, because
+ * list reports are truncated by `filter_limit`.
+ */
+export function compareRows(
+  mode: ComparisonMode,
+  windows: { current: ComparisonWindow; previous: ComparisonWindow },
+  current: ReadonlyArray<object>,
+  previous: ReadonlyArray<object>,
+  keyField = 'label'
+): ComparedListReport {
+  const previousByKey = new Map<string, Record<string, unknown>>();
+  for (const row of previous as ReadonlyArray<Record<string, unknown>>) {
+    const key = row[keyField];
+    if (typeof key === 'string' || typeof key === 'number') {
+      previousByKey.set(String(key), row);
+    }
+  }
+
+  const rows = (current as ReadonlyArray<Record<string, unknown>>).map(row => {
+    const key = row[keyField];
+    const match = typeof key === 'string' || typeof key === 'number' ? previousByKey.get(String(key)) : undefined;
+    const metrics = compareMetricFields(row, match);
+
+    const attributes: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(row)) {
+      if (metrics[field] !== undefined || value === null || typeof value === 'object') continue;
+      attributes[field] = value;
+    }
+
+    return {
+      ...attributes,
+      label: typeof row.label === 'string' ? row.label : String(key ?? ''),
+      metrics,
+    } as ComparedRow;
+  });
+
+  return {
+    comparison: mode,
+    current: windows.current,
+    previous: windows.previous,
+    rows,
+  };
+}
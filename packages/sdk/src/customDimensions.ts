@@ -0,0 +1,59 @@
+import type { CustomDimension, RawCustomDimensionConfig } from './schemas.js';
+
+export class UnknownCustomDimensionError extends Error {
+  readonly status = 400;
+  readonly reference: string;
+
+  constructor(reference: string, knownDimensions: string[]) {
+    const hint =
+      knownDimensions.length > 0
+        ? ` Configured dimensions: ${knownDimensions.join(', ')}.`
+        : ' No custom dimensions are configured for this site.';
+    super(`Unknown custom dimension "${reference}".${hint}`);
+    this.name = 'UnknownCustomDimensionError';
+    this.reference = reference;
+  }
+}
+
+// Matomo segments and API docs refer to dimensions as `dimension3`; callers copy that form.
+const DIMENSION_REFERENCE = /^dimension\s*(\d+)$/i;
+
+function normalizeDimensionName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function isActive(value: RawCustomDimensionConfig['active']): boolean {
+  if (typeof value === 'string') return value === '1' || value.toLowerCase() === 'true';
+  return Boolean(value);
+}
+
+export function adaptCustomDimensions(configs: readonly RawCustomDimensionConfig[]): CustomDimension[] {
+  return configs.map(config => ({
+    id: config.idcustomdimension,
+    name: config.name,
+    scope: config.scope,
+    index: config.index,
+    active: isActive(config.active),
+    segment: `dimension${config.idcustomdimension}`,
+  }));
+}
+
+/**
+ * Finds a configured dimension by id, `dimensionN` reference, or name. Names match case- and
+ * punctuation-insensitively, so "logged-in status" finds "Logged in status".
+ */
+export function resolveCustomDimension(reference: number | string, dimensions: readonly CustomDimension[]): CustomDimension {
+  const raw = String(reference).trim();
+  const idMatch = /^\d+$/.test(raw) ? raw : DIMENSION_REFERENCE.exec(raw)?.[1];
+  if (idMatch !== undefined) {
+    const id = Number(idMatch);
+    const byId = dimensions.find(dimension => dimension.id === id);
+    if (byId) return byId;
+  }
+
+  const key = normalizeDimensionName(raw);
+  const byName = key ? dimensions.find(dimension => normalizeDimensionName(dimension.name) === key) : undefined;
+  if (byName) return byName;
+
+  throw new UnknownCustomDimensionError(raw, dimensions.map(dimension => dimension.name));
+}
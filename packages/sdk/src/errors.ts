@@ -42,6 +42,11 @@ const keywordGuidance: Array<{ pattern: RegExp; guidance: string }> = [
       /id\s*site|siteid|site id|no website found|unknown website|website id|idsite|site does not exist|no view access to idsite/,
     guidance: 'Check the siteId value—ensure the site exists and the token can access it.',
   },
+  {
+    // Checked before the date/period patterns: Matomo's message mentions "the selected period".
+    pattern: /no data for this url|nodataforurl/,
+    guidance: 'Check the page URL matches a tracked URL exactly (protocol, path, query) and had pageviews in that window.',
+  },
   {
     pattern: /\bdate\b|date parameter|invalid date|date format/,
     guidance: 'Ensure the date parameter matches Matomo formats (YYYY-MM-DD or a date range) for the chosen period.',
@@ -102,6 +107,16 @@ function resolveGuidance(key: GuidanceKey, message?: string, code?: MatomoErrorC
   return defaultGuidance[key];
 }
 
+/** Caller input the SDK rejects before contacting Matomo; surfaces as a 400 like `PeriodError`. */
+export class InvalidInputError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidInputError';
+  }
+}
+
 export class MatomoApiError extends Error {
   readonly status?: number;
   readonly code?: MatomoErrorCode;
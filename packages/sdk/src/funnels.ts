@@ -0,0 +1,42 @@
+import type { FunnelDefinition } from './reports.js';
+
+export class UnknownFunnelError extends Error {
+  readonly status = 400;
+  readonly reference: string;
+
+  constructor(reference: string, knownFunnels: string[]) {
+    const hint =
+      knownFunnels.length > 0
+        ? ` Activated funnels: ${knownFunnels.join(', ')}.`
+        : ' No funnels are activated for this site.';
+    super(`Unknown funnel "${reference}".${hint}`);
+    this.name = 'UnknownFunnelError';
+    this.reference = reference;
+  }
+}
+
+function normalizeFunnelName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/** Matomo funnel ids are numeric; anything else is a name only the catalogue can resolve. */
+export function isFunnelName(reference: number | string): boolean {
+  const raw = String(reference).trim();
+  return raw.length > 0 && !/^\d+$/.test(raw);
+}
+
+/**
+ * Finds an activated funnel by id or label. Labels match case- and punctuation-insensitively, so
+ * "checkout-flow" finds "Checkout flow".
+ */
+export function resolveFunnel(reference: number | string, funnels: readonly FunnelDefinition[]): FunnelDefinition {
+  const raw = String(reference).trim();
+  const byId = funnels.find(funnel => funnel.id === raw);
+  if (byId) return byId;
+
+  const key = normalizeFunnelName(raw);
+  const byName = key ? funnels.find(funnel => normalizeFunnelName(funnel.label) === key) : undefined;
+  if (byName) return byName;
+
+  throw new UnknownFunnelError(raw, funnels.map(funnel => funnel.label));
+}
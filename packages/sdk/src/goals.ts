@@ -0,0 +1,99 @@
+import type { Goal, GoalBreakdown, RawGoalConfig } from './schemas.js';
+
+export class UnknownGoalError extends Error {
+  readonly status = 400;
+  readonly reference: string;
+
+  constructor(reference: string, knownGoals: string[]) {
+    const hint =
+      knownGoals.length > 0 ? ` Configured goals: ${knownGoals.join(', ')}.` : ' No goals are configured for this site.';
+    super(`Unknown goal "${reference}".${hint}`);
+    this.name = 'UnknownGoalError';
+    this.reference = reference;
+  }
+}
+
+export type GoalBreakdownDimension = GoalBreakdown['breakdown'];
+
+export interface GoalBreakdownSlice {
+  label: string;
+  segment: string;
+}
+
+/**
+ * Fixed segments for the channel and device breakdowns. Landing pages have no fixed list; the
+ * client derives their segments from the period's top entry pages.
+ */
+export const GOAL_BREAKDOWN_SEGMENTS: Readonly<Record<Exclude<GoalBreakdownDimension, 'landingPage'>, readonly GoalBreakdownSlice[]>> = {
+  channel: [
+    { label: 'Direct Entry', segment: 'referrerType==direct' },
+    { label: 'Search Engines', segment: 'referrerType==search' },
+    { label: 'Websites', segment: 'referrerType==website' },
+    { label: 'Campaigns', segment: 'referrerType==campaign' },
+    { label: 'Social Networks', segment: 'referrerType==social' },
+  ],
+  device: [
+    { label: 'Desktop', segment: 'deviceType==desktop' },
+    { label: 'Smartphone', segment: 'deviceType==smartphone' },
+    { label: 'Tablet', segment: 'deviceType==tablet' },
+    { label: 'Phablet', segment: 'deviceType==phablet' },
+  ],
+};
+
+export const goalBreakdownDimensions: readonly GoalBreakdownDimension[] = ['channel', 'device', 'landingPage'];
+
+// Matomo's own goal ids that are not part of the configured catalogue.
+const SPECIAL_GOAL_IDS = new Set(['ecommerceorder', 'abandonedcart']);
+
+function normalizeGoalName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function isEnabled(value: RawGoalConfig['allow_multiple']): boolean {
+  if (typeof value === 'string') return value === '1' || value.toLowerCase() === 'true';
+  return Boolean(value);
+}
+
+/** True for goal references that only the catalogue can turn into an `idGoal`. */
+export function isGoalName(reference: number | string): boolean {
+  const raw = String(reference).trim();
+  return raw.length > 0 && !/^\d+$/.test(raw) && !SPECIAL_GOAL_IDS.has(raw.toLowerCase());
+}
+
+export function adaptGoals(configs: readonly RawGoalConfig[], currency: string | undefined): Goal[] {
+  return configs.map(config => {
+    const goal: Goal = {
+      id: config.idgoal,
+      name: config.name,
+      matchAttribute: config.match_attribute,
+      caseSensitive: isEnabled(config.case_sensitive),
+      allowMultiple: isEnabled(config.allow_multiple),
+      useEventValueAsRevenue: isEnabled(config.event_value_as_revenue),
+    };
+    if (config.description) goal.description = config.description;
+    if (config.pattern) goal.pattern = config.pattern;
+    if (config.pattern_type) goal.patternType = config.pattern_type;
+    if (config.revenue !== undefined && config.revenue > 0) {
+      goal.revenue = { value: config.revenue, currency: currency ?? null };
+    }
+    return goal;
+  });
+}
+
+/**
+ * Finds a configured goal by id or name. Names match case- and punctuation-insensitively, so
+ * "newsletter sign-up" finds "Newsletter Signup".
+ */
+export function resolveGoal(reference: number | string, goals: readonly Goal[]): Goal {
+  const raw = String(reference).trim();
+  if (/^\d+$/.test(raw)) {
+    const byId = goals.find(goal => goal.id === Number(raw));
+    if (byId) return byId;
+  }
+
+  const key = normalizeGoalName(raw);
+  const byName = key ? goals.find(goal => normalizeGoalName(goal.name) === key) : undefined;
+  if (byName) return byName;
+
+  throw new UnknownGoalError(raw, goals.map(goal => goal.name));
+}
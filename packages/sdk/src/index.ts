@@ -10,27 +10,119 @@ import {
 } from './httpClient.js';
 import {
   ReportsService,
+  technologyDimensions,
+  engagementDistributions,
+  productDimensions,
+  referrerDetailTypes,
+  resolveReferrerDetailType,
   type CacheStatsSnapshot,
   type ReportsServiceOptions,
   type CacheEvent,
   type RawEcommerceRevenueSeriesPoint,
   type EcommerceRevenueTotalsInput,
   type GoalConversionsInput,
+  type GoalConversion as ReportsGoalConversion,
+  type FunnelDefinition,
   type FunnelSummary,
   type FunnelStepSummary,
   type RawEcommerceSummary,
+  type TechnologyDimension,
+  type EngagementDistribution,
+  type ProductDimension,
+  type ActionsReportInput,
+  COHORT_RETENTION_METRIC,
 } from './reports.js';
 import { keyNumbersSchema, keyNumbersSeriesSchema } from './schemas.js';
 import type {
+  CampaignBreakdown,
+  CampaignBreakdownRow,
+  CohortRetention,
+  ConversionLagRow,
+  CustomDimension,
+  CustomDimensionReport,
+  CustomDimensionRow,
   DeviceTypeSummary,
+  Download,
+  EngagementDistributionRow,
   EntryPage,
   EventCategory,
   EventSummary,
+  ExitPage,
+  Goal,
+  GoalBreakdown,
+  GoalBreakdownRow,
   KeyNumbers,
+  LiveCounters,
   MostPopularUrl,
+  Outlink,
+  PageFollowingSearch,
+  PageTitle,
+  PageTransition,
+  PageTransitions,
+  ProductPerformanceRow,
+  RawCampaign,
+  RawCity,
+  RawConversionLagRow,
+  RawCountry,
+  RawEngagementRow,
+  RawLiveVisit,
+  RawPageTransitions,
+  RawProductRow,
+  RawReferrerDetailRow,
+  RawRegion,
+  RawTechnologyRow,
+  RawTransition,
+  RealtimeActivity,
+  RecentVisit,
+  ReferrerDetailRow,
+  SiteSearchOverview,
+  SiteSearchRow,
+  TechnologyBreakdownRow,
   TopReferrer,
+  UserFlowPath,
+  UserFlowReport,
+  UserFlowStep,
+  VisitorFrequency,
+  VisitorLocation,
 } from './schemas.js';
 import {
+  compareRecords,
+  compareRows,
+  resolveComparisonWindows,
+  type ComparedListReport,
+  type ComparedRecordReport,
+  type ComparisonInput,
+  type ComparisonMode,
+  type ComparisonWindow,
+} from './comparison.js';
+import { averageCohortRetention, buildCohortRetention } from './cohorts.js';
+import { adaptCustomDimensions, resolveCustomDimension } from './customDimensions.js';
+import { isFunnelName, resolveFunnel } from './funnels.js';
+import {
+  GOAL_BREAKDOWN_SEGMENTS,
+  adaptGoals,
+  goalBreakdownDimensions,
+  isGoalName,
+  resolveGoal,
+  type GoalBreakdownDimension,
+  type GoalBreakdownSlice,
+} from './goals.js';
+import { buildSiteComparison, type SiteComparisonEntry, type SiteComparisonReport } from './siteComparison.js';
+import { SiteRegistry, UnknownSiteError, normalizeSiteKey, type SiteDefinition } from './sites.js';
+import { buildUserFlowPaths, indexUsersFlow, normalizePageKey, type FlowLookup, type FlowStart } from './userFlow.js';
+import {
+  DEFAULT_REPORT_ALLOWLIST,
+  ReportMethodError,
+  assertReportMethodShape,
+  assertReportParams,
+  matchesMethodPattern,
+  resolveProxiedReportMethod,
+  type NormalizedDataTable,
+} from './passthrough.js';
+import { buildReportCatalogue, findMissingReportPlugins, type AvailableReport } from './reportMetadata.js';
+import { isRelativeDate, resolvePeriodLabel, resolvePeriodWindow, type PeriodOptions, type PeriodWindow } from './periods.js';
+import {
+  InvalidInputError,
   MatomoApiError,
   MatomoClientError,
   MatomoNetworkError,
@@ -49,6 +141,10 @@ export interface MatomoClientConfig {
   baseUrl: string;
   tokenAuth: string;
   defaultSiteId?: number;
+  /** Operator-supplied site map used to resolve site names and aliases to ids. */
+  sites?: SiteDefinition[];
+  /** Fill in sites missing from `sites` via `SitesManager.getSitesWithAtLeastViewAccess`. */
+  hydrateSites?: boolean;
   http?: {
     timeoutMs?: number;
     retry?: MatomoRetryOptions;
@@ -57,6 +153,13 @@ export interface MatomoClientConfig {
   cache?: CacheConfig;
   rateLimit?: MatomoRateLimitOptions;
   cacheHealth?: Partial<CacheHealthThresholds>;
+  /**
+   * `Module.action` patterns callable through `runReport`; defaults to `DEFAULT_REPORT_ALLOWLIST`.
+   * Write APIs are always refused.
+   */
+  reportAllowlist?: string[];
+  /** Also allow methods that `API.getReportMetadata` lists for the site, beyond `reportAllowlist`. Off by default. */
+  reportMetadataFallback?: boolean;
 }
 
 export interface CacheHealthThresholds {
@@ -72,6 +175,29 @@ export interface GetKeyNumbersInput {
   segment?: string;
 }
 
+export type GetMostPopularUrlsInput = Omit<Parameters<ReportsService['getMostPopularUrls']>[0], 'siteId'> & {
+  siteId?: number;
+};
+
+export type GetTopReferrersInput = Omit<Parameters<ReportsService['getTopReferrers']>[0], 'siteId'> & {
+  siteId?: number;
+};
+
+export interface GetReferrerReportInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+  /** `idSubtable` of a row from the same period; returns that row's keywords, engines, or URLs. */
+  idSubtable?: number;
+}
+
+export interface GetReferrerDetailsInput extends GetReferrerReportInput {
+  /** `search_engines`, `keywords`, `websites`, `social_networks`, or a channel alias such as `search` or `social`. */
+  referrerType: string;
+}
+
 export interface GetEventsInput {
   siteId?: number;
   period?: string;
@@ -91,6 +217,63 @@ export interface GetEntryPagesInput {
   limit?: number;
 }
 
+export interface GetExitPagesInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+}
+
+export interface GetPageTransitionsInput {
+  siteId?: number;
+  /** Full page URL as tracked by Matomo, e.g. `https://example.com/pricing`. */
+  url: string;
+  period?: string;
+  date?: string;
+  segment?: string;
+  /** Rows per transition list before Matomo groups the remainder into "Others". */
+  limit?: number;
+}
+
+export interface GetUserFlowInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  /** Only paths landing on this page, e.g. `https://example.com/pricing`. */
+  startUrl?: string;
+  /** Pages per path, between 2 and `MAX_USER_FLOW_STEPS`. Defaults to 4. */
+  steps?: number;
+  /** Number of paths returned, at most `MAX_USER_FLOW_PATHS`. Defaults to 5. */
+  limit?: number;
+}
+
+export interface GetVisitorFrequencyInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+}
+
+export interface GetConversionLagInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  /** Goal id or `ecommerceOrder`; all goals when omitted. */
+  goalId?: string | number;
+}
+
+export interface GetCohortRetentionInput {
+  siteId?: number;
+  /** Number of most recent weekly cohorts, ignored when `date` is set. Defaults to 8. */
+  weeks?: number;
+  /** Explicit week series selecting the cohorts, e.g. `2025-07-07,2025-09-28`. */
+  date?: string;
+  segment?: string;
+}
+
 export interface GetCampaignsInput {
   siteId?: number;
   period?: string;
@@ -110,6 +293,25 @@ export interface GetEcommerceRevenueTotalsInput extends GetEcommerceOverviewInpu
   includeSeries?: boolean;
 }
 
+export interface GetProductsInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+  /** Report items left in abandoned carts instead of purchased items. */
+  abandonedCarts?: boolean;
+}
+
+export function isProductDimension(value: unknown): value is ProductDimension {
+  return typeof value === 'string' && (productDimensions as readonly string[]).includes(value);
+}
+
+export interface GetProductPerformanceInput extends GetProductsInput {
+  /** `sku` (default), `name`, or `category`. */
+  dimension?: ProductDimension;
+}
+
 export interface GetEventCategoriesInput {
   siteId?: number;
   period?: string;
@@ -126,6 +328,68 @@ export interface GetDeviceTypesInput {
   limit?: number;
 }
 
+export type LocationGranularity = 'country' | 'region' | 'city';
+
+export const locationGranularities: readonly LocationGranularity[] = ['country', 'region', 'city'];
+
+export function isLocationGranularity(value: unknown): value is LocationGranularity {
+  return typeof value === 'string' && (locationGranularities as readonly string[]).includes(value);
+}
+
+export interface GetLocationsInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+  /** ISO 3166-1 alpha-2 code; narrows the report to visits from that country. */
+  countryCode?: string;
+}
+
+export interface GetVisitorLocationsInput extends GetLocationsInput {
+  granularity?: LocationGranularity;
+}
+
+export function isTechnologyDimension(value: unknown): value is TechnologyDimension {
+  return typeof value === 'string' && (technologyDimensions as readonly string[]).includes(value);
+}
+
+export interface GetTechnologyBreakdownInput {
+  siteId?: number;
+  /** `browser` (default), `os` (operating system versions), `model` (device models), or `resolution`. */
+  dimension?: TechnologyDimension;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+}
+
+export function isEngagementDistribution(value: unknown): value is EngagementDistribution {
+  return typeof value === 'string' && (engagementDistributions as readonly string[]).includes(value);
+}
+
+export interface GetEngagementDistributionInput {
+  siteId?: number;
+  /** `hourOfDay` (server time, default), `dayOfWeek`, `visitDuration`, or `pagesPerVisit`. */
+  distribution?: EngagementDistribution;
+  period?: string;
+  date?: string;
+  segment?: string;
+}
+
+export interface GetActionsReportInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+}
+
+export type GetPageTitlesInput = GetActionsReportInput;
+export type GetOutlinksInput = GetActionsReportInput;
+export type GetDownloadsInput = GetActionsReportInput;
+export type GetSiteSearchInput = GetActionsReportInput;
+
 export interface GetTrafficChannelsInput {
   siteId?: number;
   period?: string;
@@ -137,8 +401,34 @@ export interface GetTrafficChannelsInput {
 
 export type GetGoalConversionsInput = Partial<Omit<GoalConversionsInput, 'siteId'>> & { siteId?: number };
 
+export interface ListGoalsInput {
+  siteId?: number;
+}
+
+export function isGoalBreakdownDimension(value: unknown): value is GoalBreakdownDimension {
+  return typeof value === 'string' && (goalBreakdownDimensions as readonly string[]).includes(value);
+}
+
+export interface GetGoalBreakdownInput {
+  siteId?: number;
+  /** Configured goal id or name; see `listGoals`. */
+  goalId: number | string;
+  /** `channel` (default), `device` type, or `landingPage` (the period's top entry pages). */
+  breakdown?: GoalBreakdownDimension;
+  period?: string;
+  date?: string;
+  segment?: string;
+  /** Landing pages to break down; ignored for the fixed channel and device lists. */
+  limit?: number;
+}
+
+export interface ListFunnelsInput {
+  siteId?: number;
+}
+
 export interface GetFunnelSummaryInput {
   siteId?: number;
+  /** Funnel id or name; see `listFunnels`. */
   funnelId: string;
   period?: string;
   date?: string;
@@ -147,13 +437,90 @@ export interface GetFunnelSummaryInput {
 
 export type GetKeyNumbersSeriesInput = GetKeyNumbersInput;
 
+export interface CompareSitesInput {
+  /** Site ids or site names/aliases from the site map. */
+  sites: Array<number | string>;
+  period?: string;
+  date?: string;
+  segment?: string;
+  includeTrafficChannels?: boolean;
+  includeEcommerce?: boolean;
+}
+
+export interface RunReportInput {
+  /** Matomo API method in `Module.action` form, e.g. `UserCountry.getCountry`. */
+  method: string;
+  siteId?: number;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+  /** Extra method-specific query parameters such as `idGoal` or `flat`. */
+  params?: Record<string, string | number | boolean>;
+}
+
+export interface GetLiveCountersInput {
+  siteId?: number;
+  /** Minutes to look back; defaults to 30 like Matomo's real-time widget. */
+  lastMinutes?: number;
+  segment?: string;
+}
+
+export interface GetRecentVisitsInput {
+  siteId?: number;
+  limit?: number;
+  segment?: string;
+  /** Keep IPs, visitor and user ids, and custom variables, which are stripped by default. */
+  includeVisitorDetails?: boolean;
+}
+
+export interface GetRealtimeActivityInput extends GetLiveCountersInput, Omit<GetRecentVisitsInput, 'siteId' | 'segment'> {}
+
+export interface ListCustomDimensionsInput {
+  siteId?: number;
+}
+
+export interface GetCustomDimensionInput {
+  siteId?: number;
+  /** Dimension id, `dimensionN` reference, or configured name (e.g. "Logged in status"). */
+  customDimension: number | string;
+  period?: string;
+  date?: string;
+  segment?: string;
+  limit?: number;
+}
+
+export interface ListAvailableReportsInput {
+  siteId?: number;
+  category?: string;
+}
+
+export interface MatomoReportResult {
+  method: string;
+  siteId: number;
+  period: string;
+  date: string;
+  report: NormalizedDataTable;
+}
+
+export interface ResolvePeriodInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+}
+
+interface SiteMetadata {
+  currency?: string;
+  timezone?: string;
+}
+
 export interface KeyNumbersSeriesPoint extends KeyNumbers {
   date: string;
 }
 
-type DiagnosticCheckId = 'base-url' | 'token-auth' | 'site-access';
+type DiagnosticCheckId = 'base-url' | 'token-auth' | 'site-access' | 'report-plugins';
 
-export type DiagnosticStatus = 'ok' | 'error' | 'skipped';
+export type DiagnosticStatus = 'ok' | 'warning' | 'error' | 'skipped';
 
 export interface MatomoDiagnosticError {
   type: 'matomo' | 'network' | 'unknown';
@@ -341,6 +708,256 @@ function adaptEcommerceSummary(summary: RawEcommerceSummary, currency: string |
   return enrichRecordWithCurrency(summary as UnknownRecord, currency) as unknown as EcommerceSummary;
 }
 
+/** Percentage rounded to two decimals; undefined when there is nothing to divide by. */
+function percentOf(part: number, total: number): number | undefined {
+  return total > 0 ? Math.round((part / total) * 10_000) / 100 : undefined;
+}
+
+interface RawVisitCounters {
+  nb_uniq_visitors?: number | undefined;
+  nb_actions?: number | undefined;
+  nb_visits_converted?: number | undefined;
+  bounce_count?: number | undefined;
+  sum_visit_length?: number | undefined;
+}
+
+interface VisitRates {
+  nb_uniq_visitors?: number | undefined;
+  nb_actions?: number | undefined;
+  nb_visits_converted?: number | undefined;
+  conversion_rate?: number | undefined;
+  bounce_rate?: number | undefined;
+  avg_time_on_site?: number | undefined;
+}
+
+/** Copies the visit counters and derives conversion rate, bounce rate, and average time on site. */
+function assignVisitRates(result: VisitRates, row: RawVisitCounters, visits: number): void {
+  if (row.nb_uniq_visitors !== undefined) result.nb_uniq_visitors = row.nb_uniq_visitors;
+  if (row.nb_actions !== undefined) result.nb_actions = row.nb_actions;
+  if (row.nb_visits_converted !== undefined) {
+    result.nb_visits_converted = row.nb_visits_converted;
+    const conversionRate = percentOf(row.nb_visits_converted, visits);
+    if (conversionRate !== undefined) result.conversion_rate = conversionRate;
+  }
+  if (row.bounce_count !== undefined) {
+    const bounceRate = percentOf(row.bounce_count, visits);
+    if (bounceRate !== undefined) result.bounce_rate = bounceRate;
+  }
+  if (row.sum_visit_length !== undefined && visits > 0) {
+    result.avg_time_on_site = Math.round(row.sum_visit_length / visits);
+  }
+}
+
+function adaptVisitShareRow(row: RawTechnologyRow | RawEngagementRow, totalVisits: number): TechnologyBreakdownRow {
+  const visits = row.nb_visits ?? 0;
+  const result: TechnologyBreakdownRow = { label: row.label, nb_visits: visits, shareOfVisits: percentOf(visits, totalVisits) ?? 0 };
+  assignVisitRates(result, row, visits);
+  if (row.segment !== undefined) result.segment = row.segment;
+  return result;
+}
+
+function adaptTransition(row: RawTransition, pageviews: number): PageTransition {
+  const count = row.referrals ?? 0;
+  const transition: PageTransition = { label: row.label, count, share: percentOf(count, pageviews) ?? 0 };
+  if (row.url !== undefined) transition.url = row.url;
+  return transition;
+}
+
+function adaptTransitions(rows: RawTransition[] | undefined, pageviews: number): PageTransition[] {
+  return (rows ?? []).map(row => adaptTransition(row, pageviews));
+}
+
+function adaptPageTransitions(url: string, raw: RawPageTransitions): PageTransitions {
+  const pageviews = raw.pageMetrics?.pageviews ?? 0;
+  const entries = raw.pageMetrics?.entries ?? 0;
+  const exits = raw.pageMetrics?.exits ?? 0;
+  const result: PageTransitions = {
+    url,
+    pageviews,
+    entries,
+    entryShare: percentOf(entries, pageviews) ?? 0,
+    exits,
+    exitShare: percentOf(exits, pageviews) ?? 0,
+    previousPages: adaptTransitions(raw.previousPages, pageviews),
+    previousSiteSearches: adaptTransitions(raw.previousSiteSearches, pageviews),
+    referrers: (raw.referrers ?? []).map(referrer => {
+      const channel = adaptTransition(referrer, pageviews);
+      const details = adaptTransitions(referrer.details, pageviews);
+      return details.length > 0 ? { ...channel, details } : channel;
+    }),
+    nextPages: adaptTransitions(raw.followingPages, pageviews),
+    nextSiteSearches: adaptTransitions(raw.followingSiteSearches, pageviews),
+    outlinks: adaptTransitions(raw.outlinks, pageviews),
+    downloads: adaptTransitions(raw.downloads, pageviews),
+  };
+  if (raw.pageMetrics?.loops !== undefined) result.loops = raw.pageMetrics.loops;
+  return result;
+}
+
+function adaptConversionLag(rows: RawConversionLagRow[]): ConversionLagRow[] {
+  const total = rows.reduce((sum, row) => sum + (row.nb_conversions ?? 0), 0);
+  return rows.map(row => {
+    const conversions = row.nb_conversions ?? 0;
+    return { label: row.label, nb_conversions: conversions, shareOfConversions: percentOf(conversions, total) ?? 0 };
+  });
+}
+
+// Matomo reports unresolved locations with the pseudo-code `xx`.
+function toIsoCountryCode(code: string | undefined): string | undefined {
+  const normalized = code?.trim().toUpperCase();
+  return normalized && /^[A-Z]{2}$/.test(normalized) && normalized !== 'XX' ? normalized : undefined;
+}
+
+function adaptVisitorLocation(row: RawCountry | RawRegion | RawCity, currency: string | undefined): VisitorLocation {
+  const location: VisitorLocation = { label: row.label, nb_visits: row.nb_visits ?? 0 };
+  const fields = row as Partial<RawCountry & RawRegion & RawCity>;
+
+  const countryCode = toIsoCountryCode(fields.code ?? fields.country);
+  if (countryCode !== undefined) location.countryCode = countryCode;
+  // Country rows carry the country name as their label.
+  const country = fields.country_name ?? ('code' in row ? row.label : undefined);
+  if (country !== undefined) location.country = country;
+  if (fields.region !== undefined && fields.region.toLowerCase() !== 'xx') location.regionCode = fields.region;
+  if (fields.region_name !== undefined) location.region = fields.region_name;
+  if (fields.city_name !== undefined) location.city = fields.city_name;
+  if (fields.lat !== undefined) location.latitude = fields.lat;
+  if (fields.long !== undefined) location.longitude = fields.long;
+
+  if (row.nb_uniq_visitors !== undefined) location.nb_uniq_visitors = row.nb_uniq_visitors;
+  if (row.nb_actions !== undefined) location.nb_actions = row.nb_actions;
+  if (row.nb_visits_converted !== undefined) {
+    location.nb_visits_converted = row.nb_visits_converted;
+    const conversionRate = percentOf(row.nb_visits_converted, location.nb_visits);
+    if (conversionRate !== undefined) location.conversion_rate = conversionRate;
+  }
+  if (row.revenue !== undefined) location.revenue = createMonetaryValue(row.revenue, currency);
+  if (row.segment !== undefined) location.segment = row.segment;
+  return location;
+}
+
+function adaptGoalMetrics(
+  conversion: ReportsGoalConversion | undefined,
+  currency: string | undefined
+): GoalBreakdown['totals'] {
+  const metrics: GoalBreakdown['totals'] = { nb_conversions: conversion?.nb_conversions ?? 0 };
+  if (conversion?.nb_visits_converted !== undefined) metrics.nb_visits_converted = conversion.nb_visits_converted;
+  if (conversion?.revenue !== undefined) metrics.revenue = createMonetaryValue(conversion.revenue, currency);
+  return metrics;
+}
+
+/** Inputs every comparable helper shares; `idSubtable` ids are only valid within one period. */
+interface ComparableInput {
+  siteId?: number;
+  period?: string;
+  date?: string;
+  idSubtable?: number;
+}
+
+type WindowedInput<I> = Omit<I, 'compare'> & ComparisonWindow;
+
+function hasComparison<I extends Partial<ComparisonInput>>(input: I): input is I & ComparisonInput {
+  return input.compare !== undefined;
+}
+
+function combineSegments(...segments: Array<string | undefined>): string | undefined {
+  const parts = segments.filter((segment): segment is string => segment !== undefined && segment.trim().length > 0);
+  return parts.length > 0 ? parts.join(';') : undefined;
+}
+
+function optionalText(value: string | null | undefined): string | undefined {
+  return value === null || value === undefined || value === '' ? undefined : value;
+}
+
+function adaptLiveVisit(visit: RawLiveVisit, includeVisitorDetails: boolean): RecentVisit {
+  const result: RecentVisit = {
+    idVisit: visit.idVisit,
+    pages: (visit.actionDetails ?? []).map(action => {
+      const page: RecentVisit['pages'][number] = { type: action.type };
+      const url = optionalText(action.url);
+      const title = optionalText(action.pageTitle);
+      if (url !== undefined) page.url = url;
+      if (title !== undefined) page.title = title;
+      if (action.timestamp !== undefined) page.timestamp = action.timestamp;
+      return page;
+    }),
+  };
+  if (visit.lastActionTimestamp !== undefined) {
+    result.lastActionAt = new Date(visit.lastActionTimestamp * 1000).toISOString();
+  }
+  if (visit.visitDuration !== undefined) result.visitDuration = visit.visitDuration;
+  if (visit.actions !== undefined) result.actions = visit.actions;
+  if (visit.goalConversions !== undefined) result.goalConversions = visit.goalConversions;
+
+  const text: Array<[keyof RecentVisit, string | null | undefined]> = [
+    ['visitorType', visit.visitorType],
+    ['referrerType', visit.referrerType],
+    ['referrerName', visit.referrerName],
+    ['country', visit.country],
+    ['countryCode', visit.countryCode],
+    ['city', visit.city],
+    ['deviceType', visit.deviceType],
+    ['browser', visit.browserName],
+    ['operatingSystem', visit.operatingSystemName],
+  ];
+  if (includeVisitorDetails) {
+    text.push(['visitIp', visit.visitIp], ['visitorId', visit.visitorId], ['userId', visit.userId]);
+  }
+  for (const [key, value] of text) {
+    const present = optionalText(value);
+    if (present !== undefined) (result as Record<string, unknown>)[key] = present;
+  }
+  if (includeVisitorDetails && visit.customVariables !== undefined) {
+    result.customVariables = visit.customVariables;
+  }
+  return result;
+}
+
+function adaptReferrerDetailRow(row: RawReferrerDetailRow): ReferrerDetailRow {
+  const visits = row.nb_visits ?? 0;
+  const result: ReferrerDetailRow = { label: row.label, nb_visits: visits };
+  assignVisitRates(result, row, visits);
+  if (row.url !== undefined) result.url = row.url;
+  if (row.idsubdatatable !== undefined) result.idSubtable = row.idsubdatatable;
+  if (row.segment !== undefined) result.segment = row.segment;
+  return result;
+}
+
+type CampaignMetrics = Omit<CampaignBreakdownRow, 'name' | 'keywords'>;
+
+function adaptCampaignMetrics(row: RawCampaign, currency: string | undefined): CampaignMetrics {
+  const visits = row.nb_visits ?? 0;
+  const metrics: CampaignMetrics = { nb_visits: visits };
+  if (row.nb_actions !== undefined) metrics.nb_actions = row.nb_actions;
+  if (row.nb_visits_converted !== undefined) {
+    metrics.nb_visits_converted = row.nb_visits_converted;
+    const conversionRate = percentOf(row.nb_visits_converted, visits);
+    if (conversionRate !== undefined) metrics.conversion_rate = conversionRate;
+  }
+  if (row.revenue !== undefined) metrics.revenue = createMonetaryValue(row.revenue, currency);
+  return metrics;
+}
+
+/** MarketingCampaignsReporting joins paired UTM values as `first - second`, e.g. `google - cpc`. */
+function splitUtmPair(label: string): [string, string | undefined] {
+  const separator = label.indexOf(' - ');
+  if (separator === -1) return [label.trim(), undefined];
+  return [label.slice(0, separator).trim(), label.slice(separator + 3).trim() || undefined];
+}
+
+function adaptProductRow(row: RawProductRow, currency: string | undefined): ProductPerformanceRow {
+  const product: ProductPerformanceRow = { label: row.label };
+  if (row.revenue !== undefined) product.revenue = createMonetaryValue(row.revenue, currency);
+  if (row.quantity !== undefined) product.quantity = row.quantity;
+  if (row.orders !== undefined) product.orders = row.orders;
+  if (row.abandoned_carts !== undefined) product.abandoned_carts = row.abandoned_carts;
+  if (row.avg_price !== undefined) product.avg_price = createMonetaryValue(row.avg_price, currency);
+  if (row.avg_quantity !== undefined) product.avg_quantity = row.avg_quantity;
+  if (row.nb_visits !== undefined) product.nb_visits = row.nb_visits;
+  if (row.conversion_rate !== undefined) product.conversion_rate = String(row.conversion_rate);
+  if (row.segment !== undefined) product.segment = row.segment;
+  return product;
+}
+
 function adaptEcommerceRevenueSeriesPoint(
   point: RawEcommerceRevenueSeriesPoint,
   currency: string | undefined
@@ -395,6 +1012,48 @@ function extractSiteCurrency(payload: unknown): string | undefined {
   return undefined;
 }
 
+function extractSiteTimezone(payload: unknown): string | undefined {
+  const timezone = firstSiteRecord(payload)?.timezone;
+  if (typeof timezone !== 'string') return undefined;
+
+  const trimmed = timezone.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function extractSiteRoster(payload: unknown): SiteDefinition[] {
+  if (!Array.isArray(payload)) return [];
+
+  const sites: SiteDefinition[] = [];
+  for (const entry of payload) {
+    if (!entry || typeof entry !== 'object') continue;
+    const record = entry as Record<string, unknown>;
+    const siteId = toFiniteNumber(record.idsite);
+    const name = typeof record.name === 'string' ? record.name.trim() : '';
+    if (siteId === undefined || name.length === 0) continue;
+
+    const site: SiteDefinition = { name, siteId, source: 'matomo' };
+    if (typeof record.main_url === 'string' && record.main_url.trim().length > 0) {
+      site.aliases = [record.main_url.trim()];
+    }
+    const timezone = extractSiteTimezone(record);
+    const currency = extractSiteCurrency(record);
+    if (timezone !== undefined) site.timezone = timezone;
+    if (currency !== undefined) site.currency = currency;
+    sites.push(site);
+  }
+
+  return sites;
+}
+
+const SITE_ROSTER_TTL_MS = 5 * 60_000;
+export const MAX_COMPARED_SITES = 25;
+export const MAX_USER_FLOW_STEPS = 10;
+// Without UsersFlow every path costs Transitions requests per step, so the path count stays small.
+export const MAX_USER_FLOW_PATHS = 20;
+const DEFAULT_LIVE_MINUTES = 30;
+// Unknown names refresh sooner so newly created Matomo sites resolve without a restart.
+const SITE_ROSTER_MISS_TTL_MS = 60_000;
+
 const keyNumberNumericFields: Array<keyof KeyNumbers> = [
   'nb_visits',
   'nb_uniq_visitors',
@@ -819,7 +1478,12 @@ export class MatomoClient {
   private readonly reports: ReportsService;
   private readonly defaultSiteId: number | undefined;
   private readonly cacheThresholds: CacheHealthThresholds;
-  private readonly siteCurrencyCache = new Map<number, string | null>();
+  private readonly siteMetadataCache = new Map<number, SiteMetadata>();
+  private readonly siteRegistry: SiteRegistry;
+  private readonly hydrateSites: boolean;
+  private readonly reportAllowlist: readonly string[];
+  private readonly reportMetadataFallback: boolean;
+  private lastSiteHydration: number | undefined;
 
   constructor(config: MatomoClientConfig) {
     const httpOptions: MatomoHttpClientOptions = {
@@ -840,6 +1504,10 @@ export class MatomoClient {
     this.reports = new ReportsService(this.http, reportsOptions);
 
     this.defaultSiteId = config.defaultSiteId;
+    this.siteRegistry = new SiteRegistry(config.sites ?? []);
+    this.hydrateSites = config.hydrateSites ?? false;
+    this.reportAllowlist = config.reportAllowlist ?? DEFAULT_REPORT_ALLOWLIST;
+    this.reportMetadataFallback = config.reportMetadataFallback ?? false;
 
     const cacheThresholds = config.cacheHealth ?? {};
     const warnHitRate = clampPercentage(cacheThresholds.warnHitRate ?? 20);
@@ -863,10 +1531,67 @@ export class MatomoClient {
     return value;
   }
 
-  private async resolveSiteCurrency(siteId: number): Promise<string | undefined> {
-    if (this.siteCurrencyCache.has(siteId)) {
-      const cached = this.siteCurrencyCache.get(siteId);
-      return cached ?? undefined;
+  private async refreshSiteRoster(maxAgeMs: number): Promise<void> {
+    if (!this.hydrateSites) return;
+    if (this.lastSiteHydration !== undefined && Date.now() - this.lastSiteHydration < maxAgeMs) {
+      return;
+    }
+
+    const payload = await matomoGet<unknown>(this.http, {
+      method: 'SitesManager.getSitesWithAtLeastViewAccess',
+      params: {},
+    });
+    this.lastSiteHydration = Date.now();
+    for (const site of extractSiteRoster(payload)) {
+      this.siteRegistry.add(site);
+    }
+  }
+
+  /** Lists configured sites, plus the Matomo roster when hydration is enabled. */
+  async listSites(): Promise<SiteDefinition[]> {
+    await this.refreshSiteRoster(SITE_ROSTER_TTL_MS);
+    return this.siteRegistry.list();
+  }
+
+  /**
+   * Resolves a site name, alias, main URL or numeric id to its site definition. Unknown names
+   * trigger a roster refresh (when hydration is enabled) before failing with `UnknownSiteError`.
+   */
+  async resolveSite(reference: string | number): Promise<SiteDefinition> {
+    if (typeof reference === 'number' || /^\d+$/.test(reference.trim())) {
+      const siteId = Number(reference);
+      return this.siteRegistry.get(siteId) ?? { name: String(siteId), siteId };
+    }
+
+    const configured = this.siteRegistry.find(reference);
+    if (configured) {
+      return configured;
+    }
+
+    if (this.hydrateSites && normalizeSiteKey(reference).length > 0) {
+      await this.refreshSiteRoster(SITE_ROSTER_MISS_TTL_MS);
+      const hydrated = this.siteRegistry.find(reference);
+      if (hydrated) {
+        return hydrated;
+      }
+    }
+
+    throw new UnknownSiteError(reference, this.siteRegistry.list().map(site => site.name));
+  }
+
+  private async resolveSiteMetadata(siteId: number): Promise<SiteMetadata> {
+    const cached = this.siteMetadataCache.get(siteId);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata: SiteMetadata = {};
+    const configured = this.siteRegistry.get(siteId);
+    if (configured?.currency !== undefined) metadata.currency = configured.currency;
+    if (configured?.timezone !== undefined) metadata.timezone = configured.timezone;
+    if (metadata.currency !== undefined && metadata.timezone !== undefined) {
+      this.siteMetadataCache.set(siteId, metadata);
+      return metadata;
     }
 
     try {
@@ -875,21 +1600,96 @@ export class MatomoClient {
         params: { idSite: siteId },
       });
       const currency = extractSiteCurrency(payload);
-      this.siteCurrencyCache.set(siteId, currency ?? null);
-      return currency ?? undefined;
+      const timezone = extractSiteTimezone(payload);
+      if (currency !== undefined) metadata.currency ??= currency;
+      if (timezone !== undefined) metadata.timezone ??= timezone;
     } catch (error) {
       if (process.env.NODE_ENV !== 'production') {
-        sdkLogger.debug('Failed to resolve Matomo site currency', {
+        sdkLogger.debug('Failed to resolve Matomo site metadata', {
           siteId,
           error,
         });
       }
-      this.siteCurrencyCache.set(siteId, null);
-      return undefined;
     }
+
+    this.siteMetadataCache.set(siteId, metadata);
+    return metadata;
+  }
+
+  private async resolveSiteCurrency(siteId: number): Promise<string | undefined> {
+    return (await this.resolveSiteMetadata(siteId)).currency;
+  }
+
+  private async resolvePeriodOptions(siteId: number, date: string): Promise<PeriodOptions> {
+    // Absolute dates resolve identically in every timezone, so skip the site lookup.
+    if (!isRelativeDate(date)) {
+      return {};
+    }
+
+    const { timezone } = await this.resolveSiteMetadata(siteId);
+    return timezone ? { timezone } : {};
   }
 
-  async getKeyNumbers(input: GetKeyNumbersInput = {}): Promise<KeyNumbers> {
+  /**
+   * Resolves a Matomo `period`/`date` pair into the concrete calendar window it covers,
+   * evaluating relative dates (`today`, `lastN`, ...) in the site's timezone.
+   */
+  async resolvePeriod(input: ResolvePeriodInput = {}): Promise<PeriodWindow> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const date = input.date ?? 'today';
+    return resolvePeriodWindow({ period: input.period ?? 'day', date }, await this.resolvePeriodOptions(siteId, date));
+  }
+
+  private async resolveComparison(mode: ComparisonMode, siteId: number | undefined, window: ComparisonWindow) {
+    const options = await this.resolvePeriodOptions(this.resolveSiteId(siteId), window.date);
+    return resolveComparisonWindows(window, mode, options);
+  }
+
+  /**
+   * Fetches the requested window and the one `compare` selects through `fetch` (the helper itself,
+   * called without `compare`), then diffs them. Windows default to `day`/`today` like the helpers.
+   */
+  private withComparison<I extends ComparableInput>(
+    input: I & ComparisonInput,
+    fetch: (request: WindowedInput<I>) => Promise<ReadonlyArray<object>>,
+    kind: 'list',
+    keyField?: string
+  ): Promise<ComparedListReport>;
+  private withComparison<I extends ComparableInput>(
+    input: I & ComparisonInput,
+    fetch: (request: WindowedInput<I>) => Promise<object>,
+    kind: 'record'
+  ): Promise<ComparedRecordReport>;
+  private async withComparison<I extends ComparableInput>(
+    input: I & ComparisonInput,
+    fetch: (request: WindowedInput<I>) => Promise<object>,
+    kind: 'list' | 'record',
+    keyField = 'label'
+  ): Promise<ComparedListReport | ComparedRecordReport> {
+    const { compare, ...rest } = input;
+    if (rest.idSubtable !== undefined) {
+      throw new InvalidInputError('idSubtable cannot be combined with compare because subtable ids differ between periods.');
+    }
+
+    const windows = await this.resolveComparison(compare, rest.siteId, {
+      period: rest.period ?? 'day',
+      date: rest.date ?? 'today',
+    });
+    const fetchWindow = (window: ComparisonWindow) => fetch({ ...rest, ...window } as WindowedInput<I>);
+    const [current, previous] = await Promise.all([fetchWindow(windows.current), fetchWindow(windows.previous)]);
+
+    return kind === 'list'
+      ? compareRows(compare, windows, current as ReadonlyArray<object>, previous as ReadonlyArray<object>, keyField)
+      : compareRecords(compare, windows, current, previous);
+  }
+
+  getKeyNumbers(input: GetKeyNumbersInput & ComparisonInput): Promise<ComparedRecordReport>;
+  getKeyNumbers(input?: GetKeyNumbersInput): Promise<KeyNumbers>;
+  async getKeyNumbers(input: GetKeyNumbersInput & Partial<ComparisonInput> = {}): Promise<KeyNumbers | ComparedRecordReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getKeyNumbers(request), 'record');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
 
     const raw = await matomoGet<unknown>(this.http, {
@@ -997,12 +1797,20 @@ export class MatomoClient {
 
     return Object.entries(parsed)
       .map(([label, value]) => ({ date: label, ...value }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+      .sort((a, b) => {
+        const left = resolvePeriodLabel(a.date)?.start ?? a.date;
+        const right = resolvePeriodLabel(b.date)?.start ?? b.date;
+        return left.localeCompare(right);
+      });
   }
 
-  async getMostPopularUrls(
-    input: Omit<Parameters<ReportsService['getMostPopularUrls']>[0], 'siteId'> & { siteId?: number }
-  ): Promise<MostPopularUrl[]> {
+  getMostPopularUrls(input: GetMostPopularUrlsInput & ComparisonInput): Promise<ComparedListReport>;
+  getMostPopularUrls(input: GetMostPopularUrlsInput): Promise<MostPopularUrl[]>;
+  async getMostPopularUrls(input: GetMostPopularUrlsInput & Partial<ComparisonInput>): Promise<MostPopularUrl[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getMostPopularUrls(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getMostPopularUrls']>[0] = {
       siteId,
@@ -1018,9 +1826,46 @@ export class MatomoClient {
     return this.reports.getMostPopularUrls(request);
   }
 
-  async getTopReferrers(
-    input: Omit<Parameters<ReportsService['getTopReferrers']>[0], 'siteId'> & { siteId?: number }
-  ): Promise<TopReferrer[]> {
+  /** Page titles flattened to one row per title, with hits, visits, and time on page. */
+  getPageTitles(input: GetPageTitlesInput & ComparisonInput): Promise<ComparedListReport>;
+  getPageTitles(input?: GetPageTitlesInput): Promise<PageTitle[]>;
+  async getPageTitles(input: GetPageTitlesInput & Partial<ComparisonInput> = {}): Promise<PageTitle[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getPageTitles(request), 'list');
+    }
+
+    return this.reports.getPageTitles(this.buildActionsReportRequest(input));
+  }
+
+  /** Clicks on links to external sites, one row per destination URL. */
+  getOutlinks(input: GetOutlinksInput & ComparisonInput): Promise<ComparedListReport>;
+  getOutlinks(input?: GetOutlinksInput): Promise<Outlink[]>;
+  async getOutlinks(input: GetOutlinksInput & Partial<ComparisonInput> = {}): Promise<Outlink[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getOutlinks(request), 'list');
+    }
+
+    return this.reports.getOutlinks(this.buildActionsReportRequest(input));
+  }
+
+  /** Tracked file downloads (PDFs, archives, ...), one row per file URL. */
+  getDownloads(input: GetDownloadsInput & ComparisonInput): Promise<ComparedListReport>;
+  getDownloads(input?: GetDownloadsInput): Promise<Download[]>;
+  async getDownloads(input: GetDownloadsInput & Partial<ComparisonInput> = {}): Promise<Download[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getDownloads(request), 'list');
+    }
+
+    return this.reports.getDownloads(this.buildActionsReportRequest(input));
+  }
+
+  getTopReferrers(input: GetTopReferrersInput & ComparisonInput): Promise<ComparedListReport>;
+  getTopReferrers(input: GetTopReferrersInput): Promise<TopReferrer[]>;
+  async getTopReferrers(input: GetTopReferrersInput & Partial<ComparisonInput>): Promise<TopReferrer[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getTopReferrers(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getTopReferrers']>[0] = {
       siteId,
@@ -1036,7 +1881,76 @@ export class MatomoClient {
     return this.reports.getTopReferrers(request);
   }
 
-  async getEvents(input: GetEventsInput = {}): Promise<EventSummary[]> {
+  /**
+   * Drills into one referrer channel: search engines, search keywords, websites, or social networks.
+   * Subtable ids are only valid for the period they came from, so `idSubtable` cannot be compared.
+   */
+  getReferrerDetails(input: GetReferrerDetailsInput & ComparisonInput): Promise<ComparedListReport>;
+  getReferrerDetails(input: GetReferrerDetailsInput): Promise<ReferrerDetailRow[]>;
+  async getReferrerDetails(
+    input: GetReferrerDetailsInput & Partial<ComparisonInput>
+  ): Promise<ReferrerDetailRow[] | ComparedListReport> {
+    const referrerType = resolveReferrerDetailType(input.referrerType);
+    if (!referrerType) {
+      throw new InvalidInputError(`referrerType must be one of: ${referrerDetailTypes.join(', ')}.`);
+    }
+
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getReferrerDetails(request), 'list');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getReferrerDetails']>[0] = {
+      siteId,
+      referrerType,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    if (input.idSubtable !== undefined) {
+      request.idSubtable = input.idSubtable;
+    }
+
+    const rows = await this.reports.getReferrerDetails(request);
+    return rows.map(adaptReferrerDetailRow);
+  }
+
+  getSearchEngines(input: GetReferrerReportInput & ComparisonInput): Promise<ComparedListReport>;
+  getSearchEngines(input?: GetReferrerReportInput): Promise<ReferrerDetailRow[]>;
+  getSearchEngines(input: GetReferrerReportInput & Partial<ComparisonInput> = {}): Promise<ReferrerDetailRow[] | ComparedListReport> {
+    return this.getReferrerDetails({ ...input, referrerType: 'search_engines' });
+  }
+
+  getKeywords(input: GetReferrerReportInput & ComparisonInput): Promise<ComparedListReport>;
+  getKeywords(input?: GetReferrerReportInput): Promise<ReferrerDetailRow[]>;
+  getKeywords(input: GetReferrerReportInput & Partial<ComparisonInput> = {}): Promise<ReferrerDetailRow[] | ComparedListReport> {
+    return this.getReferrerDetails({ ...input, referrerType: 'keywords' });
+  }
+
+  getWebsites(input: GetReferrerReportInput & ComparisonInput): Promise<ComparedListReport>;
+  getWebsites(input?: GetReferrerReportInput): Promise<ReferrerDetailRow[]>;
+  getWebsites(input: GetReferrerReportInput & Partial<ComparisonInput> = {}): Promise<ReferrerDetailRow[] | ComparedListReport> {
+    return this.getReferrerDetails({ ...input, referrerType: 'websites' });
+  }
+
+  getSocials(input: GetReferrerReportInput & ComparisonInput): Promise<ComparedListReport>;
+  getSocials(input?: GetReferrerReportInput): Promise<ReferrerDetailRow[]>;
+  getSocials(input: GetReferrerReportInput & Partial<ComparisonInput> = {}): Promise<ReferrerDetailRow[] | ComparedListReport> {
+    return this.getReferrerDetails({ ...input, referrerType: 'social_networks' });
+  }
+
+  getEvents(input: GetEventsInput & ComparisonInput): Promise<ComparedListReport>;
+  getEvents(input?: GetEventsInput): Promise<EventSummary[]>;
+  async getEvents(input: GetEventsInput & Partial<ComparisonInput> = {}): Promise<EventSummary[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getEvents(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getEvents']>[0] = {
       siteId,
@@ -1061,7 +1975,13 @@ export class MatomoClient {
     return this.reports.getEvents(request);
   }
 
-  async getEntryPages(input: GetEntryPagesInput = {}): Promise<EntryPage[]> {
+  getEntryPages(input: GetEntryPagesInput & ComparisonInput): Promise<ComparedListReport>;
+  getEntryPages(input?: GetEntryPagesInput): Promise<EntryPage[]>;
+  async getEntryPages(input: GetEntryPagesInput & Partial<ComparisonInput> = {}): Promise<EntryPage[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getEntryPages(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getEntryPages']>[0] = {
       siteId,
@@ -1077,7 +1997,232 @@ export class MatomoClient {
     return this.reports.getEntryPages(request);
   }
 
-  async getCampaigns(input: GetCampaignsInput = {}): Promise<Campaign[]> {
+  getExitPages(input: GetExitPagesInput & ComparisonInput): Promise<ComparedListReport>;
+  getExitPages(input?: GetExitPagesInput): Promise<ExitPage[]>;
+  async getExitPages(input: GetExitPagesInput & Partial<ComparisonInput> = {}): Promise<ExitPage[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getExitPages(request), 'list');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getExitPages']>[0] = {
+      siteId,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    return this.reports.getExitPages(request);
+  }
+
+  /**
+   * Transitions for one page: where its pageviews came from (previous pages, internal searches,
+   * external referrers) and where visitors went next (pages, searches, outlinks, downloads, or exit).
+   */
+  async getPageTransitions(input: GetPageTransitionsInput): Promise<PageTransitions> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getPageTransitions']>[0] = {
+      siteId,
+      url: input.url,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+
+    const raw = await this.reports.getPageTransitions(request);
+    return adaptPageTransitions(input.url, raw);
+  }
+
+  /**
+   * Most common entry-to-exit paths with step-level drop-off, built from `UsersFlow.getUsersFlowPretty`.
+   * Without the UsersFlow plugin the paths are stitched from `Transitions` data for the top entry pages
+   * (or `startUrl`), which costs one Transitions request per page on the expanded paths.
+   */
+  async getUserFlow(input: GetUserFlowInput = {}): Promise<UserFlowReport> {
+    const maxSteps = input.steps ?? 4;
+    if (!Number.isInteger(maxSteps) || maxSteps < 2 || maxSteps > MAX_USER_FLOW_STEPS) {
+      throw new InvalidInputError(`getUserFlow steps must be an integer between 2 and ${MAX_USER_FLOW_STEPS}.`);
+    }
+    const limit = input.limit ?? 5;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_USER_FLOW_PATHS) {
+      throw new InvalidInputError(`getUserFlow limit must be an integer between 1 and ${MAX_USER_FLOW_PATHS}.`);
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getUsersFlow']>[0] = {
+      siteId,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    const options = { limit, maxSteps };
+
+    let report: UserFlowReport;
+    try {
+      const index = indexUsersFlow(await this.reports.getUsersFlow(request));
+      const entryPages = [...(index.get(1)?.values() ?? [])];
+      const starts: FlowStart[] = entryPages
+        .filter(node => input.startUrl === undefined || normalizePageKey(node.page) === normalizePageKey(input.startUrl))
+        .map(node => ({ page: node.page, visits: node.visits }));
+      const lookup: FlowLookup = async (page, step) => index.get(step)?.get(normalizePageKey(page));
+      report = { source: 'UsersFlow', paths: await buildUserFlowPaths(starts, lookup, options) };
+    } catch (error) {
+      if (!isMatomoMethodUnavailable(error, 'getusersflowpretty')) {
+        throw error;
+      }
+      sdkLogger.debug('UsersFlow plugin unavailable; stitching user flow from Transitions', { siteId });
+      report = { source: 'Transitions', paths: await this.buildTransitionsUserFlow(request, input.startUrl, options) };
+    }
+
+    if (input.startUrl !== undefined) {
+      report.startUrl = input.startUrl;
+    }
+    return report;
+  }
+
+  private async buildTransitionsUserFlow(
+    request: Parameters<ReportsService['getUsersFlow']>[0],
+    startUrl: string | undefined,
+    options: { limit: number; maxSteps: number }
+  ): Promise<UserFlowPath[]> {
+    const transitionsFor = (url: string) => this.reports.getPageTransitions({ ...request, url, limit: options.limit });
+
+    let starts: FlowStart[];
+    if (startUrl !== undefined) {
+      const transitions = await transitionsFor(startUrl);
+      starts = [{ page: startUrl, visits: transitions.pageMetrics?.entries ?? 0 }];
+    } else {
+      const entryPages = await this.reports.getEntryPages({ ...request, limit: options.limit });
+      starts = entryPages.map(page => ({ page: page.url ?? page.label, visits: page.entry_nb_visits ?? 0 }));
+    }
+
+    // Transitions are not step-aware: every step reuses the page's overall flow.
+    const lookup: FlowLookup = async page => {
+      try {
+        const transitions = await transitionsFor(page);
+        const node = {
+          visits: transitions.pageMetrics?.pageviews ?? 0,
+          next: (transitions.followingPages ?? []).map(row => ({ page: row.url ?? row.label, visits: row.referrals ?? 0 })),
+        };
+        const exits = transitions.pageMetrics?.exits;
+        return exits === undefined ? node : { ...node, exits };
+      } catch (error) {
+        // Pages below Matomo's archiving thresholds have no transitions; end the path there.
+        if (error instanceof MatomoClientError && /no data for this url/i.test(error.message)) {
+          return undefined;
+        }
+        throw error;
+      }
+    };
+
+    return buildUserFlowPaths(starts, lookup, options);
+  }
+
+  /** New versus returning visits, with `returning_visits_share` as the percent of visits from returning visitors. */
+  getVisitorFrequency(input: GetVisitorFrequencyInput & ComparisonInput): Promise<ComparedRecordReport>;
+  getVisitorFrequency(input?: GetVisitorFrequencyInput): Promise<VisitorFrequency>;
+  async getVisitorFrequency(
+    input: GetVisitorFrequencyInput & Partial<ComparisonInput> = {}
+  ): Promise<VisitorFrequency | ComparedRecordReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getVisitorFrequency(request), 'record');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getVisitFrequency']>[0] = {
+      siteId,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    const frequency = await this.reports.getVisitFrequency(request);
+    const newVisits = frequency.nb_visits_new ?? 0;
+    const returningVisits = frequency.nb_visits_returning ?? 0;
+    const share = percentOf(returningVisits, newVisits + returningVisits);
+    return share === undefined ? frequency : { ...frequency, returning_visits_share: share };
+  }
+
+  /** Conversions by number of visits until converting (`Goals.getVisitsUntilConversion`). */
+  getVisitsToConversion(input: GetConversionLagInput & ComparisonInput): Promise<ComparedListReport>;
+  getVisitsToConversion(input?: GetConversionLagInput): Promise<ConversionLagRow[]>;
+  async getVisitsToConversion(input: GetConversionLagInput & Partial<ComparisonInput> = {}): Promise<ConversionLagRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getVisitsToConversion(request), 'list');
+    }
+
+    return adaptConversionLag(await this.reports.getVisitsToConversion(this.buildConversionLagRequest(input)));
+  }
+
+  /** Conversions by days from first visit until converting (`Goals.getDaysToConversion`). */
+  getDaysToConversion(input: GetConversionLagInput & ComparisonInput): Promise<ComparedListReport>;
+  getDaysToConversion(input?: GetConversionLagInput): Promise<ConversionLagRow[]>;
+  async getDaysToConversion(input: GetConversionLagInput & Partial<ComparisonInput> = {}): Promise<ConversionLagRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getDaysToConversion(request), 'list');
+    }
+
+    return adaptConversionLag(await this.reports.getDaysToConversion(this.buildConversionLagRequest(input)));
+  }
+
+  private buildConversionLagRequest(input: GetConversionLagInput): Parameters<ReportsService['getVisitsToConversion']>[0] {
+    const request: Parameters<ReportsService['getVisitsToConversion']>[0] = {
+      siteId: this.resolveSiteId(input.siteId),
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.goalId !== undefined) {
+      request.goalId = input.goalId;
+    }
+    return request;
+  }
+
+  /**
+   * Weekly first-visit cohorts with the percent of each cohort returning in later weeks, read from
+   * the Cohorts plugin. Sites without the plugin get `available: false` rather than an error.
+   */
+  async getCohortRetention(input: GetCohortRetentionInput = {}): Promise<CohortRetention> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getCohorts']>[0] = { siteId, date: input.date ?? `last${input.weeks ?? 8}` };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    try {
+      const cohorts = buildCohortRetention(await this.reports.getCohorts(request), COHORT_RETENTION_METRIC);
+      return { period: 'week', available: true, cohorts, averageRetention: averageCohortRetention(cohorts) };
+    } catch (error) {
+      if (!isMatomoMethodUnavailable(error, 'getcohorts')) {
+        throw error;
+      }
+      sdkLogger.debug('Cohorts plugin unavailable; returning an empty retention matrix', { siteId });
+      return { period: 'week', available: false, cohorts: [], averageRetention: [] };
+    }
+  }
+
+  getCampaigns(input: GetCampaignsInput & ComparisonInput): Promise<ComparedListReport>;
+  getCampaigns(input?: GetCampaignsInput): Promise<Campaign[]>;
+  async getCampaigns(input: GetCampaignsInput & Partial<ComparisonInput> = {}): Promise<Campaign[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getCampaigns(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getCampaigns']>[0] = {
       siteId,
@@ -1098,7 +2243,81 @@ export class MatomoClient {
     return campaigns.map(campaign => enrichRecordWithCurrency(campaign, currency) as unknown as Campaign);
   }
 
-  async getEcommerceOverview(input: GetEcommerceOverviewInput = {}): Promise<EcommerceSummary> {
+  /**
+   * Campaigns by name with their keyword/content split, plus source/medium pairs. Uses the
+   * MarketingCampaignsReporting plugin when installed; otherwise falls back to `Referrers.getCampaigns`
+   * and its keyword subtables, which carry no source, medium, or content.
+   */
+  async getCampaignBreakdown(input: GetCampaignsInput = {}): Promise<CampaignBreakdown> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getCampaigns']>[0] = {
+      siteId,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    const currencyPromise = this.resolveSiteCurrency(siteId);
+
+    let source: CampaignBreakdown['source'] = 'MarketingCampaignsReporting';
+    let names: RawCampaign[];
+    try {
+      names = await this.reports.getCampaignDimension({ ...request, dimension: 'name' });
+    } catch (error) {
+      if (!isMatomoMethodUnavailable(error, 'getname')) {
+        throw error;
+      }
+      sdkLogger.debug('MarketingCampaignsReporting plugin unavailable; using Referrers campaigns', { siteId });
+      source = 'Referrers';
+      names = await this.reports.getCampaigns(request);
+    }
+
+    const subtable = source === 'Referrers' ? 'keyword' : 'keywordContent';
+    const [currency, keywordTables, sourceMedium] = await Promise.all([
+      currencyPromise,
+      Promise.all(
+        names.map(row =>
+          row.idsubdatatable === undefined
+            ? Promise.resolve([])
+            : this.reports.getCampaignDimension({ ...request, dimension: subtable, idSubtable: row.idsubdatatable })
+        )
+      ),
+      source === 'Referrers' ? Promise.resolve([]) : this.reports.getCampaignDimension({ ...request, dimension: 'sourceMedium' }),
+    ]);
+
+    return {
+      source,
+      campaigns: names.map((row, index) => ({
+        name: row.label,
+        ...adaptCampaignMetrics(row, currency),
+        keywords: (keywordTables[index] ?? []).map(keywordRow => {
+          // Core campaign keywords are plain terms; only the plugin appends the content value.
+          const [keyword, content] = source === 'Referrers' ? [keywordRow.label, undefined] : splitUtmPair(keywordRow.label);
+          const entry: CampaignBreakdownRow['keywords'][number] = { keyword, ...adaptCampaignMetrics(keywordRow, currency) };
+          if (content !== undefined) entry.content = content;
+          return entry;
+        }),
+      })),
+      sourceMedium: sourceMedium.map(row => {
+        const [sourceName, medium] = splitUtmPair(row.label);
+        const entry: CampaignBreakdown['sourceMedium'][number] = { source: sourceName, ...adaptCampaignMetrics(row, currency) };
+        if (medium !== undefined) entry.medium = medium;
+        return entry;
+      }),
+    };
+  }
+
+  getEcommerceOverview(input: GetEcommerceOverviewInput & ComparisonInput): Promise<ComparedRecordReport>;
+  getEcommerceOverview(input?: GetEcommerceOverviewInput): Promise<EcommerceSummary>;
+  async getEcommerceOverview(input: GetEcommerceOverviewInput & Partial<ComparisonInput> = {}): Promise<EcommerceSummary | ComparedRecordReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getEcommerceOverview(request), 'record');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getEcommerceOverview']>[0] = {
       siteId,
@@ -1142,7 +2361,80 @@ export class MatomoClient {
     return adaptedSeries ? { totals: adaptedTotals, series: adaptedSeries } : { totals: adaptedTotals };
   }
 
-  async getEventCategories(input: GetEventCategoriesInput = {}): Promise<EventCategory[]> {
+  /** Ecommerce items by SKU (`Goals.getItemsSku`); `abandonedCarts` switches to abandoned-cart items. */
+  getProductSkus(input: GetProductsInput & ComparisonInput): Promise<ComparedListReport>;
+  getProductSkus(input?: GetProductsInput): Promise<ProductPerformanceRow[]>;
+  async getProductSkus(input: GetProductsInput & Partial<ComparisonInput> = {}): Promise<ProductPerformanceRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getProductSkus(request), 'list');
+    }
+    return this.fetchProducts('sku', input);
+  }
+
+  /** Ecommerce items by product name (`Goals.getItemsName`). */
+  getProductNames(input: GetProductsInput & ComparisonInput): Promise<ComparedListReport>;
+  getProductNames(input?: GetProductsInput): Promise<ProductPerformanceRow[]>;
+  async getProductNames(input: GetProductsInput & Partial<ComparisonInput> = {}): Promise<ProductPerformanceRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getProductNames(request), 'list');
+    }
+    return this.fetchProducts('name', input);
+  }
+
+  /** Ecommerce items by product category (`Goals.getItemsCategory`). */
+  getProductCategories(input: GetProductsInput & ComparisonInput): Promise<ComparedListReport>;
+  getProductCategories(input?: GetProductsInput): Promise<ProductPerformanceRow[]>;
+  async getProductCategories(
+    input: GetProductsInput & Partial<ComparisonInput> = {}
+  ): Promise<ProductPerformanceRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getProductCategories(request), 'list');
+    }
+    return this.fetchProducts('category', input);
+  }
+
+  /** Ecommerce items by SKU, name, or category; the dimension-selecting form of the three helpers above. */
+  getProductPerformance(input: GetProductPerformanceInput & ComparisonInput): Promise<ComparedListReport>;
+  getProductPerformance(input?: GetProductPerformanceInput): Promise<ProductPerformanceRow[]>;
+  async getProductPerformance(
+    input: GetProductPerformanceInput & Partial<ComparisonInput> = {}
+  ): Promise<ProductPerformanceRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getProductPerformance(request), 'list');
+    }
+    const { dimension = 'sku', ...request } = input;
+    return this.fetchProducts(dimension, request);
+  }
+
+  private async fetchProducts(dimension: ProductDimension, input: GetProductsInput): Promise<ProductPerformanceRow[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getProducts']>[0] = {
+      siteId,
+      dimension,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    if (input.abandonedCarts !== undefined) {
+      request.abandonedCarts = input.abandonedCarts;
+    }
+    const [rows, currency] = await Promise.all([this.reports.getProducts(request), this.resolveSiteCurrency(siteId)]);
+
+    return rows.map(row => adaptProductRow(row, currency));
+  }
+
+  getEventCategories(input: GetEventCategoriesInput & ComparisonInput): Promise<ComparedListReport>;
+  getEventCategories(input?: GetEventCategoriesInput): Promise<EventCategory[]>;
+  async getEventCategories(input: GetEventCategoriesInput & Partial<ComparisonInput> = {}): Promise<EventCategory[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getEventCategories(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getEventCategories']>[0] = {
       siteId,
@@ -1158,7 +2450,190 @@ export class MatomoClient {
     return this.reports.getEventCategories(request);
   }
 
-  async getDeviceTypes(input: GetDeviceTypesInput = {}): Promise<DeviceTypeSummary[]> {
+  getCountries(input: GetLocationsInput & ComparisonInput): Promise<ComparedListReport>;
+  getCountries(input?: GetLocationsInput): Promise<VisitorLocation[]>;
+  async getCountries(input: GetLocationsInput & Partial<ComparisonInput> = {}): Promise<VisitorLocation[] | ComparedListReport> {
+    return this.getVisitorLocations({ ...input, granularity: 'country' });
+  }
+
+  getRegions(input: GetLocationsInput & ComparisonInput): Promise<ComparedListReport>;
+  getRegions(input?: GetLocationsInput): Promise<VisitorLocation[]>;
+  async getRegions(input: GetLocationsInput & Partial<ComparisonInput> = {}): Promise<VisitorLocation[] | ComparedListReport> {
+    return this.getVisitorLocations({ ...input, granularity: 'region' });
+  }
+
+  getCities(input: GetLocationsInput & ComparisonInput): Promise<ComparedListReport>;
+  getCities(input?: GetLocationsInput): Promise<VisitorLocation[]>;
+  async getCities(input: GetLocationsInput & Partial<ComparisonInput> = {}): Promise<VisitorLocation[] | ComparedListReport> {
+    return this.getVisitorLocations({ ...input, granularity: 'city' });
+  }
+
+  /** Visits by country (default), region, or city from `UserCountry.*`, with ISO country codes. */
+  getVisitorLocations(input: GetVisitorLocationsInput & ComparisonInput): Promise<ComparedListReport>;
+  getVisitorLocations(input?: GetVisitorLocationsInput): Promise<VisitorLocation[]>;
+  async getVisitorLocations(
+    input: GetVisitorLocationsInput & Partial<ComparisonInput> = {}
+  ): Promise<VisitorLocation[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getVisitorLocations(request), 'list');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getCountries']>[0] = {
+      siteId,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    const countryCode = input.countryCode?.trim().toLowerCase();
+    const segment = combineSegments(input.segment, countryCode ? `countryCode==${countryCode}` : undefined);
+    if (segment !== undefined) {
+      request.segment = segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+
+    const granularity = input.granularity ?? 'country';
+    const [rows, currency] = await Promise.all([
+      granularity === 'city'
+        ? this.reports.getCities(request)
+        : granularity === 'region'
+          ? this.reports.getRegions(request)
+          : this.reports.getCountries(request),
+      this.resolveSiteCurrency(siteId),
+    ]);
+
+    return rows.map(row => adaptVisitorLocation(row, currency));
+  }
+
+  /** Visits by browser, OS version, device model, or screen resolution, with each row's share of all visits. */
+  getTechnologyBreakdown(input: GetTechnologyBreakdownInput & ComparisonInput): Promise<ComparedListReport>;
+  getTechnologyBreakdown(input?: GetTechnologyBreakdownInput): Promise<TechnologyBreakdownRow[]>;
+  async getTechnologyBreakdown(
+    input: GetTechnologyBreakdownInput & Partial<ComparisonInput> = {}
+  ): Promise<TechnologyBreakdownRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getTechnologyBreakdown(request), 'list');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getTechnology']>[0] = {
+      siteId,
+      dimension: input.dimension ?? 'browser',
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    const rows = await this.reports.getTechnology(request);
+    const totalVisits = rows.reduce((sum, row) => sum + (row.nb_visits ?? 0), 0);
+    return [...rows]
+      .sort((a, b) => (b.nb_visits ?? 0) - (a.nb_visits ?? 0))
+      .slice(0, input.limit ?? 10)
+      .map(row => adaptVisitShareRow(row, totalVisits));
+  }
+
+  /**
+   * Visits by hour of day (server time), day of week, visit duration, or pages per visit, each
+   * bucket with its share of all visits. Rows keep Matomo's bucket order.
+   */
+  getEngagementDistribution(input: GetEngagementDistributionInput & ComparisonInput): Promise<ComparedListReport>;
+  getEngagementDistribution(input?: GetEngagementDistributionInput): Promise<EngagementDistributionRow[]>;
+  async getEngagementDistribution(
+    input: GetEngagementDistributionInput & Partial<ComparisonInput> = {}
+  ): Promise<EngagementDistributionRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getEngagementDistribution(request), 'list');
+    }
+
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getEngagement']>[0] = {
+      siteId,
+      distribution: input.distribution ?? 'hourOfDay',
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    const rows = await this.reports.getEngagement(request);
+    const totalVisits = rows.reduce((sum, row) => sum + (row.nb_visits ?? 0), 0);
+    return rows.map(row => adaptVisitShareRow(row, totalVisits));
+  }
+
+  /** Internal search terms with result pages viewed per search (`nb_pages_per_search`) and search exit rate. */
+  getSiteSearchKeywords(input: GetSiteSearchInput & ComparisonInput): Promise<ComparedListReport>;
+  getSiteSearchKeywords(input?: GetSiteSearchInput): Promise<SiteSearchRow[]>;
+  async getSiteSearchKeywords(input: GetSiteSearchInput & Partial<ComparisonInput> = {}): Promise<SiteSearchRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getSiteSearchKeywords(request), 'list');
+    }
+
+    return this.reports.getSiteSearchKeywords(this.buildActionsReportRequest(input));
+  }
+
+  /** Search terms that returned no results, i.e. content visitors looked for but could not find. */
+  getSiteSearchNoResultKeywords(input: GetSiteSearchInput & ComparisonInput): Promise<ComparedListReport>;
+  getSiteSearchNoResultKeywords(input?: GetSiteSearchInput): Promise<SiteSearchRow[]>;
+  async getSiteSearchNoResultKeywords(input: GetSiteSearchInput & Partial<ComparisonInput> = {}): Promise<SiteSearchRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getSiteSearchNoResultKeywords(request), 'list');
+    }
+
+    return this.reports.getSiteSearchNoResultKeywords(this.buildActionsReportRequest(input));
+  }
+
+  /** Site search categories, when the search form tracks one. */
+  getSiteSearchCategories(input: GetSiteSearchInput & ComparisonInput): Promise<ComparedListReport>;
+  getSiteSearchCategories(input?: GetSiteSearchInput): Promise<SiteSearchRow[]>;
+  async getSiteSearchCategories(input: GetSiteSearchInput & Partial<ComparisonInput> = {}): Promise<SiteSearchRow[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getSiteSearchCategories(request), 'list');
+    }
+
+    return this.reports.getSiteSearchCategories(this.buildActionsReportRequest(input));
+  }
+
+  /**
+   * Site search overview: top search terms, zero-result terms, categories, and the pages visitors
+   * opened right after searching. The four reports are fetched in parallel for the same window.
+   */
+  async getSiteSearch(input: GetSiteSearchInput = {}): Promise<SiteSearchOverview> {
+    const request = this.buildActionsReportRequest(input);
+    const [keywords, noResultKeywords, categories, pagesFollowingSearch] = await Promise.all([
+      this.reports.getSiteSearchKeywords(request),
+      this.reports.getSiteSearchNoResultKeywords(request),
+      this.reports.getSiteSearchCategories(request),
+      this.reports.getPagesFollowingSiteSearch(request),
+    ]);
+    return { keywords, noResultKeywords, categories, pagesFollowingSearch };
+  }
+
+  private buildActionsReportRequest(input: GetActionsReportInput): ActionsReportInput {
+    const request: ActionsReportInput = {
+      siteId: this.resolveSiteId(input.siteId),
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    return request;
+  }
+
+  getDeviceTypes(input: GetDeviceTypesInput & ComparisonInput): Promise<ComparedListReport>;
+  getDeviceTypes(input?: GetDeviceTypesInput): Promise<DeviceTypeSummary[]>;
+  async getDeviceTypes(input: GetDeviceTypesInput & Partial<ComparisonInput> = {}): Promise<DeviceTypeSummary[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getDeviceTypes(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getDeviceTypes']>[0] = {
       siteId,
@@ -1174,7 +2649,13 @@ export class MatomoClient {
     return this.reports.getDeviceTypes(request);
   }
 
-  async getTrafficChannels(input: GetTrafficChannelsInput = {}): Promise<TrafficChannel[]> {
+  getTrafficChannels(input: GetTrafficChannelsInput & ComparisonInput): Promise<ComparedListReport>;
+  getTrafficChannels(input?: GetTrafficChannelsInput): Promise<TrafficChannel[]>;
+  async getTrafficChannels(input: GetTrafficChannelsInput & Partial<ComparisonInput> = {}): Promise<TrafficChannel[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getTrafficChannels(request), 'list');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getTrafficChannels']>[0] = {
       siteId,
@@ -1198,7 +2679,13 @@ export class MatomoClient {
     return channels.map(channel => enrichRecordWithCurrency(channel, currency) as unknown as TrafficChannel);
   }
 
-  async getGoalConversions(input: GetGoalConversionsInput = {}): Promise<GoalConversion[]> {
+  getGoalConversions(input: GetGoalConversionsInput & ComparisonInput): Promise<ComparedListReport>;
+  getGoalConversions(input?: GetGoalConversionsInput): Promise<GoalConversion[]>;
+  async getGoalConversions(input: GetGoalConversionsInput & Partial<ComparisonInput> = {}): Promise<GoalConversion[] | ComparedListReport> {
+    if (hasComparison(input)) {
+      return this.withComparison(input, request => this.getGoalConversions(request), 'list', 'id');
+    }
+
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getGoalConversions']>[0] = {
       siteId,
@@ -1212,7 +2699,9 @@ export class MatomoClient {
       request.limit = input.limit;
     }
     if (input.goalId !== undefined) {
-      request.goalId = input.goalId;
+      request.goalId = isGoalName(input.goalId)
+        ? resolveGoal(input.goalId, await this.listGoals({ siteId })).id
+        : input.goalId;
     }
     if (input.goalType !== undefined) {
       request.goalType = input.goalType;
@@ -1225,11 +2714,138 @@ export class MatomoClient {
     return goals.map(goal => enrichRecordWithCurrency(goal as unknown as UnknownRecord, currency) as unknown as GoalConversion);
   }
 
+  /** Goals configured for the site (`Goals.getGoals`): match rule, pattern, and default revenue. */
+  async listGoals(input: ListGoalsInput = {}): Promise<Goal[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const [configs, currency] = await Promise.all([this.reports.getGoals(siteId), this.resolveSiteCurrency(siteId)]);
+    return adaptGoals(configs, currency);
+  }
+
+  /**
+   * Conversions of one goal split by traffic channel, device type, or landing page. Each row is a
+   * `Goals.get` call restricted by the row's segment, so the rows need not add up to the totals
+   * when visitors fall outside the listed channels, devices, or top landing pages.
+   */
+  async getGoalBreakdown(input: GetGoalBreakdownInput): Promise<GoalBreakdown> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const breakdown = input.breakdown ?? 'channel';
+    const period = input.period ?? 'day';
+    const date = input.date ?? 'today';
+    const goal = resolveGoal(input.goalId, await this.listGoals({ siteId }));
+
+    let slices: readonly GoalBreakdownSlice[];
+    if (breakdown === 'landingPage') {
+      const request: Parameters<ReportsService['getEntryPages']>[0] = { siteId, period, date };
+      if (input.segment !== undefined) {
+        request.segment = input.segment;
+      }
+      if (input.limit !== undefined) {
+        request.limit = input.limit;
+      }
+      const pages = await this.reports.getEntryPages(request);
+      slices = pages.flatMap(page =>
+        page.url ? [{ label: page.url, segment: `entryPageUrl==${encodeURIComponent(page.url)}` }] : []
+      );
+    } else {
+      slices = GOAL_BREAKDOWN_SEGMENTS[breakdown];
+    }
+
+    const conversionsFor = async (sliceSegment?: string) => {
+      const request: Parameters<ReportsService['getGoalConversions']>[0] = { siteId, period, date, goalId: goal.id };
+      const segment = combineSegments(input.segment, sliceSegment);
+      if (segment !== undefined) {
+        request.segment = segment;
+      }
+      const [conversion] = await this.reports.getGoalConversions(request);
+      return conversion;
+    };
+
+    const [total, currency, perSlice] = await Promise.all([
+      conversionsFor(),
+      this.resolveSiteCurrency(siteId),
+      Promise.all(slices.map(slice => conversionsFor(slice.segment))),
+    ]);
+
+    const totals = adaptGoalMetrics(total, currency);
+    const rows = slices
+      .map((slice, index): GoalBreakdownRow => {
+        const row: GoalBreakdownRow = { label: slice.label, segment: slice.segment, ...adaptGoalMetrics(perSlice[index], currency) };
+        const share = percentOf(row.nb_conversions, totals.nb_conversions);
+        if (share !== undefined) row.shareOfConversions = share;
+        return row;
+      })
+      .sort((a, b) => b.nb_conversions - a.nb_conversions);
+
+    return { goal, breakdown, totals, rows };
+  }
+
+  /**
+   * Fetches key numbers (and optionally traffic channels and ecommerce) for several sites in
+   * parallel and lays them out side by side with ranks and share-of-total. A site that fails is
+   * reported with `error` instead of failing the whole comparison.
+   */
+  async compareSites(input: CompareSitesInput): Promise<SiteComparisonReport> {
+    if (input.sites.length === 0 || input.sites.length > MAX_COMPARED_SITES) {
+      throw new InvalidInputError(`compareSites requires between 1 and ${MAX_COMPARED_SITES} sites.`);
+    }
+
+    const resolved = await Promise.all(input.sites.map(site => this.resolveSite(site)));
+    const sites = resolved.filter(
+      (site, index) => resolved.findIndex(other => other.siteId === site.siteId) === index
+    );
+    const period = input.period ?? 'day';
+    const date = input.date ?? 'today';
+    const failures: unknown[] = [];
+
+    const entries = await Promise.all(
+      sites.map(async (site): Promise<SiteComparisonEntry> => {
+        const request: GetKeyNumbersInput = { siteId: site.siteId, period, date };
+        if (input.segment !== undefined) {
+          request.segment = input.segment;
+        }
+
+        try {
+          const [keyNumbers, trafficChannels, ecommerce] = await Promise.all([
+            this.getKeyNumbers(request),
+            input.includeTrafficChannels ? this.getTrafficChannels(request) : undefined,
+            input.includeEcommerce ? this.getEcommerceOverview(request) : undefined,
+          ]);
+          const entry: SiteComparisonEntry = { siteId: site.siteId, name: site.name, keyNumbers };
+          if (trafficChannels) entry.trafficChannels = trafficChannels;
+          if (ecommerce) entry.ecommerce = ecommerce;
+          return entry;
+        } catch (error) {
+          failures.push(error);
+          return {
+            siteId: site.siteId,
+            name: site.name,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+
+    // Nothing to compare when every site failed; surface the original Matomo error.
+    if (failures.length === entries.length) {
+      throw failures[0];
+    }
+
+    return buildSiteComparison({ period, date }, entries);
+  }
+
+  /** Activated funnels (`Funnels.getAllActivatedFunnelsForSite`) with their step definitions. */
+  async listFunnels(input: ListFunnelsInput = {}): Promise<FunnelDefinition[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    return this.reports.getFunnels(siteId);
+  }
+
   async getFunnelSummary(input: GetFunnelSummaryInput): Promise<FunnelSummary> {
     const siteId = this.resolveSiteId(input.siteId);
     const request: Parameters<ReportsService['getFunnelSummary']>[0] = {
       siteId,
-      funnelId: input.funnelId,
+      funnelId: isFunnelName(input.funnelId)
+        ? resolveFunnel(input.funnelId, await this.listFunnels({ siteId })).id
+        : input.funnelId,
       period: input.period ?? 'day',
       date: input.date ?? 'today',
     };
@@ -1239,6 +2855,163 @@ export class MatomoClient {
     return this.reports.getFunnelSummary(request);
   }
 
+  /**
+   * Calls any read-only Matomo reporting API and returns the generically normalized DataTable.
+   * Use it for reports without a dedicated helper; `API.getReportMetadata` lists what a site offers.
+   */
+  async runReport(input: RunReportInput): Promise<MatomoReportResult> {
+    const method = input.method.trim();
+    const params = input.params ?? {};
+    assertReportMethodShape(method);
+    assertReportParams(method, params);
+
+    const siteId = this.resolveSiteId(input.siteId);
+    await this.assertReportMethodAllowed(method, siteId);
+    // Proxies such as API.getProcessedReport must not reach reports the allowlist leaves out.
+    const proxied = resolveProxiedReportMethod(method, params);
+    if (proxied !== undefined) {
+      assertReportMethodShape(proxied);
+      await this.assertReportMethodAllowed(proxied, siteId);
+    }
+
+    const period = input.period ?? 'day';
+    const date = input.date ?? 'today';
+    const request: Parameters<ReportsService['runReport']>[0] = { method, siteId, period, date };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+    if (Object.keys(params).length > 0) {
+      request.params = params;
+    }
+
+    const report = await this.reports.runReport(request);
+    return { method, siteId, period, date, report };
+  }
+
+  /** Real-time visits, actions, visitors, and converted visits from `Live.getCounters`; not archived, so never stale. */
+  async getLiveCounters(input: GetLiveCountersInput = {}): Promise<LiveCounters> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const lastMinutes = input.lastMinutes ?? DEFAULT_LIVE_MINUTES;
+    const request: Parameters<ReportsService['getLiveCounters']>[0] = { siteId, lastMinutes };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    const counters = await this.reports.getLiveCounters(request);
+    return {
+      lastMinutes,
+      visits: counters.visits ?? 0,
+      actions: counters.actions ?? 0,
+      visitors: counters.visitors ?? 0,
+      visitsConverted: counters.visitsConverted ?? 0,
+    };
+  }
+
+  /**
+   * Most recent visits from `Live.getLastVisitsDetails`, newest first. Visitor-identifying fields
+   * are dropped unless `includeVisitorDetails` is set.
+   */
+  async getRecentVisits(input: GetRecentVisitsInput = {}): Promise<RecentVisit[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const request: Parameters<ReportsService['getLastVisits']>[0] = { siteId, limit: input.limit ?? 10 };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+
+    const visits = await this.reports.getLastVisits(request);
+    return visits.map(visit => adaptLiveVisit(visit, input.includeVisitorDetails ?? false));
+  }
+
+  async getRealtimeActivity(input: GetRealtimeActivityInput = {}): Promise<RealtimeActivity> {
+    const { lastMinutes, limit, includeVisitorDetails, ...scope } = input;
+    const countersInput: GetLiveCountersInput = { ...scope };
+    const visitsInput: GetRecentVisitsInput = { ...scope };
+    if (lastMinutes !== undefined) countersInput.lastMinutes = lastMinutes;
+    if (limit !== undefined) visitsInput.limit = limit;
+    if (includeVisitorDetails !== undefined) visitsInput.includeVisitorDetails = includeVisitorDetails;
+
+    const [counters, visits] = await Promise.all([this.getLiveCounters(countersInput), this.getRecentVisits(visitsInput)]);
+    return { counters, visits };
+  }
+
+  async listCustomDimensions(input: ListCustomDimensionsInput = {}): Promise<CustomDimension[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    return adaptCustomDimensions(await this.reports.getConfiguredCustomDimensions(siteId));
+  }
+
+  /**
+   * Reads `CustomDimensions.getCustomDimension` for a dimension referenced by id or name, so callers
+   * can ask for "plan tier" without knowing it is `dimension3`.
+   */
+  async getCustomDimension(input: GetCustomDimensionInput): Promise<CustomDimensionReport> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const dimension = resolveCustomDimension(input.customDimension, await this.listCustomDimensions({ siteId }));
+    const request: Parameters<ReportsService['getCustomDimension']>[0] = {
+      siteId,
+      idDimension: dimension.id,
+      period: input.period ?? 'day',
+      date: input.date ?? 'today',
+    };
+    if (input.segment !== undefined) {
+      request.segment = input.segment;
+    }
+    if (input.limit !== undefined) {
+      request.limit = input.limit;
+    }
+
+    return { dimension, rows: await this.reports.getCustomDimension(request) };
+  }
+
+  /**
+   * Lists the reports the site's active plugins provide, with dimensions, metrics, and Matomo's
+   * own documentation. Pass `category` to narrow the catalogue by category or subcategory name.
+   */
+  async listAvailableReports(input: ListAvailableReportsInput = {}): Promise<AvailableReport[]> {
+    const siteId = this.resolveSiteId(input.siteId);
+    const [metadata, pages] = await Promise.all([
+      this.reports.getReportMetadata(siteId),
+      // Page placement is a nice-to-have; older Matomo releases lack the pages API.
+      this.reports.getReportPagesMetadata(siteId).catch(error => {
+        sdkLogger.debug('Failed to load Matomo report pages metadata', { siteId, error });
+        return [];
+      }),
+    ]);
+
+    const reports = buildReportCatalogue(metadata, pages);
+    const category = input.category?.trim().toLowerCase();
+    if (!category) {
+      return reports;
+    }
+    return reports.filter(report =>
+      [report.category, report.subcategory].some(name => name?.toLowerCase().includes(category))
+    );
+  }
+
+  private async assertReportMethodAllowed(method: string, siteId: number): Promise<void> {
+    if (this.reportAllowlist.some(pattern => matchesMethodPattern(method, pattern))) {
+      return;
+    }
+
+    if (this.reportMetadataFallback) {
+      try {
+        const catalogue = buildReportCatalogue(await this.reports.getReportMetadata(siteId));
+        if (catalogue.some(report => report.method.toLowerCase() === method.toLowerCase())) {
+          return;
+        }
+      } catch (error) {
+        sdkLogger.debug('Failed to load Matomo report metadata for allowlist check', { siteId, method, error });
+      }
+    }
+
+    throw new ReportMethodError(
+      method,
+      `Matomo method "${method}" is not in the report allowlist. Call API.getReportMetadata to see the reports available for this site.`
+    );
+  }
+
   getCacheStats(): CacheStatsSnapshot {
     return this.reports.getCacheStats();
   }
@@ -1344,9 +3117,28 @@ export class MatomoClient {
 
     checks.push(siteCheck);
 
+    if (siteCheck.status === 'ok') {
+      checks.push(await this.checkReportPlugins(siteIdForCheck));
+    }
+
     return { checks };
   }
 
+  private async checkReportPlugins(siteId: number): Promise<MatomoDiagnosticCheck> {
+    const id = 'report-plugins';
+    const label = 'Reporting plugins';
+    try {
+      const reports = await this.listAvailableReports({ siteId });
+      const missingPlugins = findMissingReportPlugins(reports);
+      const details = missingPlugins.length > 0 ? { reports: reports.length, missingPlugins } : { reports: reports.length };
+      // Plugins with a fallback are still listed, but only required ones turn the check into a warning.
+      const status = missingPlugins.every(plugin => plugin.fallback !== undefined) ? 'ok' : 'warning';
+      return { id, label, status, details };
+    } catch (error) {
+      return { id, label, status: 'error', error: toDiagnosticError(error) };
+    }
+  }
+
   async getHealthStatus(input: GetHealthStatusInput = {}): Promise<HealthCheckStatus> {
     const timestamp = new Date().toISOString();
     const checks: HealthCheck[] = [];
@@ -1469,12 +3261,43 @@ export type {
   MostPopularUrl,
   EventSummary,
   EntryPage,
+  ExitPage,
+  PageTransitions,
+  PageTransition,
   DeviceTypeSummary,
   TopReferrer,
   EventCategory,
+  VisitorLocation,
+  TechnologyBreakdownRow,
+  EngagementDistributionRow,
+  ProductPerformanceRow,
+  CustomDimension,
+  CustomDimensionReport,
+  CustomDimensionRow,
+  Goal,
+  GoalBreakdown,
+  GoalBreakdownRow,
+  ReferrerDetailRow,
+  CampaignBreakdown,
+  LiveCounters,
+  RecentVisit,
+  RealtimeActivity,
+  UserFlowReport,
+  UserFlowPath,
+  UserFlowStep,
+  VisitorFrequency,
+  ConversionLagRow,
+  CohortRetention,
+  SiteSearchRow,
+  SiteSearchOverview,
+  PageFollowingSearch,
+  PageTitle,
+  Outlink,
+  Download,
   CacheStatsSnapshot,
   CacheEvent,
   EcommerceRevenueTotalsInput,
+  FunnelDefinition,
   FunnelSummary,
   FunnelStepSummary,
   MatomoRateLimitEvent,
@@ -1482,7 +3305,112 @@ export type {
 
 export type { MatomoRateLimitOptions } from './httpClient.js';
 
+export { comparisonModes, isComparisonMode, resolveComparisonWindow, resolveComparisonWindows } from './comparison.js';
+export type {
+  ComparedListReport,
+  ComparedRecordReport,
+  ComparedRow,
+  ComparisonInput,
+  ComparisonMode,
+  ComparisonWindow,
+  DeltaDirection,
+  MetricDelta,
+} from './comparison.js';
+
+export { buildSiteComparison } from './siteComparison.js';
+export type {
+  SiteComparisonReport,
+  SiteComparisonRow,
+  SiteComparisonTotals,
+  SiteMetricCell,
+} from './siteComparison.js';
+export {
+  campaignBreakdownSchema,
+  campaignsSchema,
+  cohortRetentionSchema,
+  conversionLagSchema,
+  customDimensionReportSchema,
+  customDimensionsSchema,
+  deviceTypesSchema,
+  diagnosticsSchema,
+  downloadsSchema,
+  engagementDistributionSchema,
+  ecommerceSummarySchema,
+  entryPagesSchema,
+  exitPagesSchema,
+  eventCategoriesSchema,
+  eventsSchema,
+  funnelAnalyticsSchema,
+  funnelDefinitionsSchema,
+  goalBreakdownSchema,
+  goalConversionsSchema,
+  goalsSchema,
+  healthStatusSchema,
+  keyNumbersSchema,
+  liveCountersSchema,
+  matomoReportSchema,
+  monetaryValueSchema,
+  mostPopularUrlsSchema,
+  outlinksSchema,
+  pageTitlesSchema,
+  pageTransitionsSchema,
+  productPerformanceSchema,
+  realtimeActivitySchema,
+  recentVisitsSchema,
+  referrerDetailsSchema,
+  siteComparisonSchema,
+  siteSearchOverviewSchema,
+  sitesSchema,
+  topReferrersSchema,
+  trafficChannelsSchema,
+  technologyBreakdownSchema,
+  userFlowSchema,
+  visitFrequencySchema,
+  visitorLocationsSchema,
+} from './schemas.js';
+export {
+  engagementDistributions,
+  productDimensions,
+  referrerDetailTypes,
+  resolveReferrerDetailType,
+  technologyDimensions,
+} from './reports.js';
+export type { EngagementDistribution, ProductDimension, ReferrerDetailType, TechnologyDimension } from './reports.js';
+export { SiteRegistry, UnknownSiteError, normalizeSiteKey, parseSiteMap } from './sites.js';
+export { UnknownCustomDimensionError } from './customDimensions.js';
+export { UnknownGoalError, goalBreakdownDimensions } from './goals.js';
+export { UnknownFunnelError } from './funnels.js';
+export type { GoalBreakdownDimension } from './goals.js';
+export type { SiteDefinition } from './sites.js';
+
+export {
+  DEFAULT_REPORT_ALLOWLIST,
+  ReportMethodError,
+  isForbiddenReportMethod,
+  matchesMethodPattern,
+  normalizeDataTable,
+  parseReportAllowlist,
+} from './passthrough.js';
+export type { DataTableRow, DataTableScalar, NormalizedDataTable } from './passthrough.js';
+export { REPORT_PLUGIN_FEATURES, buildReportCatalogue } from './reportMetadata.js';
+export type { AvailableReport, MissingReportPlugin, ReportMetricInfo, ReportPluginFeature } from './reportMetadata.js';
+
+export {
+  PeriodError,
+  isMatomoPeriod,
+  isRelativeDate,
+  matomoPeriods,
+  parsePeriod,
+  precedingPeriodWindow,
+  resolvePeriodLabel,
+  resolvePeriodWindow,
+  shiftPeriodWindow,
+  todayInTimezone,
+} from './periods.js';
+export type { DateWindow, MatomoPeriod, PeriodInput, PeriodOptions, PeriodUnit, PeriodWindow } from './periods.js';
+
 export {
+  InvalidInputError,
   MatomoApiError,
   MatomoAuthError,
   MatomoPermissionError,
@@ -0,0 +1,238 @@
+import { resolvePeriodLabel } from './periods.js';
+
+export class ReportMethodError extends Error {
+  readonly status = 400;
+  readonly method: string;
+
+  constructor(method: string, message: string) {
+    super(message);
+    this.name = 'ReportMethodError';
+    this.method = method;
+  }
+}
+
+/**
+ * Read-only reporting APIs callable through `runReport` unless the operator overrides the list.
+ * `Live.*` is left out on purpose: it returns visitor-level details rather than aggregates.
+ */
+export const DEFAULT_REPORT_ALLOWLIST: readonly string[] = [
+  'API.getReportMetadata',
+  'API.getReportPagesMetadata',
+  'API.getSegmentsMetadata',
+  'Actions.get*',
+  'Contents.get*',
+  'CustomDimensions.get*',
+  'DevicePlugins.get*',
+  'DevicesDetection.get*',
+  'Events.get*',
+  'Funnels.get*',
+  'Goals.get*',
+  'MarketingCampaignsReporting.get*',
+  'MultiSites.get*',
+  'Referrers.get*',
+  'Resolution.get*',
+  'Transitions.get*',
+  'UserCountry.get*',
+  'UserLanguage.get*',
+  'UsersFlow.get*',
+  'VisitFrequency.get*',
+  'VisitTime.get*',
+  'VisitorInterest.get*',
+  'VisitsSummary.get*',
+];
+
+// Denied even when an allowlist entry or the report metadata matches. Bulk requests are included
+// because they would let a caller smuggle any method past the per-method check.
+const FORBIDDEN_REPORT_METHODS: readonly string[] = [
+  'UsersManager.*',
+  'SitesManager.add*',
+  'SitesManager.delete*',
+  'SitesManager.set*',
+  'SitesManager.update*',
+  'CoreAdminHome.*',
+  'Login.*',
+  'TwoFactorAuth.*',
+  'API.getBulkRequest',
+  '*.add*',
+  '*.create*',
+  '*.delete*',
+  '*.invalidate*',
+  '*.remove*',
+  '*.save*',
+  '*.set*',
+  '*.update*',
+];
+
+// Parameters owned by the client; letting callers set them would bypass the method and auth checks.
+const RESERVED_REPORT_PARAMS = new Set(
+  ['module', 'method', 'format', 'token_auth', 'force_api_session', 'idSite', 'period', 'date', 'segment', 'filter_limit'].map(
+    key => key.toLowerCase()
+  )
+);
+
+const METHOD_PATTERN = /^[A-Za-z][A-Za-z0-9]*\.[A-Za-z][A-Za-z0-9]*$/;
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[A-Za-z0-9]*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Matches `Module.action` against an allowlist entry; `*` matches any run of letters or digits. */
+export function matchesMethodPattern(method: string, pattern: string): boolean {
+  return globToRegExp(pattern.trim()).test(method);
+}
+
+export function isForbiddenReportMethod(method: string): boolean {
+  return FORBIDDEN_REPORT_METHODS.some(pattern => matchesMethodPattern(method, pattern));
+}
+
+/**
+ * Parses a comma-separated allowlist. The `default` entry expands to `DEFAULT_REPORT_ALLOWLIST`,
+ * so operators can extend the built-in list without copying it.
+ */
+export function parseReportAllowlist(value: string): string[] {
+  const entries = new Set<string>();
+  for (const raw of value.split(',')) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    if (entry.toLowerCase() === 'default') {
+      DEFAULT_REPORT_ALLOWLIST.forEach(pattern => entries.add(pattern));
+      continue;
+    }
+    entries.add(entry);
+  }
+  return [...entries];
+}
+
+/** Validates the method name and rejects write APIs. Allowlist membership is checked separately. */
+export function assertReportMethodShape(method: string): void {
+  if (!METHOD_PATTERN.test(method)) {
+    throw new ReportMethodError(method, `Invalid Matomo method "${method}". Use the Module.action form, e.g. "UserCountry.getCountry".`);
+  }
+  if (isForbiddenReportMethod(method)) {
+    throw new ReportMethodError(method, `Matomo method "${method}" is not allowed: only read-only reporting APIs can be called.`);
+  }
+}
+
+export function assertReportParams(method: string, params: Record<string, unknown>): void {
+  for (const key of Object.keys(params)) {
+    if (RESERVED_REPORT_PARAMS.has(key.toLowerCase())) {
+      throw new ReportMethodError(
+        method,
+        `Parameter "${key}" cannot be passed through params; use the dedicated siteId, period, date, segment, or limit fields.`
+      );
+    }
+  }
+}
+
+function readParam(params: Record<string, unknown>, name: string): string | undefined {
+  const entry = Object.entries(params).find(([key]) => key.toLowerCase() === name.toLowerCase());
+  return entry === undefined ? undefined : String(entry[1]).trim();
+}
+
+/**
+ * Returns the report a proxy such as `API.getProcessedReport` or `API.getRowEvolution` would run
+ * for its `apiModule`/`apiAction` params, so it can be checked like a direct call.
+ */
+export function resolveProxiedReportMethod(method: string, params: Record<string, unknown>): string | undefined {
+  const apiModule = readParam(params, 'apiModule');
+  const apiAction = readParam(params, 'apiAction');
+  if (apiModule === undefined && apiAction === undefined) {
+    return undefined;
+  }
+  if (!apiModule || !apiAction) {
+    throw new ReportMethodError(method, 'Parameters "apiModule" and "apiAction" must be passed together.');
+  }
+  return `${apiModule}.${apiAction}`;
+}
+
+export type DataTableScalar = string | number | boolean | null;
+
+export interface DataTableRow {
+  [key: string]: DataTableScalar | DataTableRow | Array<DataTableScalar | DataTableRow>;
+}
+
+/**
+ * Shapes a Matomo DataTable payload can take: a list of rows, a single-row record, a bare value,
+ * or a period-keyed series of any of those (`date=last7` and friends).
+ */
+export type NormalizedDataTable =
+  | { type: 'table'; rows: DataTableRow[] }
+  | { type: 'record'; values: DataTableRow }
+  | { type: 'value'; value: DataTableScalar }
+  | { type: 'series'; series: Array<{ period: string; report: NormalizedDataTable }> };
+
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/;
+
+function normalizeScalar(value: unknown): DataTableScalar {
+  if (typeof value === 'string') {
+    return NUMERIC_STRING.test(value.trim()) ? Number(value) : value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return null;
+}
+
+function normalizeValue(value: unknown): DataTableScalar | DataTableRow | Array<DataTableScalar | DataTableRow> {
+  if (Array.isArray(value)) {
+    return value.map(item => (isPlainObject(item) ? normalizeRow(item) : normalizeScalar(item)));
+  }
+  if (isPlainObject(value)) {
+    return normalizeRow(value);
+  }
+  return normalizeScalar(value);
+}
+
+function normalizeRow(row: Record<string, unknown>): DataTableRow {
+  const normalized: DataTableRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    // Labels such as years or HTTP codes look numeric but are names, not metrics.
+    normalized[key] = key === 'label' && typeof value === 'string' ? value : normalizeValue(value);
+  }
+  return normalized;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPeriodSeries(payload: Record<string, unknown>): boolean {
+  const entries = Object.entries(payload);
+  return (
+    entries.length > 0 &&
+    entries.every(([key, value]) => resolvePeriodLabel(key) !== undefined && (Array.isArray(value) || isPlainObject(value)))
+  );
+}
+
+/**
+ * Generic normalizer for Matomo DataTable responses. Numeric strings become numbers; labels,
+ * nested subtables, and unknown columns are kept so callers can inspect any report.
+ */
+export function normalizeDataTable(payload: unknown): NormalizedDataTable {
+  if (Array.isArray(payload)) {
+    return {
+      type: 'table',
+      rows: payload.map(row => (isPlainObject(row) ? normalizeRow(row) : { value: normalizeScalar(row) })),
+    };
+  }
+
+  if (isPlainObject(payload)) {
+    const keys = Object.keys(payload);
+    if (keys.length === 1 && keys[0] === 'value') {
+      return { type: 'value', value: normalizeScalar(payload.value) };
+    }
+    if (isPeriodSeries(payload)) {
+      return {
+        type: 'series',
+        series: Object.entries(payload).map(([period, report]) => ({ period, report: normalizeDataTable(report) })),
+      };
+    }
+    return { type: 'record', values: normalizeRow(payload) };
+  }
+
+  return { type: 'value', value: normalizeScalar(payload) };
+}
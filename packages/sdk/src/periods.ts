@@ -0,0 +1,293 @@
+export type MatomoPeriod = 'day' | 'week' | 'month' | 'year' | 'range';
+
+export type PeriodUnit = Exclude<MatomoPeriod, 'range'>;
+
+export const matomoPeriods: readonly MatomoPeriod[] = ['day', 'week', 'month', 'year', 'range'];
+
+export function isMatomoPeriod(value: unknown): value is MatomoPeriod {
+  return typeof value === 'string' && (matomoPeriods as readonly string[]).includes(value);
+}
+
+export class PeriodError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeriodError';
+  }
+}
+
+export interface PeriodInput {
+  period: string;
+  date: string;
+}
+
+export interface PeriodOptions {
+  /** Site timezone (IANA name or Matomo `UTC+N` offset). Defaults to UTC. */
+  timezone?: string;
+  now?: Date;
+}
+
+/** Inclusive calendar window expressed as `YYYY-MM-DD` dates. */
+export interface DateWindow {
+  start: string;
+  end: string;
+}
+
+export interface PeriodWindow extends DateWindow {
+  period: MatomoPeriod;
+  /** Concrete Matomo `date` parameter that selects exactly this window. */
+  date: string;
+  /** Calendar unit the window is aligned to (`day` for ranges). */
+  unit: PeriodUnit;
+  /** Number of units covered. */
+  units: number;
+  /** Whether Matomo answers with one row per unit (`lastN`, `previousN` or `start,end` on a non-range period). */
+  series: boolean;
+}
+
+const DAY_MS = 86_400_000;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_DATE_PATTERN = /^(last|previous)(\d+)$/;
+const UTC_OFFSET_PATTERN = /^utc([+-]\d+(?:\.\d+)?)?$/;
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseIsoDate(value: string): Date | undefined {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match) return undefined;
+
+  const parsed = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return formatIsoDate(parsed) === value ? parsed : undefined;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDayOfTarget = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDayOfTarget)));
+}
+
+function addUnits(date: Date, unit: PeriodUnit, amount: number): Date {
+  switch (unit) {
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month':
+      return addMonths(date, amount);
+    case 'year':
+      return addMonths(date, amount * 12);
+    default:
+      return addDays(date, amount);
+  }
+}
+
+function startOfUnit(date: Date, unit: PeriodUnit): Date {
+  switch (unit) {
+    case 'week':
+      // Matomo weeks run Monday to Sunday.
+      return addDays(date, -((date.getUTCDay() + 6) % 7));
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    case 'year':
+      return new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+    default:
+      return date;
+  }
+}
+
+function endOfUnit(date: Date, unit: PeriodUnit): Date {
+  return addDays(addUnits(startOfUnit(date, unit), unit, 1), -1);
+}
+
+function countUnits(start: Date, end: Date, unit: PeriodUnit): number {
+  switch (unit) {
+    case 'week':
+      return Math.round((end.getTime() - start.getTime() + DAY_MS) / (7 * DAY_MS));
+    case 'month':
+      return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+    case 'year':
+      return end.getUTCFullYear() - start.getUTCFullYear() + 1;
+    default:
+      return Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  }
+}
+
+function buildWindow(period: MatomoPeriod, unit: PeriodUnit, start: Date, end: Date, series: boolean): PeriodWindow {
+  const startDate = formatIsoDate(start);
+  const endDate = formatIsoDate(end);
+  const units = countUnits(start, end, unit);
+  const date = series || period === 'range' ? `${startDate},${endDate}` : startDate;
+
+  return { period, date, start: startDate, end: endDate, unit, units, series };
+}
+
+/**
+ * Returns the current calendar date (`YYYY-MM-DD`) in the given timezone. Accepts IANA
+ * names and Matomo's fixed-offset zones (`UTC`, `UTC+5.5`); unknown zones fall back to UTC.
+ */
+export function todayInTimezone(timezone?: string, now: Date = new Date()): string {
+  const normalized = timezone?.trim();
+  if (!normalized) {
+    return formatIsoDate(now);
+  }
+
+  const offset = normalized.toLowerCase().match(UTC_OFFSET_PATTERN);
+  if (offset) {
+    const hours = offset[1] ? Number.parseFloat(offset[1]) : 0;
+    return formatIsoDate(new Date(now.getTime() + hours * 3_600_000));
+  }
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: normalized,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(now);
+    const lookup = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+    return `${lookup('year')}-${lookup('month')}-${lookup('day')}`;
+  } catch {
+    return formatIsoDate(now);
+  }
+}
+
+/** True when resolving `date` depends on the current day (and therefore the site timezone). */
+export function isRelativeDate(date: string): boolean {
+  return date
+    .split(',')
+    .map(part => part.trim().toLowerCase())
+    .some(part => part === 'today' || part === 'yesterday' || RELATIVE_DATE_PATTERN.test(part));
+}
+
+export function parsePeriod(period: string): MatomoPeriod {
+  const normalized = period.trim().toLowerCase();
+  if (!isMatomoPeriod(normalized)) {
+    throw new PeriodError(`Unsupported period "${period}". Expected one of: ${matomoPeriods.join(', ')}.`);
+  }
+  return normalized;
+}
+
+function parseSingleDate(value: string, today: Date): Date | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'today') return today;
+  if (normalized === 'yesterday') return addDays(today, -1);
+  // Matomo also accepts month shorthands such as `2025-01`, meaning the first of the month.
+  return parseIsoDate(/^\d{4}-\d{2}$/.test(normalized) ? `${normalized}-01` : normalized);
+}
+
+/**
+ * Resolves a Matomo `period`/`date` pair into the concrete calendar window Matomo reports on.
+ * Single dates expand to the enclosing day/week/month/year, `lastN` ends with the current unit,
+ * `previousN` ends with the unit before it, and explicit `start,end` ranges are aligned to whole units
+ * unless the period is `range`.
+ */
+export function resolvePeriodWindow(input: PeriodInput, options: PeriodOptions = {}): PeriodWindow {
+  const period = parsePeriod(input.period);
+  const unit: PeriodUnit = period === 'range' ? 'day' : period;
+  const series = period !== 'range';
+  const date = input.date.trim().toLowerCase();
+  const today = parseIsoDate(todayInTimezone(options.timezone, options.now)) as Date;
+  const invalidDate = () => new PeriodError(`Unsupported date "${input.date}" for period "${period}".`);
+
+  const relative = date.match(RELATIVE_DATE_PATTERN);
+  if (relative) {
+    const count = Number.parseInt(relative[2]!, 10);
+    if (count < 1) {
+      throw invalidDate();
+    }
+    const lastUnit = relative[1] === 'last' ? today : addUnits(startOfUnit(today, unit), unit, -1);
+    const end = endOfUnit(lastUnit, unit);
+    return buildWindow(period, unit, addUnits(startOfUnit(end, unit), unit, -(count - 1)), end, series);
+  }
+
+  if (date.includes(',')) {
+    const [rawStart = '', rawEnd = '', ...extra] = date.split(',');
+    const start = parseSingleDate(rawStart, today);
+    const end = parseSingleDate(rawEnd, today);
+    if (!start || !end || extra.length > 0 || start.getTime() > end.getTime()) {
+      throw invalidDate();
+    }
+    return buildWindow(period, unit, startOfUnit(start, unit), endOfUnit(end, unit), series);
+  }
+
+  const anchor = parseSingleDate(date, today);
+  if (!anchor || period === 'range') {
+    throw invalidDate();
+  }
+
+  return buildWindow(period, unit, startOfUnit(anchor, unit), endOfUnit(anchor, unit), false);
+}
+
+/**
+ * Moves a window by `amount` units (the window's own unit by default). Year shifts of
+ * week-aligned windows move by 52 weeks so the result still starts on a Monday.
+ */
+export function shiftPeriodWindow(window: PeriodWindow, amount: number, unit: PeriodUnit = window.unit): PeriodWindow {
+  const start = parseIsoDate(window.start) as Date;
+  const end = parseIsoDate(window.end) as Date;
+
+  if (window.unit === 'week' && unit === 'year') {
+    return buildWindow(window.period, window.unit, addDays(start, amount * 364), addDays(end, amount * 364), window.series);
+  }
+
+  if (window.unit === 'day') {
+    return buildWindow(window.period, window.unit, addUnits(start, unit, amount), addUnits(end, unit, amount), window.series);
+  }
+
+  return buildWindow(
+    window.period,
+    window.unit,
+    startOfUnit(addUnits(start, unit, amount), window.unit),
+    endOfUnit(addUnits(startOfUnit(end, window.unit), unit, amount), window.unit),
+    window.series
+  );
+}
+
+/** Returns the window of identical length that ends immediately before `window` starts. */
+export function precedingPeriodWindow(window: PeriodWindow): PeriodWindow {
+  if (window.unit === 'day') {
+    const end = addDays(parseIsoDate(window.start) as Date, -1);
+    return buildWindow(window.period, window.unit, addDays(end, -(window.units - 1)), end, window.series);
+  }
+
+  return shiftPeriodWindow(window, -window.units);
+}
+
+/**
+ * Maps a row label from a multi-period Matomo response (`2025-10-06,2025-10-12`, `2025-10`,
+ * `2025`, `2025-10-15`) back to its calendar window.
+ */
+export function resolvePeriodLabel(label: string): DateWindow | undefined {
+  const trimmed = label.trim();
+
+  if (trimmed.includes(',')) {
+    const [rawStart = '', rawEnd = ''] = trimmed.split(',');
+    const start = parseIsoDate(rawStart.trim());
+    const end = parseIsoDate(rawEnd.trim());
+    return start && end ? { start: formatIsoDate(start), end: formatIsoDate(end) } : undefined;
+  }
+
+  const day = parseIsoDate(trimmed);
+  if (day) {
+    return { start: trimmed, end: trimmed };
+  }
+
+  const month = trimmed.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const start = parseIsoDate(`${trimmed}-01`);
+    return start ? { start: formatIsoDate(start), end: formatIsoDate(endOfUnit(start, 'month')) } : undefined;
+  }
+
+  if (/^\d{4}$/.test(trimmed)) {
+    const start = new Date(Date.UTC(Number(trimmed), 0, 1));
+    return { start: formatIsoDate(start), end: formatIsoDate(endOfUnit(start, 'year')) };
+  }
+
+  return undefined;
+}
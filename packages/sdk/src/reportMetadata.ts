@@ -0,0 +1,156 @@
+export interface ReportMetricInfo {
+  id: string;
+  name: string;
+  documentation?: string;
+}
+
+/** One entry of the report catalogue Matomo exposes through `API.getReportMetadata`. */
+export interface AvailableReport {
+  /** `Module.action`, callable through `runReport`. */
+  method: string;
+  module: string;
+  action: string;
+  name: string;
+  category?: string;
+  subcategory?: string;
+  dimension?: string;
+  documentation?: string;
+  metrics: ReportMetricInfo[];
+  /** Fixed parameters that select this report variant, e.g. `{ idGoal: '1' }`. */
+  parameters?: Record<string, string>;
+  /** Matomo UI pages showing the report, as `Category > Subcategory`. */
+  pages?: string[];
+}
+
+export interface ReportPluginFeature {
+  feature: string;
+  /** What the SDK falls back to without the plugin; plugins without one make the related tools fail. */
+  fallback?: string;
+}
+
+export interface MissingReportPlugin extends ReportPluginFeature {
+  plugin: string;
+}
+
+/** Plugins whose reports back SDK helpers, keyed by the module name in the report catalogue. */
+export const REPORT_PLUGIN_FEATURES: Readonly<Record<string, ReportPluginFeature>> = {
+  Goals: { feature: 'goal conversions' },
+  Events: { feature: 'event reports' },
+  Funnels: { feature: 'funnel analytics' },
+  Cohorts: { feature: 'cohort retention' },
+  CustomDimensions: { feature: 'custom dimension reports' },
+  UsersFlow: { feature: 'user flow paths', fallback: 'paths stitched from Transitions' },
+  MarketingCampaignsReporting: {
+    feature: 'campaign source, medium, and content breakdown',
+    fallback: 'core Referrers campaigns (name and keyword only)',
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Matomo documentation strings embed HTML line breaks and emphasis.
+  const text = value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 0 ? text : undefined;
+}
+
+function readName(value: unknown): string | undefined {
+  if (typeof value === 'string') return readText(value);
+  return isRecord(value) ? readText(value.name) : undefined;
+}
+
+function collectMetrics(entry: Record<string, unknown>): ReportMetricInfo[] {
+  const documentation = isRecord(entry.metricsDocumentation) ? entry.metricsDocumentation : {};
+  const metrics: ReportMetricInfo[] = [];
+  const seen = new Set<string>();
+  for (const group of [entry.metrics, entry.processedMetrics]) {
+    if (!isRecord(group)) continue;
+    for (const [id, label] of Object.entries(group)) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const metric: ReportMetricInfo = { id, name: readText(label) ?? id };
+      const doc = readText(documentation[id]);
+      if (doc !== undefined) metric.documentation = doc;
+      metrics.push(metric);
+    }
+  }
+  return metrics;
+}
+
+function collectPageWidgets(widgets: unknown, page: string, pagesByMethod: Map<string, string[]>): void {
+  if (!Array.isArray(widgets)) return;
+  for (const widget of widgets) {
+    if (!isRecord(widget)) continue;
+    if (typeof widget.module === 'string' && typeof widget.action === 'string') {
+      const key = `${widget.module}.${widget.action}`.toLowerCase();
+      const pages = pagesByMethod.get(key) ?? [];
+      if (!pages.includes(page)) pages.push(page);
+      pagesByMethod.set(key, pages);
+    }
+    // Containers group several report widgets on one page.
+    collectPageWidgets(widget.widgets, page, pagesByMethod);
+  }
+}
+
+function indexReportPages(pagesPayload: unknown): Map<string, string[]> {
+  const pagesByMethod = new Map<string, string[]>();
+  if (!Array.isArray(pagesPayload)) return pagesByMethod;
+  for (const page of pagesPayload) {
+    if (!isRecord(page)) continue;
+    const label = [readName(page.category), readName(page.subcategory)].filter(Boolean).join(' > ');
+    if (label) collectPageWidgets(page.widgets, label, pagesByMethod);
+  }
+  return pagesByMethod;
+}
+
+/**
+ * Builds the report catalogue from `API.getReportMetadata`, annotated with the UI pages listed by
+ * `API.getReportPagesMetadata` when available. Entries without a module/action are skipped.
+ */
+export function buildReportCatalogue(metadataPayload: unknown, pagesPayload?: unknown): AvailableReport[] {
+  if (!Array.isArray(metadataPayload)) return [];
+  const pagesByMethod = indexReportPages(pagesPayload);
+
+  const reports: AvailableReport[] = [];
+  for (const entry of metadataPayload) {
+    if (!isRecord(entry) || typeof entry.module !== 'string' || typeof entry.action !== 'string') continue;
+
+    const method = `${entry.module}.${entry.action}`;
+    const report: AvailableReport = {
+      method,
+      module: entry.module,
+      action: entry.action,
+      name: readText(entry.name) ?? method,
+      metrics: collectMetrics(entry),
+    };
+    const category = readName(entry.category);
+    const subcategory = readName(entry.subcategory);
+    const dimension = readText(entry.dimension);
+    const documentation = readText(entry.documentation);
+    if (category !== undefined) report.category = category;
+    if (subcategory !== undefined) report.subcategory = subcategory;
+    if (dimension !== undefined) report.dimension = dimension;
+    if (documentation !== undefined) report.documentation = documentation;
+    if (isRecord(entry.parameters) && Object.keys(entry.parameters).length > 0) {
+      report.parameters = Object.fromEntries(Object.entries(entry.parameters).map(([key, value]) => [key, String(value)]));
+    }
+    const pages = pagesByMethod.get(method.toLowerCase());
+    if (pages) report.pages = pages;
+    reports.push(report);
+  }
+  return reports;
+}
+
+export function findMissingReportPlugins(reports: readonly AvailableReport[]): MissingReportPlugin[] {
+  const modules = new Set(reports.map(report => report.module.toLowerCase()));
+  return Object.entries(REPORT_PLUGIN_FEATURES)
+    .filter(([plugin]) => !modules.has(plugin.toLowerCase()))
+    .map(([plugin, feature]) => ({ plugin, ...feature }));
+}
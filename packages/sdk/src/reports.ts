@@ -1,27 +1,72 @@
 import { matomoGet, MatomoHttpClient } from './httpClient.js';
+import { normalizeDataTable, type NormalizedDataTable } from './passthrough.js';
 import {
   campaignsSchema,
+  citiesSchema,
+  countriesSchema,
   deviceTypesSchema,
   ecommerceSummarySchema,
   entryPagesSchema,
+  exitPagesSchema,
+  rawPageTransitionsSchema,
+  usersFlowSchema,
+  visitFrequencySchema,
+  conversionLagRowsSchema,
   eventCategoriesSchema,
   eventsSchema,
   mostPopularUrlsSchema,
   topReferrersSchema,
   trafficChannelsSchema,
   goalConversionsSchema,
+  goalConfigsSchema,
+  regionsSchema,
+  technologyRowsSchema,
+  referrerDetailRowsSchema,
+  engagementRowsSchema,
+  productRowsSchema,
+  customDimensionConfigsSchema,
+  rawLiveCountersSchema,
+  rawLiveVisitsSchema,
+  customDimensionRowsSchema,
+  pageTitlesSchema,
+  outlinksSchema,
+  downloadsSchema,
+  siteSearchRowsSchema,
+  pagesFollowingSearchSchema,
 } from './schemas.js';
 import type {
   RawCampaign,
   DeviceTypeSummary,
   RawEcommerceSummary,
   EntryPage,
+  ExitPage,
+  RawPageTransitions,
+  RawUsersFlowStep,
+  VisitorFrequency,
+  RawConversionLagRow,
   EventCategory,
   EventSummary,
   MostPopularUrl,
   TopReferrer,
   RawTrafficChannel,
   RawGoalConversion,
+  RawGoalConfig,
+  RawCity,
+  RawCountry,
+  RawRegion,
+  RawTechnologyRow,
+  RawReferrerDetailRow,
+  RawEngagementRow,
+  RawProductRow,
+  RawCustomDimensionConfig,
+  RawLiveCounters,
+  RawLiveVisit,
+  CustomDimensionRow,
+  PageTitle,
+  Outlink,
+  Download,
+  SiteSearchRow,
+  PageFollowingSearch,
 } from './schemas.js';
 
 export interface MostPopularUrlsInput {
@@ -59,6 +104,58 @@ export interface EntryPagesInput {
   segment?: string;
 }
 
+export interface ExitPagesInput {
+  siteId: number;
+  period: string;
+  date: string;
+  limit?: number;
+  segment?: string;
+}
+
+export interface PageTransitionsInput {
+  siteId: number;
+  /** Full page URL as tracked by Matomo. */
+  url: string;
+  period: string;
+  date: string;
+  segment?: string;
+  /** Rows kept per transition list before Matomo groups the rest into "Others". */
+  limit?: number;
+}
+
+export interface UsersFlowInput {
+  siteId: number;
+  period: string;
+  date: string;
+  segment?: string;
+}
+
+export interface VisitFrequencyInput {
+  siteId: number;
+  period: string;
+  date: string;
+  segment?: string;
+}
+
+export interface ConversionLagInput {
+  siteId: number;
+  period: string;
+  date: string;
+  segment?: string;
+  /** Goal id or `ecommerceOrder`; all goals when omitted. */
+  goalId?: string | number;
+}
+
+export interface CohortsInput {
+  siteId: number;
+  /** Week series selecting the cohorts, e.g. `last8` or `2025-07-07,2025-09-28`. */
+  date: string;
+  segment?: string;
+}
+
+/** Cohorts plugin metric read into the retention matrix. */
+export const COHORT_RETENTION_METRIC = 'Cohorts_returning_visitors_percent';
+
 export interface CampaignsInput {
   siteId: number;
   period: string;
@@ -67,6 +164,22 @@ export interface CampaignsInput {
   segment?: string;
 }
 
+export type CampaignDimension = 'name' | 'sourceMedium' | 'keywordContent' | 'keyword';
+
+// The first three need the MarketingCampaignsReporting plugin; `keyword` is the core campaign subtable.
+const CAMPAIGN_DIMENSION_METHODS: Record<CampaignDimension, string> = {
+  name: 'MarketingCampaignsReporting.getName',
+  sourceMedium: 'MarketingCampaignsReporting.getSourceMedium',
+  keywordContent: 'MarketingCampaignsReporting.getKeywordContentFromNameId',
+  keyword: 'Referrers.getKeywordsFromCampaignId',
+};
+
+export interface CampaignDimensionInput extends CampaignsInput {
+  dimension: CampaignDimension;
+  /** Parent campaign row for the `keywordContent` and `keyword` subtables. */
+  idSubtable?: number;
+}
+
 export interface EcommerceOverviewInput {
   siteId: number;
   period: string;
@@ -105,6 +218,132 @@ export interface DeviceTypesInput {
   segment?: string;
 }
 
+export interface LocationsInput {
+  siteId: number;
+  period: string;
+  date: string;
+  limit?: number;
+  segment?: string;
+}
+
+export type TechnologyDimension = 'browser' | 'os' | 'model' | 'resolution';
+
+const TECHNOLOGY_METHODS: Record<TechnologyDimension, string> = {
+  browser: 'DevicesDetection.getBrowsers',
+  os: 'DevicesDetection.getOsVersions',
+  model: 'DevicesDetection.getModel',
+  resolution: 'Resolution.getResolution',
+};
+
+export const technologyDimensions = Object.keys(TECHNOLOGY_METHODS) as readonly TechnologyDimension[];
+
+export interface TechnologyInput {
+  siteId: number;
+  dimension: TechnologyDimension;
+  period: string;
+  date: string;
+  segment?: string;
+}
+
+export type ReferrerDetailType = 'search_engines' | 'keywords' | 'websites' | 'social_networks';
+
+// Top-level report and the subtable method that expands one of its rows.
+const REFERRER_DETAIL_METHODS: Record<ReferrerDetailType, { report: string; subtable: string }> = {
+  search_engines: { report: 'Referrers.getSearchEngines', subtable: 'Referrers.getKeywordsFromSearchEngineId' },
+  keywords: { report: 'Referrers.getKeywords', subtable: 'Referrers.getSearchEnginesFromKeywordId' },
+  websites: { report: 'Referrers.getWebsites', subtable: 'Referrers.getUrlsFromWebsiteId' },
+  social_networks: { report: 'Referrers.getSocials', subtable: 'Referrers.getUrlsForSocial' },
+};
+
+export const referrerDetailTypes = Object.keys(REFERRER_DETAIL_METHODS) as readonly ReferrerDetailType[];
+
+/** Maps channel aliases such as `search`, `referral`, or `social` onto a drill-down report. */
+export function resolveReferrerDetailType(value: string): ReferrerDetailType | undefined {
+  const resolved = resolveChannelAlias(value);
+  return (referrerDetailTypes as readonly string[]).includes(resolved) ? (resolved as ReferrerDetailType) : undefined;
+}
+
+export interface ReferrerDetailsInput {
+  siteId: number;
+  referrerType: ReferrerDetailType;
+  period: string;
+  date: string;
+  segment?: string;
+  limit?: number;
+  /** Row `idsubdatatable` from the same period; reads that row's subtable instead of the top level. */
+  idSubtable?: number;
+}
+
+export type EngagementDistribution = 'hourOfDay' | 'dayOfWeek' | 'visitDuration' | 'pagesPerVisit';
+
+const ENGAGEMENT_METHODS: Record<EngagementDistribution, string> = {
+  hourOfDay: 'VisitTime.getVisitInformationPerServerTime',
+  dayOfWeek: 'VisitTime.getByDayOfWeek',
+  visitDuration: 'VisitorInterest.getNumberOfVisitsPerVisitDuration',
+  pagesPerVisit: 'VisitorInterest.getNumberOfVisitsPerPage',
+};
+
+export const engagementDistributions = Object.keys(ENGAGEMENT_METHODS) as readonly EngagementDistribution[];
+
+export interface EngagementInput {
+  siteId: number;
+  distribution: EngagementDistribution;
+  period: string;
+  date: string;
+  segment?: string;
+}
+
+export type ProductDimension = 'sku' | 'name' | 'category';
+
+const PRODUCT_METHODS: Record<ProductDimension, string> = {
+  sku: 'Goals.getItemsSku',
+  name: 'Goals.getItemsName',
+  category: 'Goals.getItemsCategory',
+};
+
+export const productDimensions = Object.keys(PRODUCT_METHODS) as readonly ProductDimension[];
+
+export interface ProductReportInput {
+  siteId: number;
+  dimension: ProductDimension;
+  period: string;
+  date: string;
+  segment?: string;
+  limit?: number;
+  /** Reports items left in abandoned carts instead of purchased items. */
+  abandonedCarts?: boolean;
+}
+
+export interface LiveCountersInput {
+  siteId: number;
+  lastMinutes: number;
+  segment?: string;
+}
+
+export interface LiveVisitsInput {
+  siteId: number;
+  limit: number;
+  segment?: string;
+}
+
+export interface CustomDimensionReportInput {
+  siteId: number;
+  idDimension: number;
+  period: string;
+  date: string;
+  segment?: string;
+  limit?: number;
+}
+
+/** Window shared by the `Actions.*` list reports: page titles, outlinks, downloads, and site search. */
+export interface ActionsReportInput {
+  siteId: number;
+  period: string;
+  date: string;
+  limit?: number;
+  segment?: string;
+}
+
 export interface TrafficChannelsInput {
   siteId: number;
   period: string;
@@ -167,6 +406,24 @@ export interface FunnelSummary {
   steps: FunnelStepSummary[];
 }
 
+/** An activated funnel as configured in Matomo, with its step definitions but no metrics. */
+export interface FunnelDefinition {
+  id: string;
+  label: string;
+  goalId?: string;
+  steps: FunnelStepSummary[];
+}
+
+export interface RunReportInput {
+  method: string;
+  siteId: number;
+  period: string;
+  date: string;
+  segment?: string;
+  limit?: number;
+  params?: Record<string, string | number | boolean>;
+}
+
 export interface CacheEvent {
   type: 'hit' | 'miss' | 'set' | 'stale-eviction';
   feature: string;
@@ -187,6 +444,9 @@ export interface CacheStatsSnapshot {
   features: Array<CacheStatsCounters & { feature: string; entries: number }>;
 }
 
+// The report catalogue only changes when plugins or goals change, so it outlives regular reports.
+const REPORT_METADATA_TTL_MS = 60 * 60_000;
+
 export interface ReportsServiceOptions {
   cacheTtlMs?: number;
   onCacheEvent?: (event: CacheEvent) => void;
@@ -270,26 +530,477 @@ export class ReportsService {
       return undefined;
     }
 
-    this.record(feature, 'hits');
-    this.emit({ type: 'hit', feature, key, expiresAt: entry.expiresAt, ttlMs: entry.expiresAt - Date.now() });
-    return entry.value as T;
-  }
+    this.record(feature, 'hits');
+    this.emit({ type: 'hit', feature, key, expiresAt: entry.expiresAt, ttlMs: entry.expiresAt - Date.now() });
+    return entry.value as T;
+  }
+
+  private setCache<T>(feature: string, key: string, value: T, ttlMs = this.cacheTtlMs) {
+    const expiresAt = Date.now() + ttlMs;
+    this.cache.set(key, { feature, value, expiresAt });
+    this.record(feature, 'sets');
+    this.emit({ type: 'set', feature, key, expiresAt, ttlMs });
+  }
+
+  async getMostPopularUrls(input: MostPopularUrlsInput): Promise<MostPopularUrl[]> {
+    const feature = 'popularUrls';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<MostPopularUrl[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<MostPopularUrl[]>(this.http, {
+      method: 'Actions.getPageUrls',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = mostPopularUrlsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getPageTitles(input: ActionsReportInput): Promise<PageTitle[]> {
+    const feature = 'pageTitles';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<PageTitle[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<PageTitle[]>(this.http, {
+      method: 'Actions.getPageTitles',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = pageTitlesSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getOutlinks(input: ActionsReportInput): Promise<Outlink[]> {
+    const feature = 'outlinks';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<Outlink[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<Outlink[]>(this.http, {
+      method: 'Actions.getOutlinks',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = outlinksSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getDownloads(input: ActionsReportInput): Promise<Download[]> {
+    const feature = 'downloads';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<Download[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<Download[]>(this.http, {
+      method: 'Actions.getDownloads',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = downloadsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getTopReferrers(input: TopReferrersInput): Promise<TopReferrer[]> {
+    const feature = 'topReferrers';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<TopReferrer[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<TopReferrer[]>(this.http, {
+      method: 'Referrers.getReferrerType',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = topReferrersSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getReferrerDetails(input: ReferrerDetailsInput): Promise<RawReferrerDetailRow[]> {
+    const feature = 'referrerDetails';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawReferrerDetailRow[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const methods = REFERRER_DETAIL_METHODS[input.referrerType];
+    const data = await matomoGet<RawReferrerDetailRow[]>(this.http, {
+      method: input.idSubtable === undefined ? methods.report : methods.subtable,
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idSubtable: input.idSubtable,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = referrerDetailRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getEvents(input: EventsInput): Promise<EventSummary[]> {
+    const feature = 'events';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<EventSummary[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<EventSummary[]>(this.http, {
+      method: 'Events.getAction',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+        eventCategory: input.category,
+        eventAction: input.action,
+        eventName: input.name,
+      },
+    });
+
+    const parsed = eventsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getEntryPages(input: EntryPagesInput): Promise<EntryPage[]> {
+    const feature = 'entryPages';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<EntryPage[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<EntryPage[]>(this.http, {
+      method: 'Actions.getEntryPageUrls',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = entryPagesSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getExitPages(input: ExitPagesInput): Promise<ExitPage[]> {
+    const feature = 'exitPages';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<ExitPage[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<ExitPage[]>(this.http, {
+      method: 'Actions.getExitPageUrls',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+        flat: 1,
+      },
+    });
+
+    const parsed = exitPagesSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getPageTransitions(input: PageTransitionsInput): Promise<RawPageTransitions> {
+    const feature = 'pageTransitions';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawPageTransitions>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawPageTransitions>(this.http, {
+      method: 'Transitions.getTransitionsForPageUrl',
+      params: {
+        idSite: input.siteId,
+        pageUrl: input.url,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        limitBeforeGrouping: input.limit,
+        parts: 'all',
+      },
+    });
+
+    const parsed = rawPageTransitionsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  /** Requires the UsersFlow plugin; Matomo reports the method as missing otherwise. */
+  async getUsersFlow(input: UsersFlowInput): Promise<RawUsersFlowStep[]> {
+    const feature = 'usersFlow';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawUsersFlowStep[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawUsersFlowStep[]>(this.http, {
+      method: 'UsersFlow.getUsersFlowPretty',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        expanded: 1,
+        dataSource: 'url',
+      },
+    });
+
+    const parsed = usersFlowSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getVisitFrequency(input: VisitFrequencyInput): Promise<VisitorFrequency> {
+    const feature = 'visitFrequency';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<VisitorFrequency>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<VisitorFrequency>(this.http, {
+      method: 'VisitFrequency.get',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+      },
+    });
+
+    const parsed = visitFrequencySchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getVisitsToConversion(input: ConversionLagInput): Promise<RawConversionLagRow[]> {
+    const feature = 'visitsToConversion';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawConversionLagRow[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawConversionLagRow[]>(this.http, {
+      method: 'Goals.getVisitsUntilConversion',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idGoal: input.goalId,
+      },
+    });
+
+    const parsed = conversionLagRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getDaysToConversion(input: ConversionLagInput): Promise<RawConversionLagRow[]> {
+    const feature = 'daysToConversion';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawConversionLagRow[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawConversionLagRow[]>(this.http, {
+      method: 'Goals.getDaysToConversion',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idGoal: input.goalId,
+      },
+    });
+
+    const parsed = conversionLagRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  /** Raw Cohorts plugin report by week; the payload shape varies with the date selector, see `buildCohortRetention`. */
+  async getCohorts(input: CohortsInput): Promise<unknown> {
+    const feature = 'cohorts';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<unknown>(feature, cacheKey);
+    if (cached !== undefined) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Cohorts.getCohorts',
+      params: {
+        idSite: input.siteId,
+        period: 'week',
+        date: input.date,
+        segment: input.segment,
+        metric: COHORT_RETENTION_METRIC,
+      },
+    });
+
+    this.setCache(feature, cacheKey, data);
+    return data;
+  }
+
+  async getCampaigns(input: CampaignsInput): Promise<RawCampaign[]> {
+    const feature = 'campaigns';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawCampaign[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawCampaign[]>(this.http, {
+      method: 'Referrers.getCampaigns',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = campaignsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getCampaignDimension(input: CampaignDimensionInput): Promise<RawCampaign[]> {
+    const feature = 'campaignDimension';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawCampaign[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawCampaign[]>(this.http, {
+      method: CAMPAIGN_DIMENSION_METHODS[input.dimension],
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idSubtable: input.idSubtable,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = campaignsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getEcommerceOverview(input: EcommerceOverviewInput): Promise<RawEcommerceSummary> {
+    const feature = 'ecommerceOverview';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawEcommerceSummary>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Goals.get',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idGoal: 'ecommerceOrder',
+      },
+    });
+
+    const summary = extractEcommerceSummary(data);
+    const parsed = ecommerceSummarySchema.parse(summary ?? {});
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getEcommerceRevenueTotals(input: EcommerceRevenueTotalsInput): Promise<RawEcommerceRevenueTotals> {
+    const feature = 'ecommerceRevenueTotals';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawEcommerceRevenueTotals>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Goals.get',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        idGoal: 'ecommerceOrder',
+      },
+    });
+
+    const entries = collectEcommerceSummaries(data);
+    const parsedEntries = entries.map(entry => ({
+      label: entry.label,
+      summary: ecommerceSummarySchema.parse(entry.value ?? {}),
+    }));
+
+    const summaries = parsedEntries.map(entry => entry.summary);
+    const totals = summaries.length > 0 ? aggregateEcommerceSummaries(summaries) : ecommerceSummarySchema.parse({ revenue: 0, nb_conversions: 0 });
 
-  private setCache<T>(feature: string, key: string, value: T) {
-    const expiresAt = Date.now() + this.cacheTtlMs;
-    this.cache.set(key, { feature, value, expiresAt });
-    this.record(feature, 'sets');
-    this.emit({ type: 'set', feature, key, expiresAt, ttlMs: this.cacheTtlMs });
+    const includeSeries = input.includeSeries ?? false;
+    const seriesCandidates = parsedEntries.filter(entry => entry.label !== '');
+    const series =
+      includeSeries || seriesCandidates.length > 1
+        ? seriesCandidates.map(entry => ({ label: entry.label, ...entry.summary }))
+        : undefined;
+
+    const result: RawEcommerceRevenueTotals = series ? { totals, series } : { totals };
+    this.setCache(feature, cacheKey, result);
+    return result;
   }
 
-  async getMostPopularUrls(input: MostPopularUrlsInput): Promise<MostPopularUrl[]> {
-    const feature = 'popularUrls';
+  async getEventCategories(input: EventCategoriesInput): Promise<EventCategory[]> {
+    const feature = 'eventCategories';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<MostPopularUrl[]>(feature, cacheKey);
+    const cached = this.getFromCache<EventCategory[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<MostPopularUrl[]>(this.http, {
-      method: 'Actions.getPageUrls',
+    const data = await matomoGet<EventCategory[]>(this.http, {
+      method: 'Events.getCategory',
       params: {
         idSite: input.siteId,
         period: input.period,
@@ -300,19 +1011,19 @@ export class ReportsService {
       },
     });
 
-    const parsed = mostPopularUrlsSchema.parse(data);
+    const parsed = eventCategoriesSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getTopReferrers(input: TopReferrersInput): Promise<TopReferrer[]> {
-    const feature = 'topReferrers';
+  async getDeviceTypes(input: DeviceTypesInput): Promise<DeviceTypeSummary[]> {
+    const feature = 'deviceTypes';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<TopReferrer[]>(feature, cacheKey);
+    const cached = this.getFromCache<DeviceTypeSummary[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<TopReferrer[]>(this.http, {
-      method: 'Referrers.getReferrerType',
+    const data = await matomoGet<DeviceTypeSummary[]>(this.http, {
+      method: 'DevicesDetection.getType',
       params: {
         idSite: input.siteId,
         period: input.period,
@@ -322,68 +1033,63 @@ export class ReportsService {
       },
     });
 
-    const parsed = topReferrersSchema.parse(data);
+    const parsed = deviceTypesSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getEvents(input: EventsInput): Promise<EventSummary[]> {
-    const feature = 'events';
+  async getCountries(input: LocationsInput): Promise<RawCountry[]> {
+    const feature = 'countries';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<EventSummary[]>(feature, cacheKey);
+    const cached = this.getFromCache<RawCountry[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<EventSummary[]>(this.http, {
-      method: 'Events.getAction',
+    const data = await matomoGet<RawCountry[]>(this.http, {
+      method: 'UserCountry.getCountry',
       params: {
         idSite: input.siteId,
         period: input.period,
         date: input.date,
         segment: input.segment,
         filter_limit: input.limit ?? 10,
-        flat: 1,
-        eventCategory: input.category,
-        eventAction: input.action,
-        eventName: input.name,
       },
     });
 
-    const parsed = eventsSchema.parse(data);
+    const parsed = countriesSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getEntryPages(input: EntryPagesInput): Promise<EntryPage[]> {
-    const feature = 'entryPages';
+  async getRegions(input: LocationsInput): Promise<RawRegion[]> {
+    const feature = 'regions';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<EntryPage[]>(feature, cacheKey);
+    const cached = this.getFromCache<RawRegion[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<EntryPage[]>(this.http, {
-      method: 'Actions.getEntryPageUrls',
+    const data = await matomoGet<RawRegion[]>(this.http, {
+      method: 'UserCountry.getRegion',
       params: {
         idSite: input.siteId,
         period: input.period,
         date: input.date,
         segment: input.segment,
         filter_limit: input.limit ?? 10,
-        flat: 1,
       },
     });
 
-    const parsed = entryPagesSchema.parse(data);
+    const parsed = regionsSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getCampaigns(input: CampaignsInput): Promise<RawCampaign[]> {
-    const feature = 'campaigns';
+  async getCities(input: LocationsInput): Promise<RawCity[]> {
+    const feature = 'cities';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<RawCampaign[]>(feature, cacheKey);
+    const cached = this.getFromCache<RawCity[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<RawCampaign[]>(this.http, {
-      method: 'Referrers.getCampaigns',
+    const data = await matomoGet<RawCity[]>(this.http, {
+      method: 'UserCountry.getCity',
       params: {
         idSite: input.siteId,
         period: input.period,
@@ -393,80 +1099,109 @@ export class ReportsService {
       },
     });
 
-    const parsed = campaignsSchema.parse(data);
+    const parsed = citiesSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getEcommerceOverview(input: EcommerceOverviewInput): Promise<RawEcommerceSummary> {
-    const feature = 'ecommerceOverview';
+  /** Fetches every row so callers can compute shares against all visits, not just the top N. */
+  async getTechnology(input: TechnologyInput): Promise<RawTechnologyRow[]> {
+    const feature = 'technology';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<RawEcommerceSummary>(feature, cacheKey);
+    const cached = this.getFromCache<RawTechnologyRow[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<unknown>(this.http, {
-      method: 'Goals.get',
+    const data = await matomoGet<RawTechnologyRow[]>(this.http, {
+      method: TECHNOLOGY_METHODS[input.dimension],
       params: {
         idSite: input.siteId,
         period: input.period,
         date: input.date,
         segment: input.segment,
-        idGoal: 'ecommerceOrder',
+        filter_limit: -1,
       },
     });
 
-    const summary = extractEcommerceSummary(data);
-    const parsed = ecommerceSummarySchema.parse(summary ?? {});
+    const parsed = technologyRowsSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getEcommerceRevenueTotals(input: EcommerceRevenueTotalsInput): Promise<RawEcommerceRevenueTotals> {
-    const feature = 'ecommerceRevenueTotals';
+  async getSiteSearchKeywords(input: ActionsReportInput): Promise<SiteSearchRow[]> {
+    const feature = 'siteSearchKeywords';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<RawEcommerceRevenueTotals>(feature, cacheKey);
+    const cached = this.getFromCache<SiteSearchRow[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<unknown>(this.http, {
-      method: 'Goals.get',
+    const data = await matomoGet<SiteSearchRow[]>(this.http, {
+      method: 'Actions.getSiteSearchKeywords',
       params: {
         idSite: input.siteId,
         period: input.period,
         date: input.date,
         segment: input.segment,
-        idGoal: 'ecommerceOrder',
+        filter_limit: input.limit ?? 10,
       },
     });
 
-    const entries = collectEcommerceSummaries(data);
-    const parsedEntries = entries.map(entry => ({
-      label: entry.label,
-      summary: ecommerceSummarySchema.parse(entry.value ?? {}),
-    }));
+    const parsed = siteSearchRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
 
-    const summaries = parsedEntries.map(entry => entry.summary);
-    const totals = summaries.length > 0 ? aggregateEcommerceSummaries(summaries) : ecommerceSummarySchema.parse({ revenue: 0, nb_conversions: 0 });
+  async getSiteSearchNoResultKeywords(input: ActionsReportInput): Promise<SiteSearchRow[]> {
+    const feature = 'siteSearchNoResultKeywords';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<SiteSearchRow[]>(feature, cacheKey);
+    if (cached) return cached;
 
-    const includeSeries = input.includeSeries ?? false;
-    const seriesCandidates = parsedEntries.filter(entry => entry.label !== '');
-    const series =
-      includeSeries || seriesCandidates.length > 1
-        ? seriesCandidates.map(entry => ({ label: entry.label, ...entry.summary }))
-        : undefined;
+    const data = await matomoGet<SiteSearchRow[]>(this.http, {
+      method: 'Actions.getSiteSearchNoResultKeywords',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+      },
+    });
 
-    const result: RawEcommerceRevenueTotals = series ? { totals, series } : { totals };
-    this.setCache(feature, cacheKey, result);
-    return result;
+    const parsed = siteSearchRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
   }
 
-  async getEventCategories(input: EventCategoriesInput): Promise<EventCategory[]> {
-    const feature = 'eventCategories';
+  async getSiteSearchCategories(input: ActionsReportInput): Promise<SiteSearchRow[]> {
+    const feature = 'siteSearchCategories';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<EventCategory[]>(feature, cacheKey);
+    const cached = this.getFromCache<SiteSearchRow[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<EventCategory[]>(this.http, {
-      method: 'Events.getCategory',
+    const data = await matomoGet<SiteSearchRow[]>(this.http, {
+      method: 'Actions.getSiteSearchCategories',
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = siteSearchRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  /** Flattened so each row is a destination URL rather than a folder of URLs. */
+  async getPagesFollowingSiteSearch(input: ActionsReportInput): Promise<PageFollowingSearch[]> {
+    const feature = 'pagesFollowingSiteSearch';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<PageFollowingSearch[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<PageFollowingSearch[]>(this.http, {
+      method: 'Actions.getPageUrlsFollowingSiteSearch',
       params: {
         idSite: input.siteId,
         period: input.period,
@@ -477,29 +1212,53 @@ export class ReportsService {
       },
     });
 
-    const parsed = eventCategoriesSchema.parse(data);
+    const parsed = pagesFollowingSearchSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
 
-  async getDeviceTypes(input: DeviceTypesInput): Promise<DeviceTypeSummary[]> {
-    const feature = 'deviceTypes';
+  /** Bucketed reports are small and ordered (hours, weekdays, ranges), so every row is fetched. */
+  async getEngagement(input: EngagementInput): Promise<RawEngagementRow[]> {
+    const feature = 'engagement';
     const cacheKey = this.makeCacheKey(feature, input);
-    const cached = this.getFromCache<DeviceTypeSummary[]>(feature, cacheKey);
+    const cached = this.getFromCache<RawEngagementRow[]>(feature, cacheKey);
     if (cached) return cached;
 
-    const data = await matomoGet<DeviceTypeSummary[]>(this.http, {
-      method: 'DevicesDetection.getType',
+    const data = await matomoGet<RawEngagementRow[]>(this.http, {
+      method: ENGAGEMENT_METHODS[input.distribution],
+      params: {
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: -1,
+      },
+    });
+
+    const parsed = engagementRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getProducts(input: ProductReportInput): Promise<RawProductRow[]> {
+    const feature = 'products';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<RawProductRow[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<RawProductRow[]>(this.http, {
+      method: PRODUCT_METHODS[input.dimension],
       params: {
         idSite: input.siteId,
         period: input.period,
         date: input.date,
         segment: input.segment,
+        abandonedCarts: input.abandonedCarts ? 1 : undefined,
         filter_limit: input.limit ?? 10,
       },
     });
 
-    const parsed = deviceTypesSchema.parse(data);
+    const parsed = productRowsSchema.parse(data);
     this.setCache(feature, cacheKey, parsed);
     return parsed;
   }
@@ -666,6 +1425,163 @@ export class ReportsService {
     this.setCache(feature, cacheKey, result);
     return result;
   }
+
+  async getFunnels(siteId: number): Promise<FunnelDefinition[]> {
+    const feature = 'funnelDefinitions';
+    const cacheKey = this.makeCacheKey(feature, { siteId });
+    const cached = this.getFromCache<FunnelDefinition[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Funnels.getAllActivatedFunnelsForSite',
+      params: { idSite: siteId },
+    });
+
+    const funnels = normalizeFunnelDefinitions(data);
+    // Funnel configuration changes about as rarely as goals and the report catalogue.
+    this.setCache(feature, cacheKey, funnels, Math.max(this.cacheTtlMs, REPORT_METADATA_TTL_MS));
+    return funnels;
+  }
+
+  // Live.* reads the raw log and changes by the second, so these two bypass the reports cache.
+  async getLiveCounters(input: LiveCountersInput): Promise<RawLiveCounters> {
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Live.getCounters',
+      params: {
+        idSite: input.siteId,
+        lastMinutes: input.lastMinutes,
+        segment: input.segment,
+      },
+    });
+
+    return rawLiveCountersSchema.parse(data)[0] ?? {};
+  }
+
+  async getLastVisits(input: LiveVisitsInput): Promise<RawLiveVisit[]> {
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Live.getLastVisitsDetails',
+      params: {
+        idSite: input.siteId,
+        segment: input.segment,
+        filter_limit: input.limit,
+      },
+    });
+
+    return rawLiveVisitsSchema.parse(data);
+  }
+
+  async getConfiguredCustomDimensions(siteId: number): Promise<RawCustomDimensionConfig[]> {
+    const feature = 'customDimensionConfigs';
+    const cacheKey = this.makeCacheKey(feature, { siteId });
+    const cached = this.getFromCache<RawCustomDimensionConfig[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'CustomDimensions.getConfiguredCustomDimensions',
+      params: { idSite: siteId },
+    });
+
+    const parsed = customDimensionConfigsSchema.parse(data);
+    // Dimension configuration changes about as rarely as the report catalogue.
+    this.setCache(feature, cacheKey, parsed, Math.max(this.cacheTtlMs, REPORT_METADATA_TTL_MS));
+    return parsed;
+  }
+
+  async getCustomDimension(input: CustomDimensionReportInput): Promise<CustomDimensionRow[]> {
+    const feature = 'customDimension';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<CustomDimensionRow[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<CustomDimensionRow[]>(this.http, {
+      method: 'CustomDimensions.getCustomDimension',
+      params: {
+        idSite: input.siteId,
+        idDimension: input.idDimension,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit ?? 10,
+      },
+    });
+
+    const parsed = customDimensionRowsSchema.parse(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
+
+  async getGoals(siteId: number): Promise<RawGoalConfig[]> {
+    const feature = 'goalConfigs';
+    const cacheKey = this.makeCacheKey(feature, { siteId });
+    const cached = this.getFromCache<RawGoalConfig[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'Goals.getGoals',
+      params: { idSite: siteId },
+    });
+
+    // Recent Matomo versions key the goals by id instead of returning a list.
+    const goals = data && typeof data === 'object' && !Array.isArray(data) ? Object.values(data) : data;
+    const parsed = goalConfigsSchema.parse(goals);
+    this.setCache(feature, cacheKey, parsed, Math.max(this.cacheTtlMs, REPORT_METADATA_TTL_MS));
+    return parsed;
+  }
+
+  async getReportMetadata(siteId: number): Promise<unknown[]> {
+    const feature = 'reportMetadata';
+    const cacheKey = this.makeCacheKey(feature, { siteId });
+    const cached = this.getFromCache<unknown[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'API.getReportMetadata',
+      params: { idSite: siteId },
+    });
+
+    const parsed = Array.isArray(data) ? data : [];
+    this.setCache(feature, cacheKey, parsed, Math.max(this.cacheTtlMs, REPORT_METADATA_TTL_MS));
+    return parsed;
+  }
+
+  async getReportPagesMetadata(siteId: number): Promise<unknown[]> {
+    const feature = 'reportPagesMetadata';
+    const cacheKey = this.makeCacheKey(feature, { siteId });
+    const cached = this.getFromCache<unknown[]>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: 'API.getReportPagesMetadata',
+      params: { idSite: siteId },
+    });
+
+    const parsed = Array.isArray(data) ? data : [];
+    this.setCache(feature, cacheKey, parsed, Math.max(this.cacheTtlMs, REPORT_METADATA_TTL_MS));
+    return parsed;
+  }
+
+  async runReport(input: RunReportInput): Promise<NormalizedDataTable> {
+    const feature = 'report';
+    const cacheKey = this.makeCacheKey(feature, input);
+    const cached = this.getFromCache<NormalizedDataTable>(feature, cacheKey);
+    if (cached) return cached;
+
+    const data = await matomoGet<unknown>(this.http, {
+      method: input.method,
+      params: {
+        ...input.params,
+        idSite: input.siteId,
+        period: input.period,
+        date: input.date,
+        segment: input.segment,
+        filter_limit: input.limit,
+      },
+    });
+
+    const parsed = normalizeDataTable(data);
+    this.setCache(feature, cacheKey, parsed);
+    return parsed;
+  }
 }
 
 function normalizeTrafficChannelsResponse(raw: unknown): unknown {
@@ -984,6 +1900,34 @@ function coerceFunnelConfig(raw: unknown, context: FunnelSummaryInput, seen = ne
   return {};
 }
 
+function normalizeFunnelDefinitions(raw: unknown): FunnelDefinition[] {
+  const records = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? Object.values(raw) : [];
+
+  return records.flatMap(entry => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return [];
+    }
+
+    const lc = lowerCaseKeys(entry as Record<string, unknown>);
+    const id = getStringFromMap(lc, ['idfunnel', 'id_funnel', 'id']);
+    if (id === undefined) {
+      return [];
+    }
+
+    const label = getStringFromMap(lc, ['name', 'label', 'funnelname', 'funnel_name', 'title']);
+    const funnel: FunnelDefinition = {
+      id,
+      label: label ?? `Funnel ${id}`,
+      steps: normalizeFunnelDefinitionSteps(lc.get('steps')),
+    };
+    const goalId = getStringFromMap(lc, ['idgoal']);
+    if (goalId !== undefined) {
+      funnel.goalId = goalId;
+    }
+    return [funnel];
+  });
+}
+
 function normalizeFunnelMetrics(raw: unknown): PartialFunnelSummary {
   if (Array.isArray(raw)) {
     for (const item of raw) {
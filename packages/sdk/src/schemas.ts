@@ -2,6 +2,12 @@ import { z } from 'zod';
 
 const numeric = z.coerce.number();
 
+/** Shape of revenue fields after the client attaches the site currency. */
+export const monetaryValueSchema = z.object({
+  value: z.number(),
+  currency: z.string().nullable(),
+});
+
 export const keyNumbersSchema = z
   .object({
     nb_visits: numeric,
@@ -31,6 +37,29 @@ export type KeyNumbers = z.infer<typeof keyNumbersSchema>;
 
 export const keyNumbersSeriesSchema = z.record(keyNumbersSchema);
 
+export const visitFrequencySchema = z
+  .object({
+    nb_visits_new: numeric.optional(),
+    nb_uniq_visitors_new: numeric.optional(),
+    nb_actions_new: numeric.optional(),
+    nb_visits_converted_new: numeric.optional(),
+    bounce_rate_new: z.string().optional(),
+    nb_actions_per_visit_new: numeric.optional(),
+    avg_time_on_site_new: numeric.optional(),
+    nb_visits_returning: numeric.optional(),
+    nb_uniq_visitors_returning: numeric.optional(),
+    nb_actions_returning: numeric.optional(),
+    nb_visits_converted_returning: numeric.optional(),
+    bounce_rate_returning: z.string().optional(),
+    nb_actions_per_visit_returning: numeric.optional(),
+    avg_time_on_site_returning: numeric.optional(),
+    /** Percent of visits made by returning visitors; added by the client. */
+    returning_visits_share: z.number().optional(),
+  })
+  .passthrough();
+
+export type VisitorFrequency = z.infer<typeof visitFrequencySchema>;
+
 export const mostPopularUrlsSchema = z.array(
   z
     .object({
@@ -46,6 +75,44 @@ export const mostPopularUrlsSchema = z.array(
 
 export type MostPopularUrl = z.infer<typeof mostPopularUrlsSchema>[number];
 
+export const pageTitlesSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_hits: numeric.optional(),
+      nb_visits: numeric.optional(),
+      nb_uniq_visitors: numeric.optional(),
+      sum_time_spent: numeric.optional(),
+      avg_time_on_page: numeric.optional(),
+      bounce_rate: z.string().optional(),
+      exit_rate: z.string().optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type PageTitle = z.infer<typeof pageTitlesSchema>[number];
+
+// Outlinks and downloads share Matomo's link-click columns; `nb_hits` counts clicks.
+const linkClickSchema = z
+  .object({
+    label: z.string(),
+    url: z.string().optional(),
+    nb_hits: numeric.optional(),
+    nb_visits: numeric.optional(),
+    nb_uniq_visitors: numeric.optional(),
+    segment: z.string().optional(),
+  })
+  .passthrough();
+
+export const outlinksSchema = z.array(linkClickSchema);
+
+export type Outlink = z.infer<typeof outlinksSchema>[number];
+
+export const downloadsSchema = z.array(linkClickSchema);
+
+export type Download = z.infer<typeof downloadsSchema>[number];
+
 export const topReferrersSchema = z.array(
   z
     .object({
@@ -59,6 +126,47 @@ export const topReferrersSchema = z.array(
 
 export type TopReferrer = z.infer<typeof topReferrersSchema>[number];
 
+export const referrerDetailRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_visits: numeric.optional(),
+      nb_uniq_visitors: numeric.optional(),
+      nb_actions: numeric.optional(),
+      nb_visits_converted: numeric.optional(),
+      sum_visit_length: numeric.optional(),
+      bounce_count: numeric.optional(),
+      url: z.string().optional(),
+      idsubdatatable: numeric.optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type RawReferrerDetailRow = z.infer<typeof referrerDetailRowsSchema>[number];
+
+/**
+ * Search engines, keywords, websites, or social networks. `idSubtable` drills into a row: keywords
+ * for an engine, engines for a keyword, or landing URLs for a website or network.
+ */
+export const referrerDetailsSchema = z.array(
+  z.object({
+    label: z.string(),
+    nb_visits: z.number(),
+    nb_uniq_visitors: z.number().optional(),
+    nb_actions: z.number().optional(),
+    nb_visits_converted: z.number().optional(),
+    conversion_rate: z.number().optional(),
+    bounce_rate: z.number().optional(),
+    avg_time_on_site: z.number().optional(),
+    url: z.string().optional(),
+    idSubtable: z.number().optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type ReferrerDetailRow = z.infer<typeof referrerDetailsSchema>[number];
+
 export const eventsSchema = z.array(
   z
     .object({
@@ -103,6 +211,192 @@ export const entryPagesSchema = z.array(
 
 export type EntryPage = z.infer<typeof entryPagesSchema>[number];
 
+export const exitPagesSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      url: z.string().optional(),
+      nb_visits: numeric.optional(),
+      nb_uniq_visitors: numeric.optional(),
+      nb_hits: numeric.optional(),
+      sum_time_spent: numeric.optional(),
+      exit_nb_uniq_visitors: numeric.optional(),
+      exit_nb_visits: numeric.optional(),
+      avg_time_on_page: numeric.optional(),
+      exit_rate: z.string().optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type ExitPage = z.infer<typeof exitPagesSchema>[number];
+
+const rawTransitionSchema = z
+  .object({
+    label: z.string(),
+    referrals: numeric.optional(),
+    url: z.string().optional(),
+  })
+  .passthrough();
+
+export type RawTransition = z.infer<typeof rawTransitionSchema>;
+
+export const rawPageTransitionsSchema = z
+  .object({
+    pageMetrics: z
+      .object({
+        pageviews: numeric.optional(),
+        entries: numeric.optional(),
+        exits: numeric.optional(),
+        loops: numeric.optional(),
+      })
+      .passthrough()
+      .optional(),
+    previousPages: z.array(rawTransitionSchema).optional(),
+    previousSiteSearches: z.array(rawTransitionSchema).optional(),
+    followingPages: z.array(rawTransitionSchema).optional(),
+    followingSiteSearches: z.array(rawTransitionSchema).optional(),
+    outlinks: z.array(rawTransitionSchema).optional(),
+    downloads: z.array(rawTransitionSchema).optional(),
+    referrers: z
+      .array(
+        rawTransitionSchema.extend({
+          shortName: z.string().optional(),
+          details: z.array(rawTransitionSchema).optional(),
+        })
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export type RawPageTransitions = z.infer<typeof rawPageTransitionsSchema>;
+
+const pageTransitionSchema = z.object({
+  label: z.string(),
+  count: z.number(),
+  /** Percent of the page's pageviews. */
+  share: z.number(),
+  url: z.string().optional(),
+});
+
+/** How visitors reach and leave one page; every `share` is a percentage of the page's pageviews. */
+export const pageTransitionsSchema = z.object({
+  url: z.string(),
+  pageviews: z.number(),
+  entries: z.number(),
+  entryShare: z.number(),
+  exits: z.number(),
+  exitShare: z.number(),
+  loops: z.number().optional(),
+  previousPages: z.array(pageTransitionSchema),
+  previousSiteSearches: z.array(pageTransitionSchema),
+  referrers: z.array(
+    pageTransitionSchema.extend({
+      details: z.array(pageTransitionSchema).optional(),
+    })
+  ),
+  nextPages: z.array(pageTransitionSchema),
+  nextSiteSearches: z.array(pageTransitionSchema),
+  outlinks: z.array(pageTransitionSchema),
+  downloads: z.array(pageTransitionSchema),
+});
+
+export type PageTransitions = z.infer<typeof pageTransitionsSchema>;
+export type PageTransition = PageTransitions['previousPages'][number];
+
+const usersFlowLinkSchema = z
+  .object({
+    label: z.string(),
+    nb_visits: numeric.optional(),
+  })
+  .passthrough();
+
+const usersFlowPageSchema = usersFlowLinkSchema.extend({
+  nb_proceeded: numeric.optional(),
+  nb_exits: numeric.optional(),
+  subtable: z.array(usersFlowLinkSchema).optional(),
+});
+
+/** `UsersFlow.getUsersFlowPretty` with `expanded=1`: one row per interaction step, pages and their next pages nested. */
+export const usersFlowSchema = z.array(
+  usersFlowPageSchema.extend({
+    subtable: z.array(usersFlowPageSchema).optional(),
+  })
+);
+
+export type RawUsersFlowStep = z.infer<typeof usersFlowSchema>[number];
+
+const userFlowStepSchema = z.object({
+  step: z.number(),
+  page: z.string(),
+  visits: z.number(),
+  /** Visits that left the site at this step. */
+  exits: z.number().optional(),
+  /** Visits that did not continue to the next step of this path. Omitted on the last step. */
+  dropOff: z.number().optional(),
+  dropOffRate: z.number().optional(),
+});
+
+/** Most common entry-to-exit paths; step visits past the second step are estimated from step-to-step flows. */
+export const userFlowSchema = z.object({
+  source: z.enum(['UsersFlow', 'Transitions']),
+  startUrl: z.string().optional(),
+  paths: z.array(
+    z.object({
+      pages: z.array(z.string()),
+      visits: z.number(),
+      steps: z.array(userFlowStepSchema),
+    })
+  ),
+});
+
+export type UserFlowReport = z.infer<typeof userFlowSchema>;
+export type UserFlowPath = UserFlowReport['paths'][number];
+export type UserFlowStep = z.infer<typeof userFlowStepSchema>;
+
+export const conversionLagRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_conversions: numeric.optional(),
+    })
+    .passthrough()
+);
+
+export type RawConversionLagRow = z.infer<typeof conversionLagRowsSchema>[number];
+
+/** Conversions bucketed by visits or days until converting, in Matomo's bucket order. */
+export const conversionLagSchema = z.array(
+  z.object({
+    label: z.string(),
+    nb_conversions: z.number(),
+    shareOfConversions: z.number(),
+  })
+);
+
+export type ConversionLagRow = z.infer<typeof conversionLagSchema>[number];
+
+/**
+ * First-visit cohorts by week. `retention[n]` is the percent of the cohort that returned `n` weeks
+ * after its first visit (index 0 is the first week itself); null where Matomo has no value yet.
+ */
+export const cohortRetentionSchema = z.object({
+  period: z.literal('week'),
+  /** False when the Cohorts plugin is not installed; `cohorts` is then empty. */
+  available: z.boolean(),
+  cohorts: z.array(
+    z.object({
+      cohort: z.string(),
+      visitors: z.number().optional(),
+      retention: z.array(z.number().nullable()),
+    })
+  ),
+  averageRetention: z.array(z.number().nullable()),
+});
+
+export type CohortRetention = z.infer<typeof cohortRetentionSchema>;
+export type CohortRetentionRow = CohortRetention['cohorts'][number];
+
 export const campaignsSchema = z.array(
   z
     .object({
@@ -111,12 +405,40 @@ export const campaignsSchema = z.array(
       nb_actions: numeric.optional(),
       nb_visits_converted: numeric.optional(),
       revenue: numeric.optional(),
+      idsubdatatable: numeric.optional(),
     })
     .passthrough()
 );
 
 export type RawCampaign = z.infer<typeof campaignsSchema>[number];
 
+const campaignMetricsShape = {
+  nb_visits: z.number(),
+  nb_actions: z.number().optional(),
+  nb_visits_converted: z.number().optional(),
+  conversion_rate: z.number().optional(),
+  revenue: monetaryValueSchema.optional(),
+};
+
+/**
+ * Campaigns split by UTM parameters. `source` names where the data came from: the
+ * MarketingCampaignsReporting plugin, or core `Referrers` campaigns, which only track name and keyword.
+ */
+export const campaignBreakdownSchema = z.object({
+  source: z.enum(['MarketingCampaignsReporting', 'Referrers']),
+  campaigns: z.array(
+    z.object({
+      name: z.string(),
+      ...campaignMetricsShape,
+      keywords: z.array(z.object({ keyword: z.string(), content: z.string().optional(), ...campaignMetricsShape })),
+    })
+  ),
+  sourceMedium: z.array(z.object({ source: z.string(), medium: z.string().optional(), ...campaignMetricsShape })),
+});
+
+export type CampaignBreakdown = z.infer<typeof campaignBreakdownSchema>;
+export type CampaignBreakdownRow = CampaignBreakdown['campaigns'][number];
+
 export const ecommerceSummarySchema = z
   .object({
     nb_conversions: numeric.optional(),
@@ -206,6 +528,442 @@ export const goalConversionsSchema = z.array(
 
 export type RawGoalConversion = z.infer<typeof goalConversionsSchema>[number];
 
+const locationRowSchema = z
+  .object({
+    label: z.string(),
+    nb_visits: numeric.optional(),
+    nb_uniq_visitors: numeric.optional(),
+    nb_actions: numeric.optional(),
+    nb_users: numeric.optional(),
+    nb_visits_converted: numeric.optional(),
+    sum_visit_length: numeric.optional(),
+    bounce_count: numeric.optional(),
+    revenue: numeric.optional(),
+    segment: z.string().optional(),
+  })
+  .passthrough();
+
+export const countriesSchema = z.array(locationRowSchema.extend({ code: z.string().optional() }));
+
+export const regionsSchema = z.array(
+  locationRowSchema.extend({
+    region: z.string().optional(),
+    region_name: z.string().optional(),
+    country: z.string().optional(),
+    country_name: z.string().optional(),
+  })
+);
+
+export const citiesSchema = z.array(
+  locationRowSchema.extend({
+    city_name: z.string().optional(),
+    region: z.string().optional(),
+    region_name: z.string().optional(),
+    country: z.string().optional(),
+    country_name: z.string().optional(),
+    lat: numeric.optional(),
+    long: numeric.optional(),
+  })
+);
+
+export type RawCountry = z.infer<typeof countriesSchema>[number];
+export type RawRegion = z.infer<typeof regionsSchema>[number];
+export type RawCity = z.infer<typeof citiesSchema>[number];
+
+/** Location rows after the client maps Matomo codes to ISO country codes and attaches the site currency. */
+export const visitorLocationsSchema = z.array(
+  z.object({
+    label: z.string(),
+    countryCode: z.string().length(2).optional(),
+    country: z.string().optional(),
+    regionCode: z.string().optional(),
+    region: z.string().optional(),
+    city: z.string().optional(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    nb_visits: z.number(),
+    nb_uniq_visitors: z.number().optional(),
+    nb_actions: z.number().optional(),
+    nb_visits_converted: z.number().optional(),
+    conversion_rate: z.number().optional(),
+    revenue: monetaryValueSchema.optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type VisitorLocation = z.infer<typeof visitorLocationsSchema>[number];
+
+export const technologyRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_visits: numeric.optional(),
+      nb_uniq_visitors: numeric.optional(),
+      nb_actions: numeric.optional(),
+      nb_visits_converted: numeric.optional(),
+      sum_visit_length: numeric.optional(),
+      bounce_count: numeric.optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type RawTechnologyRow = z.infer<typeof technologyRowsSchema>[number];
+
+/** Browser, OS, device model, or resolution rows with rates derived from the raw Matomo counters. */
+export const technologyBreakdownSchema = z.array(
+  z.object({
+    label: z.string(),
+    nb_visits: z.number(),
+    shareOfVisits: z.number(),
+    nb_uniq_visitors: z.number().optional(),
+    nb_actions: z.number().optional(),
+    nb_visits_converted: z.number().optional(),
+    conversion_rate: z.number().optional(),
+    bounce_rate: z.number().optional(),
+    avg_time_on_site: z.number().optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type TechnologyBreakdownRow = z.infer<typeof technologyBreakdownSchema>[number];
+
+/** Rows of `Actions.getSiteSearchKeywords`, `getSiteSearchNoResultKeywords`, and `getSiteSearchCategories`. */
+export const siteSearchRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_visits: numeric.optional(),
+      nb_pages_per_search: numeric.optional(),
+      exit_nb_visits: numeric.optional(),
+      exit_rate: z.string().optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type SiteSearchRow = z.infer<typeof siteSearchRowsSchema>[number];
+
+export const pagesFollowingSearchSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      url: z.string().optional(),
+      nb_hits_following_search: numeric.optional(),
+      nb_hits: numeric.optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type PageFollowingSearch = z.infer<typeof pagesFollowingSearchSchema>[number];
+
+/** Search terms, zero-result terms, categories, and the pages visitors opened after searching. */
+export const siteSearchOverviewSchema = z.object({
+  keywords: siteSearchRowsSchema,
+  noResultKeywords: siteSearchRowsSchema,
+  categories: siteSearchRowsSchema,
+  pagesFollowingSearch: pagesFollowingSearchSchema,
+});
+
+export type SiteSearchOverview = z.infer<typeof siteSearchOverviewSchema>;
+
+export const engagementRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      nb_visits: numeric.optional(),
+      nb_uniq_visitors: numeric.optional(),
+      nb_actions: numeric.optional(),
+      nb_visits_converted: numeric.optional(),
+      sum_visit_length: numeric.optional(),
+      bounce_count: numeric.optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type RawEngagementRow = z.infer<typeof engagementRowsSchema>[number];
+
+/** Visits per hour, weekday, visit duration, or pages per visit, in Matomo's bucket order. */
+export const engagementDistributionSchema = z.array(
+  z.object({
+    label: z.string(),
+    nb_visits: z.number(),
+    shareOfVisits: z.number(),
+    nb_uniq_visitors: z.number().optional(),
+    nb_actions: z.number().optional(),
+    nb_visits_converted: z.number().optional(),
+    conversion_rate: z.number().optional(),
+    bounce_rate: z.number().optional(),
+    avg_time_on_site: z.number().optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type EngagementDistributionRow = z.infer<typeof engagementDistributionSchema>[number];
+
+export const productRowsSchema = z.array(
+  z
+    .object({
+      label: z.string(),
+      revenue: numeric.optional(),
+      quantity: numeric.optional(),
+      orders: numeric.optional(),
+      abandoned_carts: numeric.optional(),
+      avg_price: numeric.optional(),
+      avg_quantity: numeric.optional(),
+      nb_visits: numeric.optional(),
+      conversion_rate: z.union([numeric, z.string()]).optional(),
+      segment: z.string().optional(),
+    })
+    .passthrough()
+);
+
+export type RawProductRow = z.infer<typeof productRowsSchema>[number];
+
+/**
+ * Ecommerce item rows by SKU, name, or category. `orders` is set for purchased items and
+ * `abandoned_carts` for abandoned-cart reports; revenue and prices carry the site currency.
+ */
+export const productPerformanceSchema = z.array(
+  z.object({
+    label: z.string(),
+    revenue: monetaryValueSchema.optional(),
+    quantity: z.number().optional(),
+    orders: z.number().optional(),
+    abandoned_carts: z.number().optional(),
+    avg_price: monetaryValueSchema.optional(),
+    avg_quantity: z.number().optional(),
+    nb_visits: z.number().optional(),
+    conversion_rate: z.string().optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type ProductPerformanceRow = z.infer<typeof productPerformanceSchema>[number];
+
+export const customDimensionConfigsSchema = z.array(
+  z
+    .object({
+      idcustomdimension: numeric,
+      name: z.string(),
+      index: numeric.optional(),
+      scope: z.string(),
+      active: z.union([z.boolean(), z.string(), z.number()]).optional(),
+    })
+    .passthrough()
+);
+
+export type RawCustomDimensionConfig = z.infer<typeof customDimensionConfigsSchema>[number];
+
+/** Custom dimensions configured for a site; `segment` is the `dimensionN` name segments use. */
+export const customDimensionsSchema = z.array(
+  z.object({
+    id: z.number(),
+    name: z.string(),
+    scope: z.string(),
+    index: z.number().optional(),
+    active: z.boolean(),
+    segment: z.string(),
+  })
+);
+
+export type CustomDimension = z.infer<typeof customDimensionsSchema>[number];
+
+export const customDimensionRowsSchema = z.array(
+  z.object({
+    label: z.string(),
+    nb_visits: numeric.optional(),
+    nb_uniq_visitors: numeric.optional(),
+    nb_actions: numeric.optional(),
+    nb_hits: numeric.optional(),
+    nb_visits_converted: numeric.optional(),
+    sum_time_spent: numeric.optional(),
+    bounce_count: numeric.optional(),
+    segment: z.string().optional(),
+  })
+);
+
+export type CustomDimensionRow = z.infer<typeof customDimensionRowsSchema>[number];
+
+/** One custom dimension report, labelled with the dimension it was resolved to. */
+export const customDimensionReportSchema = z.object({
+  dimension: customDimensionsSchema.element,
+  rows: customDimensionRowsSchema,
+});
+
+export type CustomDimensionReport = z.infer<typeof customDimensionReportSchema>;
+
+const goalFlag = z.union([z.boolean(), z.string(), z.number()]);
+
+export const goalConfigsSchema = z.array(
+  z
+    .object({
+      idgoal: numeric,
+      name: z.string(),
+      description: z.string().optional(),
+      match_attribute: z.string(),
+      pattern: z.string().optional(),
+      pattern_type: z.string().optional(),
+      case_sensitive: goalFlag.optional(),
+      allow_multiple: goalFlag.optional(),
+      revenue: numeric.optional(),
+      event_value_as_revenue: goalFlag.optional(),
+    })
+    .passthrough()
+);
+
+export type RawGoalConfig = z.infer<typeof goalConfigsSchema>[number];
+
+/** Goals configured for a site with their match rule and default revenue. */
+export const goalsSchema = z.array(
+  z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().optional(),
+    matchAttribute: z.string(),
+    pattern: z.string().optional(),
+    patternType: z.string().optional(),
+    caseSensitive: z.boolean(),
+    allowMultiple: z.boolean(),
+    revenue: monetaryValueSchema.optional(),
+    useEventValueAsRevenue: z.boolean(),
+  })
+);
+
+export type Goal = z.infer<typeof goalsSchema>[number];
+
+const goalMetricsSchema = z.object({
+  nb_conversions: z.number(),
+  nb_visits_converted: z.number().optional(),
+  revenue: monetaryValueSchema.optional(),
+});
+
+/** Conversions of one goal split by traffic channel, device type, or landing page. */
+export const goalBreakdownSchema = z.object({
+  goal: goalsSchema.element,
+  breakdown: z.enum(['channel', 'device', 'landingPage']),
+  totals: goalMetricsSchema,
+  rows: z.array(
+    goalMetricsSchema.extend({
+      label: z.string(),
+      segment: z.string(),
+      shareOfConversions: z.number().optional(),
+    })
+  ),
+});
+
+export type GoalBreakdown = z.infer<typeof goalBreakdownSchema>;
+export type GoalBreakdownRow = GoalBreakdown['rows'][number];
+
+export const rawLiveCountersSchema = z.array(
+  z.object({
+    visits: numeric.optional(),
+    actions: numeric.optional(),
+    visitors: numeric.optional(),
+    visitsConverted: numeric.optional(),
+  })
+);
+
+export type RawLiveCounters = z.infer<typeof rawLiveCountersSchema>[number];
+
+/** Real-time totals for the last `lastMinutes` minutes, read before archiving runs. */
+export const liveCountersSchema = z.object({
+  lastMinutes: z.number(),
+  visits: z.number(),
+  actions: z.number(),
+  visitors: z.number(),
+  visitsConverted: z.number(),
+});
+
+export type LiveCounters = z.infer<typeof liveCountersSchema>;
+
+const optionalText = z.string().nullable().optional();
+
+export const rawLiveVisitsSchema = z.array(
+  z
+    .object({
+      idVisit: numeric,
+      visitIp: optionalText,
+      visitorId: optionalText,
+      userId: optionalText,
+      customVariables: z.unknown().optional(),
+      lastActionTimestamp: numeric.optional(),
+      visitDuration: numeric.optional(),
+      actions: numeric.optional(),
+      visitorType: optionalText,
+      referrerType: optionalText,
+      referrerName: optionalText,
+      country: optionalText,
+      countryCode: optionalText,
+      city: optionalText,
+      deviceType: optionalText,
+      browserName: optionalText,
+      operatingSystemName: optionalText,
+      goalConversions: numeric.optional(),
+      actionDetails: z
+        .array(
+          z
+            .object({
+              type: z.string(),
+              url: optionalText,
+              pageTitle: optionalText,
+              timestamp: numeric.optional(),
+            })
+            .passthrough()
+        )
+        .optional(),
+    })
+    .passthrough()
+);
+
+export type RawLiveVisit = z.infer<typeof rawLiveVisitsSchema>[number];
+
+/**
+ * Recent visits from the visitor log. IPs, visitor and user ids, and custom variables are only
+ * present when the caller opts in to visitor details.
+ */
+export const recentVisitsSchema = z.array(
+  z.object({
+    idVisit: z.number(),
+    lastActionAt: z.string().optional(),
+    visitDuration: z.number().optional(),
+    actions: z.number().optional(),
+    visitorType: z.string().optional(),
+    referrerType: z.string().optional(),
+    referrerName: z.string().optional(),
+    country: z.string().optional(),
+    countryCode: z.string().optional(),
+    city: z.string().optional(),
+    deviceType: z.string().optional(),
+    browser: z.string().optional(),
+    operatingSystem: z.string().optional(),
+    goalConversions: z.number().optional(),
+    pages: z.array(
+      z.object({
+        type: z.string(),
+        url: z.string().optional(),
+        title: z.string().optional(),
+        timestamp: z.number().optional(),
+      })
+    ),
+    visitIp: z.string().optional(),
+    visitorId: z.string().optional(),
+    userId: z.string().optional(),
+    customVariables: z.unknown().optional(),
+  })
+);
+
+export type RecentVisit = z.infer<typeof recentVisitsSchema>[number];
+
+export const realtimeActivitySchema = z.object({
+  counters: liveCountersSchema,
+  visits: recentVisitsSchema,
+});
+
+export type RealtimeActivity = z.infer<typeof realtimeActivitySchema>;
+
 export const funnelStepSchema = z
   .object({
     idstep: z.union([z.string(), numeric]).optional(),
@@ -251,3 +1009,148 @@ export const funnelResponseSchema = z.union([
   z.array(funnelSummarySchema),
   z.record(funnelSummarySchema),
 ]);
+
+const funnelStepSummarySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  visits: z.number().optional(),
+  conversions: z.number().optional(),
+  totalConversions: z.number().optional(),
+  conversionRate: z.number().optional(),
+  abandonmentRate: z.number().optional(),
+  overallConversionRate: z.number().optional(),
+  avgTimeToConvert: z.number().optional(),
+  medianTimeToConvert: z.number().optional(),
+});
+
+/** Activated funnels with their step definitions; steps carry no metrics here. */
+export const funnelDefinitionsSchema = z.array(
+  z.object({
+    id: z.string(),
+    label: z.string(),
+    goalId: z.string().optional(),
+    steps: z.array(funnelStepSummarySchema),
+  })
+);
+
+/** Conversion metrics of one funnel and each of its steps; rates are percentages. */
+export const funnelAnalyticsSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  period: z.string(),
+  date: z.string(),
+  segment: z.string().optional(),
+  overallConversionRate: z.number().optional(),
+  abandonmentRate: z.number().optional(),
+  totalConversions: z.number().optional(),
+  totalVisits: z.number().optional(),
+  steps: z.array(funnelStepSummarySchema),
+});
+
+/** Sites callers can reference by name, alias, or siteId. */
+export const sitesSchema = z.array(
+  z.object({
+    name: z.string(),
+    siteId: z.number(),
+    aliases: z.array(z.string()).optional(),
+    timezone: z.string().optional(),
+    currency: z.string().optional(),
+    source: z.enum(['config', 'matomo']).optional(),
+  })
+);
+
+const siteMetricCellSchema = z.object({
+  value: z.number().nullable(),
+  /** 1 = best; null for sites without a value. */
+  rank: z.number().nullable(),
+  /** Percent of the cross-site total; null for rates, averages, and mixed currencies. */
+  shareOfTotal: z.number().nullable(),
+  currency: z.string().nullable().optional(),
+  unit: z.enum(['seconds', 'percent']).optional(),
+});
+
+const siteTotalsSchema = z.record(z.number().nullable());
+
+/** Key metrics per site with ranks and share of total; `error` marks sites whose reports failed. */
+export const siteComparisonSchema = z.object({
+  period: z.string(),
+  date: z.string(),
+  sites: z.array(
+    z.object({
+      siteId: z.number(),
+      name: z.string(),
+      metrics: z.record(siteMetricCellSchema),
+      trafficChannels: z.record(siteMetricCellSchema).optional(),
+      ecommerce: z.record(siteMetricCellSchema).optional(),
+      error: z.string().optional(),
+    })
+  ),
+  totals: z.object({
+    metrics: siteTotalsSchema,
+    trafficChannels: siteTotalsSchema.optional(),
+    ecommerce: siteTotalsSchema.optional(),
+  }),
+});
+
+/** A normalized row: numbers, strings, nested subtables, or lists of those. */
+const dataTableRowSchema = z.record(z.unknown());
+const dataTableScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const flatDataTableSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('table'), rows: z.array(dataTableRowSchema) }),
+  z.object({ type: z.literal('record'), values: dataTableRowSchema }),
+  z.object({ type: z.literal('value'), value: dataTableScalarSchema }),
+]);
+
+/** `RunMatomoReport` output; `series` holds one report per period for `lastN`/`previousN` dates. */
+export const matomoReportSchema = z.object({
+  method: z.string(),
+  siteId: z.number(),
+  period: z.string(),
+  date: z.string(),
+  report: z.union([
+    flatDataTableSchema,
+    z.object({
+      type: z.literal('series'),
+      series: z.array(z.object({ period: z.string(), report: flatDataTableSchema })),
+    }),
+  ]),
+});
+
+/** Connectivity, token, site access, and reporting-plugin checks; `details` varies per check. */
+export const diagnosticsSchema = z.object({
+  checks: z.array(
+    z.object({
+      id: z.enum(['base-url', 'token-auth', 'site-access', 'report-plugins']),
+      label: z.string(),
+      status: z.enum(['ok', 'warning', 'error', 'skipped']),
+      details: z.record(z.unknown()).optional(),
+      error: z
+        .object({
+          type: z.enum(['matomo', 'network', 'unknown']),
+          message: z.string(),
+          code: z.union([z.string(), z.number()]).optional(),
+          guidance: z.string().optional(),
+        })
+        .optional(),
+      skippedReason: z.string().optional(),
+    })
+  ),
+});
+
+/** Health of the Matomo API, the report cache, and (with `includeDetails`) site access. */
+export const healthStatusSchema = z.object({
+  status: z.enum(['healthy', 'unhealthy', 'degraded']),
+  timestamp: z.string(),
+  checks: z.array(
+    z.object({
+      name: z.string(),
+      status: z.enum(['pass', 'fail', 'warn']),
+      componentType: z.enum(['service', 'database', 'cache', 'queue']),
+      observedValue: z.union([z.string(), z.number()]).optional(),
+      observedUnit: z.string().optional(),
+      time: z.string().optional(),
+      output: z.string().optional(),
+      details: z.record(z.unknown()).optional(),
+    })
+  ),
+});
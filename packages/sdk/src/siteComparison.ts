@@ -0,0 +1,189 @@
+import { extractMetricValue } from './comparison.js';
+
+export interface SiteMetricCell {
+  value: number | null;
+  /** 1 = best. Ties share a rank; sites without a value are not ranked. */
+  rank: number | null;
+  /** Percentage of the cross-site total, or null for non-additive metrics (rates, averages, mixed currencies). */
+  shareOfTotal: number | null;
+  currency?: string | null;
+  unit?: 'seconds' | 'percent';
+}
+
+export interface SiteComparisonRow {
+  siteId: number;
+  name: string;
+  metrics: Record<string, SiteMetricCell>;
+  trafficChannels?: Record<string, SiteMetricCell>;
+  ecommerce?: Record<string, SiteMetricCell>;
+  error?: string;
+}
+
+export interface SiteComparisonTotals {
+  metrics: Record<string, number | null>;
+  trafficChannels?: Record<string, number | null>;
+  ecommerce?: Record<string, number | null>;
+}
+
+export interface SiteComparisonReport {
+  period: string;
+  date: string;
+  sites: SiteComparisonRow[];
+  totals: SiteComparisonTotals;
+}
+
+export interface SiteComparisonEntry {
+  siteId: number;
+  name: string;
+  keyNumbers?: object;
+  trafficChannels?: ReadonlyArray<object>;
+  ecommerce?: object;
+  error?: string;
+}
+
+interface RawCell {
+  value: number | null;
+  currency?: string | null;
+  unit?: 'seconds' | 'percent';
+}
+
+type Section = 'metrics' | 'trafficChannels' | 'ecommerce';
+
+const LOWER_IS_BETTER = new Set(['bounce_rate', 'exit_rate']);
+const NON_ADDITIVE_PATTERN = /^(avg_|max_|min_)|_rate$|_per_/;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function readRecordCells(record: object | undefined): Record<string, RawCell> {
+  const cells: Record<string, RawCell> = {};
+  if (!record) return cells;
+
+  for (const [key, value] of Object.entries(record)) {
+    const metric = extractMetricValue(key, value);
+    if (!metric) continue;
+
+    const cell: RawCell = { value: metric.value };
+    if (metric.currency !== undefined) cell.currency = metric.currency;
+    if (metric.unit !== undefined) cell.unit = metric.unit;
+    cells[key] = cell;
+  }
+
+  return cells;
+}
+
+function readChannelCells(channels: ReadonlyArray<object> | undefined): Record<string, RawCell> {
+  const cells: Record<string, RawCell> = {};
+  for (const channel of channels ?? []) {
+    const record = channel as Record<string, unknown>;
+    if (typeof record.label !== 'string') continue;
+    const visits = extractMetricValue('nb_visits', record.nb_visits);
+    cells[record.label] = { value: visits?.value ?? 0 };
+  }
+  return cells;
+}
+
+function isAdditive(key: string, cells: RawCell[]): boolean {
+  if (NON_ADDITIVE_PATTERN.test(key) || cells.some(cell => cell.unit !== undefined)) {
+    return false;
+  }
+
+  const currencies = new Set(cells.filter(cell => cell.currency !== undefined).map(cell => cell.currency ?? null));
+  return currencies.size <= 1 && !currencies.has(null);
+}
+
+function rankValues(values: Array<number | null>, lowerIsBetter: boolean): Array<number | null> {
+  return values.map(value => {
+    if (value === null) return null;
+    const better = values.filter(other => other !== null && (lowerIsBetter ? other < value : other > value));
+    return better.length + 1;
+  });
+}
+
+function buildSection(
+  rows: SiteComparisonRow[],
+  perSite: Array<Record<string, RawCell> | undefined>,
+  section: Section
+): Record<string, number | null> {
+  const keys: string[] = [];
+  for (const cells of perSite) {
+    for (const key of Object.keys(cells ?? {})) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+
+  const totals: Record<string, number | null> = {};
+  for (const key of keys) {
+    const cells = perSite.map(site => site?.[key]);
+    const present = cells.filter((cell): cell is RawCell => cell !== undefined);
+    // Channels absent from a site's report mean zero visits; absent key metrics stay unknown.
+    const values = perSite.map((site, index) =>
+      site === undefined ? null : cells[index]?.value ?? (section === 'trafficChannels' ? 0 : null)
+    );
+    const additive = isAdditive(key, present);
+    const total = additive ? roundTo(values.reduce<number>((sum, value) => sum + (value ?? 0), 0), 2) : null;
+    const ranks = rankValues(values, LOWER_IS_BETTER.has(key));
+
+    totals[key] = total;
+    rows.forEach((row, index) => {
+      if (perSite[index] === undefined) return;
+      const value = values[index] ?? null;
+      const cell: SiteMetricCell = {
+        value,
+        rank: ranks[index] ?? null,
+        shareOfTotal: total && value !== null ? roundTo((value / total) * 100, 1) : null,
+      };
+      const source = cells[index] ?? present[0];
+      if (source?.currency !== undefined) cell.currency = source.currency;
+      if (source?.unit !== undefined) cell.unit = source.unit;
+
+      const target = (row[section] ??= {});
+      target[key] = cell;
+    });
+  }
+
+  return totals;
+}
+
+/**
+ * Lays out per-site reports side by side. Each metric is ranked across sites and, when the
+ * metric is additive, expressed as a share of the cross-site total.
+ */
+export function buildSiteComparison(
+  window: { period: string; date: string },
+  entries: SiteComparisonEntry[]
+): SiteComparisonReport {
+  const rows: SiteComparisonRow[] = entries.map(entry => {
+    const row: SiteComparisonRow = { siteId: entry.siteId, name: entry.name, metrics: {} };
+    if (entry.error !== undefined) row.error = entry.error;
+    return row;
+  });
+
+  const totals: SiteComparisonTotals = {
+    metrics: buildSection(
+      rows,
+      entries.map(entry => (entry.error === undefined ? readRecordCells(entry.keyNumbers) : undefined)),
+      'metrics'
+    ),
+  };
+
+  if (entries.some(entry => entry.trafficChannels !== undefined)) {
+    totals.trafficChannels = buildSection(
+      rows,
+      entries.map(entry => (entry.error === undefined ? readChannelCells(entry.trafficChannels) : undefined)),
+      'trafficChannels'
+    );
+  }
+
+  if (entries.some(entry => entry.ecommerce !== undefined)) {
+    totals.ecommerce = buildSection(
+      rows,
+      entries.map(entry => (entry.error === undefined ? readRecordCells(entry.ecommerce) : undefined)),
+      'ecommerce'
+    );
+  }
+
+  return { period: window.period, date: window.date, sites: rows, totals };
+}
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+
+export interface SiteDefinition {
+  name: string;
+  siteId: number;
+  aliases?: string[];
+  timezone?: string;
+  currency?: string;
+  /** `config` for operator-supplied entries, `matomo` for entries hydrated from the Matomo site roster. */
+  source?: 'config' | 'matomo';
+}
+
+export class UnknownSiteError extends Error {
+  readonly status = 400;
+  readonly reference: string;
+
+  constructor(reference: string, knownSites: string[]) {
+    const hint = knownSites.length > 0 ? ` Known sites: ${knownSites.join(', ')}.` : ' No site map is configured.';
+    super(`Unknown site "${reference}".${hint}`);
+    this.name = 'UnknownSiteError';
+    this.reference = reference;
+  }
+}
+
+const siteEntrySchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    siteId: z.coerce.number().int().positive(),
+    aliases: z.array(z.string().trim().min(1)).optional(),
+    timezone: z.string().trim().min(1).optional(),
+    currency: z.string().trim().min(1).optional(),
+  })
+  .passthrough();
+
+const namedSiteEntrySchema = siteEntrySchema.extend({ name: z.string().trim().min(1) });
+
+const siteMapSchema = z.union([
+  z.array(namedSiteEntrySchema),
+  z.object({ sites: z.array(namedSiteEntrySchema) }).passthrough(),
+  z.record(z.union([z.coerce.number().int().positive(), siteEntrySchema])),
+]);
+
+type SiteEntry = z.infer<typeof siteEntrySchema>;
+
+function toSiteDefinition(name: string, entry: SiteEntry): SiteDefinition {
+  const definition: SiteDefinition = { name, siteId: entry.siteId, source: 'config' };
+  if (entry.aliases && entry.aliases.length > 0) definition.aliases = entry.aliases;
+  if (entry.timezone) definition.timezone = entry.timezone;
+  if (entry.currency) definition.currency = entry.currency.toUpperCase();
+  return definition;
+}
+
+/**
+ * Normalizes an operator-supplied site map. Accepts a list of site entries, `{ sites: [...] }`,
+ * or an object keyed by site name whose values are either a siteId or a site entry.
+ */
+export function parseSiteMap(payload: unknown): SiteDefinition[] {
+  const result = siteMapSchema.safeParse(payload);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue && issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`Invalid site map${location}: ${issue?.message ?? 'unexpected structure'}`);
+  }
+
+  const data = result.data;
+  if (Array.isArray(data)) {
+    return data.map(entry => toSiteDefinition(entry.name, entry));
+  }
+  if ('sites' in data && Array.isArray(data.sites)) {
+    return data.sites.map(entry => toSiteDefinition(entry.name, entry));
+  }
+
+  return Object.entries(data as Record<string, number | SiteEntry>).map(([key, value]) =>
+    typeof value === 'number' ? toSiteDefinition(key, { siteId: value }) : toSiteDefinition(value.name ?? key, value)
+  );
+}
+
+/** Lowercases and collapses punctuation so `Shop SE`, `shop_se` and `shop-se` match the same site. */
+export function normalizeSiteKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '')
+    .replace(/[^a-z0-9.]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export class SiteRegistry {
+  private readonly byKey = new Map<string, SiteDefinition>();
+  private readonly byId = new Map<number, SiteDefinition>();
+
+  constructor(definitions: readonly SiteDefinition[] = []) {
+    for (const definition of definitions) {
+      this.add(definition);
+    }
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Registers a site under its name and aliases. Existing keys are kept, so configured
+   * entries always win over hydrated ones.
+   */
+  add(definition: SiteDefinition): void {
+    if (!this.byId.has(definition.siteId)) {
+      this.byId.set(definition.siteId, definition);
+    }
+
+    for (const key of [definition.name, ...(definition.aliases ?? [])]) {
+      const normalized = normalizeSiteKey(key);
+      if (normalized.length > 0 && !this.byKey.has(normalized)) {
+        this.byKey.set(normalized, definition);
+      }
+    }
+  }
+
+  get(siteId: number): SiteDefinition | undefined {
+    return this.byId.get(siteId);
+  }
+
+  find(reference: string): SiteDefinition | undefined {
+    return this.byKey.get(normalizeSiteKey(reference));
+  }
+
+  list(): SiteDefinition[] {
+    return Array.from(this.byId.values());
+  }
+}
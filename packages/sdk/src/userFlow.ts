@@ -0,0 +1,137 @@
+import type { RawUsersFlowStep, UserFlowPath, UserFlowStep } from './schemas.js';
+
+/** Visits on one page at one interaction step and where they went next. */
+export interface FlowNode {
+  visits: number;
+  exits?: number;
+  next: Array<{ page: string; visits: number }>;
+}
+
+/** Resolves the flow out of `page` at a 1-based interaction `step`; undefined when Matomo has no data. */
+export type FlowLookup = (page: string, step: number) => Promise<FlowNode | undefined>;
+
+export interface FlowStart {
+  page: string;
+  visits: number;
+}
+
+export interface BuildUserFlowPathsOptions {
+  /** Maximum number of paths returned; also the beam width while expanding. */
+  limit: number;
+  /** Maximum number of pages per path. */
+  maxSteps: number;
+}
+
+// Matomo groups rows beyond its truncation limit under this label; it is not a page to follow.
+const GROUPED_ROW_LABEL = 'others';
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Compares page labels the way Matomo stores them: no protocol, no `www.`, no trailing slash. */
+export function normalizePageKey(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '');
+}
+
+/** Indexes the expanded UsersFlow report as step → page → flow node. */
+export function indexUsersFlow(steps: readonly RawUsersFlowStep[]): Map<number, Map<string, FlowNode & { page: string }>> {
+  const index = new Map<number, Map<string, FlowNode & { page: string }>>();
+  steps.forEach((step, position) => {
+    const pages = new Map<string, FlowNode & { page: string }>();
+    for (const row of step.subtable ?? []) {
+      if (row.label.toLowerCase() === GROUPED_ROW_LABEL) continue;
+      const node: FlowNode & { page: string } = {
+        page: row.label,
+        visits: row.nb_visits ?? 0,
+        next: (row.subtable ?? []).map(link => ({ page: link.label, visits: link.nb_visits ?? 0 })),
+      };
+      if (row.nb_exits !== undefined) node.exits = row.nb_exits;
+      pages.set(normalizePageKey(row.label), node);
+    }
+    index.set(position + 1, pages);
+  });
+  return index;
+}
+
+// Matomo aggregates flows per step, not per visitor path, so the share of a node's visits that took
+// a link is applied to the visits that reached the node along the path.
+function scale(count: number, pathVisits: number, nodeVisits: number): number {
+  return nodeVisits > 0 ? Math.round((count * pathVisits) / nodeVisits) : 0;
+}
+
+function finalizePath(path: UserFlowPath): UserFlowPath {
+  path.steps.forEach((step, position) => {
+    const next = path.steps[position + 1];
+    if (!next) return;
+    step.dropOff = step.visits - next.visits;
+    if (step.visits > 0) step.dropOffRate = roundTo((step.dropOff / step.visits) * 100, 2);
+  });
+  path.visits = path.steps[path.steps.length - 1]?.visits ?? 0;
+  return path;
+}
+
+function byVisits(a: UserFlowPath, b: UserFlowPath): number {
+  const visitsA = a.steps[a.steps.length - 1]?.visits ?? 0;
+  const visitsB = b.steps[b.steps.length - 1]?.visits ?? 0;
+  return visitsB - visitsA;
+}
+
+/**
+ * Expands the most visited paths breadth-first from the start pages, keeping the `limit` busiest
+ * partial paths at every step. A path ends when its page has no further flow or at `maxSteps`.
+ */
+export async function buildUserFlowPaths(
+  starts: readonly FlowStart[],
+  lookup: FlowLookup,
+  options: BuildUserFlowPathsOptions
+): Promise<UserFlowPath[]> {
+  let frontier: UserFlowPath[] = [...starts]
+    .filter(start => start.visits > 0 && start.page.toLowerCase() !== GROUPED_ROW_LABEL)
+    .sort((a, b) => b.visits - a.visits)
+    .slice(0, options.limit)
+    .map(start => ({ pages: [start.page], visits: start.visits, steps: [{ step: 1, page: start.page, visits: start.visits }] }));
+  const completed: UserFlowPath[] = [];
+
+  for (let step = 1; step <= options.maxSteps && frontier.length > 0; step += 1) {
+    const nodes = await Promise.all(frontier.map(path => lookup(path.pages[path.pages.length - 1]!, step)));
+    const extended: UserFlowPath[] = [];
+
+    frontier.forEach((path, position) => {
+      const node = nodes[position];
+      const last = path.steps[path.steps.length - 1]!;
+      if (node?.exits !== undefined) last.exits = scale(node.exits, last.visits, node.visits);
+
+      const continuations =
+        node && step < options.maxSteps
+          ? node.next
+              .filter(link => link.page.toLowerCase() !== GROUPED_ROW_LABEL)
+              .map(link => ({ page: link.page, visits: scale(link.visits, last.visits, node.visits) }))
+              .filter(link => link.visits > 0)
+          : [];
+
+      if (continuations.length === 0) {
+        completed.push(path);
+        return;
+      }
+      for (const link of continuations) {
+        const nextStep: UserFlowStep = { step: step + 1, page: link.page, visits: link.visits };
+        extended.push({
+          pages: [...path.pages, link.page],
+          visits: link.visits,
+          steps: [...path.steps.map(existing => ({ ...existing })), nextStep],
+        });
+      }
+    });
+
+    frontier = extended.sort(byVisits).slice(0, options.limit);
+  }
+
+  return [...completed, ...frontier].sort(byVisits).slice(0, options.limit).map(finalizePath);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { averageCohortRetention, buildCohortRetention } from '../src/cohorts.js';
+
+const metric = 'Cohorts_returning_visitors_percent';
+
+describe('buildCohortRetention', () => {
+  it('reads offset columns from cohort rows and fills gaps with null', () => {
+    const cohorts = buildCohortRetention(
+      [
+        { label: '2025-09-01', nb_uniq_visitors: '200', [`${metric}_0`]: '100%', [`${metric}_1`]: '21.5%', [`${metric}_3`]: 8 },
+        { label: '2025-09-08', [`${metric}_0`]: 100 },
+        'garbage',
+      ],
+      metric
+    );
+
+    expect(cohorts).toEqual([
+      { cohort: '2025-09-01', visitors: 200, retention: [100, 21.5, null, 8] },
+      { cohort: '2025-09-08', retention: [100] },
+    ]);
+  });
+
+  it('accepts period-keyed series payloads', () => {
+    const cohorts = buildCohortRetention(
+      {
+        '2025-09-01,2025-09-07': [{ label: 'Cohort', Cohorts_nb_uniq_visitors: 50, [`${metric}_1`]: '10%' }],
+        '2025-09-08,2025-09-14': [],
+      },
+      metric
+    );
+
+    expect(cohorts).toEqual([{ cohort: '2025-09-01,2025-09-07', visitors: 50, retention: [null, 10] }]);
+  });
+});
+
+describe('averageCohortRetention', () => {
+  it('averages each offset over the cohorts that reached it', () => {
+    expect(
+      averageCohortRetention([
+        { cohort: 'a', retention: [100, 20, 9] },
+        { cohort: 'b', retention: [100, 25] },
+        { cohort: 'c', retention: [100, null] },
+      ])
+    ).toEqual([100, 22.5, 9]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  compareRecords,
+  compareRows,
+  computeMetricDelta,
+  resolveComparisonWindow,
+  resolveComparisonWindows,
+} from '../src/comparison.js';
+
+const now = new Date('2025-10-15T12:00:00Z');
+
+describe('resolveComparisonWindow', () => {
+  it('steps single periods back by one unit', () => {
+    expect(resolveComparisonWindow({ period: 'day', date: 'today' }, 'previous_period', { now })).toEqual({
+      period: 'day',
+      date: '2025-10-14',
+    });
+    expect(resolveComparisonWindow({ period: 'week', date: '2025-10-15' }, 'previous_period', { now })).toEqual({
+      period: 'week',
+      date: '2025-10-06',
+    });
+    expect(resolveComparisonWindow({ period: 'month', date: '2025-03-31' }, 'previous_period', { now })).toEqual({
+      period: 'month',
+      date: '2025-02-01',
+    });
+  });
+
+  it('shifts windows back twelve months for previous_year', () => {
+    expect(resolveComparisonWindow({ period: 'month', date: 'yesterday' }, 'previous_year', { now })).toEqual({
+      period: 'month',
+      date: '2024-10-01',
+    });
+    expect(resolveComparisonWindow({ period: 'range', date: 'last7' }, 'previous_year', { now })).toEqual({
+      period: 'range',
+      date: '2024-10-09,2024-10-15',
+    });
+  });
+
+  it('derives the preceding range of identical length', () => {
+    expect(
+      resolveComparisonWindow({ period: 'range', date: '2025-09-01,2025-09-30' }, 'previous_period', { now })
+    ).toEqual({ period: 'range', date: '2025-08-02,2025-08-31' });
+    expect(resolveComparisonWindow({ period: 'range', date: 'previous7' }, 'previous_period', { now })).toEqual({
+      period: 'range',
+      date: '2025-10-01,2025-10-07',
+    });
+    expect(resolveComparisonWindow({ period: 'month', date: 'last3' }, 'previous_period', { now })).toEqual({
+      period: 'range',
+      date: '2025-05-01,2025-07-31',
+    });
+  });
+
+  it('evaluates relative dates in the site timezone', () => {
+    const lateEvening = new Date('2025-10-15T23:30:00Z');
+    expect(
+      resolveComparisonWindows({ period: 'day', date: 'today' }, 'previous_period', {
+        now: lateEvening,
+        timezone: 'Europe/Stockholm',
+      })
+    ).toEqual({ current: { period: 'day', date: '2025-10-16' }, previous: { period: 'day', date: '2025-10-15' } });
+  });
+
+  it('rejects windows it cannot align', () => {
+    expect(() => resolveComparisonWindow({ period: 'range', date: 'today' }, 'previous_period', { now })).toThrow(
+      'Unsupported date "today" for period "range".'
+    );
+    expect(() => resolveComparisonWindow({ period: 'quarter', date: 'today' }, 'previous_period', { now })).toThrow(
+      'Unsupported period "quarter"'
+    );
+  });
+});
+
+describe('metric deltas', () => {
+  it('handles zero baselines and missing values', () => {
+    expect(computeMetricDelta(10, 0)).toEqual({ current: 10, previous: 0, delta: 10, deltaPct: null, direction: 'up' });
+    expect(computeMetricDelta(5, null)).toEqual({
+      current: 5,
+      previous: null,
+      delta: null,
+      deltaPct: null,
+      direction: null,
+    });
+    expect(computeMetricDelta(90, 120)).toEqual({
+      current: 90,
+      previous: 120,
+      delta: -30,
+      deltaPct: -25,
+      direction: 'down',
+    });
+  });
+
+  it('compares numeric, monetary, duration, and percentage fields', () => {
+    const windows = {
+      current: { period: 'day', date: '2025-10-15' },
+      previous: { period: 'day', date: '2025-10-14' },
+    };
+    const report = compareRecords(
+      'previous_period',
+      windows,
+      {
+        nb_visits: 30,
+        revenue: { value: 150, currency: 'EUR' },
+        avg_time_on_site: { value: 60, unit: 'seconds' },
+        bounce_rate: '40%',
+        idsite: 1,
+      },
+      { nb_visits: 20, revenue: { value: 150, currency: 'EUR' }, avg_time_on_site: { value: 40, unit: 'seconds' }, bounce_rate: '50%' }
+    );
+
+    expect(report.metrics.nb_visits).toMatchObject({ delta: 10, deltaPct: 50, direction: 'up' });
+    expect(report.metrics.revenue).toMatchObject({ delta: 0, direction: 'flat', currency: 'EUR' });
+    expect(report.metrics.avg_time_on_site).toMatchObject({ delta: 20, unit: 'seconds' });
+    expect(report.metrics.bounce_rate).toMatchObject({ current: 40, previous: 50, unit: 'percent', direction: 'down' });
+    expect(report.metrics.idsite).toBeUndefined();
+  });
+
+  it('matches list rows by key and keeps descriptive attributes', () => {
+    const windows = {
+      current: { period: 'week', date: '2025-10-15' },
+      previous: { period: 'week', date: '2025-10-08' },
+    };
+    const report = compareRows(
+      'previous_period',
+      windows,
+      [
+        { label: '/pricing', url: 'https://example.com/pricing', nb_visits: 12 },
+        { label: '/new', nb_visits: 4 },
+      ],
+      [{ label: '/pricing', nb_visits: 8 }]
+    );
+
+    expect(report.rows).toEqual([
+      {
+        label: '/pricing',
+        url: 'https://example.com/pricing',
+        metrics: { nb_visits: { current: 12, previous: 8, delta: 4, deltaPct: 50, direction: 'up' } },
+      },
+      {
+        label: '/new',
+        metrics: { nb_visits: { current: 4, previous: null, delta: null, deltaPct: null, direction: null } },
+      },
+    ]);
+  });
+});
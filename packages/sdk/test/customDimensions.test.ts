@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { UnknownCustomDimensionError, adaptCustomDimensions, resolveCustomDimension } from '../src/customDimensions.js';
+
+const dimensions = adaptCustomDimensions([
+  { idcustomdimension: 1, name: 'Plan tier', index: 1, scope: 'visit', active: true },
+  { idcustomdimension: 3, name: 'Logged in status', index: 2, scope: 'visit', active: '0' },
+  { idcustomdimension: 4, name: 'Page author', index: 1, scope: 'action', active: '1' },
+]);
+
+describe('adaptCustomDimensions', () => {
+  it('normalizes the active flag and adds the segment name', () => {
+    expect(dimensions[1]).toEqual({ id: 3, name: 'Logged in status', scope: 'visit', index: 2, active: false, segment: 'dimension3' });
+    expect(dimensions[2]?.active).toBe(true);
+  });
+});
+
+describe('resolveCustomDimension', () => {
+  it('resolves ids, dimensionN references, and loosely formatted names', () => {
+    expect(resolveCustomDimension(4, dimensions).name).toBe('Page author');
+    expect(resolveCustomDimension('dimension3', dimensions).id).toBe(3);
+    expect(resolveCustomDimension('Dimension 1', dimensions).id).toBe(1);
+    expect(resolveCustomDimension('logged-in status', dimensions).id).toBe(3);
+    expect(resolveCustomDimension('PLAN_TIER', dimensions).id).toBe(1);
+  });
+
+  it('lists the configured names when nothing matches', () => {
+    expect(() => resolveCustomDimension('dimension9', dimensions)).toThrow(UnknownCustomDimensionError);
+    expect(() => resolveCustomDimension('country', dimensions)).toThrow(
+      'Unknown custom dimension "country". Configured dimensions: Plan tier, Logged in status, Page author.'
+    );
+    expect(() => resolveCustomDimension('plan', [])).toThrow(/No custom dimensions are configured/);
+  });
+});
@@ -39,6 +39,14 @@ describe('MatomoApiError guidance', () => {
     expect(error.guidance).toContain('segment expression');
   });
 
+  it('explains missing transitions data for a page URL', () => {
+    const error = new MatomoClientError(
+      'Matomo request failed (400): There is no data for this URL in the selected period.'
+    );
+
+    expect(error.guidance).toContain('page URL');
+  });
+
   it('guides when methods are unknown', () => {
     const error = new MatomoClientError(
       'Matomo request failed (400): Unknown method "Actions.getFoo"'
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { UnknownGoalError, adaptGoals, isGoalName, resolveGoal } from '../src/goals.js';
+
+const goals = adaptGoals(
+  [
+    { idgoal: 1, name: 'Newsletter Signup', match_attribute: 'event_action', pattern: 'subscribe', revenue: 0 },
+    { idgoal: 3, name: 'Demo request', match_attribute: 'url', pattern: '/demo/thanks', allow_multiple: '1', revenue: 40 },
+  ],
+  'GBP'
+);
+
+describe('adaptGoals', () => {
+  it('normalizes flags and only attaches a positive default revenue', () => {
+    expect(goals[0]?.revenue).toBeUndefined();
+    expect(goals[1]).toMatchObject({ allowMultiple: true, caseSensitive: false, revenue: { value: 40, currency: 'GBP' } });
+  });
+});
+
+describe('isGoalName', () => {
+  it('leaves numeric ids and Matomo special goals to the API', () => {
+    expect(isGoalName(3)).toBe(false);
+    expect(isGoalName(' 12 ')).toBe(false);
+    expect(isGoalName('ecommerceOrder')).toBe(false);
+    expect(isGoalName('abandonedCart')).toBe(false);
+    expect(isGoalName('Demo request')).toBe(true);
+  });
+});
+
+describe('resolveGoal', () => {
+  it('resolves ids and loosely formatted names', () => {
+    expect(resolveGoal(3, goals).name).toBe('Demo request');
+    expect(resolveGoal('1', goals).name).toBe('Newsletter Signup');
+    expect(resolveGoal('newsletter sign-up', goals).id).toBe(1);
+    expect(resolveGoal('DEMO_REQUEST', goals).id).toBe(3);
+  });
+
+  it('lists the configured names when nothing matches', () => {
+    expect(() => resolveGoal(7, goals)).toThrow(UnknownGoalError);
+    expect(() => resolveGoal('purchase', goals)).toThrow(
+      'Unknown goal "purchase". Configured goals: Newsletter Signup, Demo request.'
+    );
+    expect(() => resolveGoal('purchase', [])).toThrow(/No goals are configured/);
+  });
+});
@@ -287,6 +287,15 @@ describe('MatomoClient', () => {
       '5.0.0',
       { login: 'superuser' },
       { idsite: '1', name: 'Demo Site' },
+      [
+        { module: 'Goals', action: 'get', name: 'Goals' },
+        { module: 'Events', action: 'getCategory', name: 'Event Categories' },
+        { module: 'Funnels', action: 'getFunnelFlow', name: 'Funnel' },
+        { module: 'Cohorts', action: 'getCohorts', name: 'Cohorts' },
+        { module: 'CustomDimensions', action: 'getCustomDimension', name: 'Plan tier' },
+        { module: 'UsersFlow', action: 'getUsersFlowPretty', name: 'Users Flow' },
+      ],
+      [],
     ]);
 
     vi.stubGlobal('fetch', fetchMock);
@@ -313,9 +322,24 @@ describe('MatomoClient', () => {
         status: 'ok',
         details: { idsite: '1', name: 'Demo Site' },
       },
+      {
+        id: 'report-plugins',
+        label: 'Reporting plugins',
+        status: 'ok',
+        details: {
+          reports: 6,
+          missingPlugins: [
+            {
+              plugin: 'MarketingCampaignsReporting',
+              feature: 'campaign source, medium, and content breakdown',
+              fallback: 'core Referrers campaigns (name and keyword only)',
+            },
+          ],
+        },
+      },
     ]);
 
-    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
     expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('method')).toBe('API.getMatomoVersion');
     expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.get('method')).toBe(
       'UsersManager.getUserByTokenAuth'
@@ -323,6 +347,41 @@ describe('MatomoClient', () => {
     expect(new URL(fetchMock.mock.calls[2][0] as string).searchParams.get('method')).toBe('SitesManager.getSiteFromId');
   });
 
+  it('warns when plugins backing report helpers are missing', async () => {
+    const fetchMock = createSequencedFetchMock([
+      '5.0.0',
+      { login: 'superuser' },
+      { idsite: '1', name: 'Demo Site' },
+      [{ module: 'Goals', action: 'get', name: 'Goals' }],
+      [],
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const result = await client.runDiagnostics();
+
+    expect(result.checks[3]).toEqual({
+      id: 'report-plugins',
+      label: 'Reporting plugins',
+      status: 'warning',
+      details: {
+        reports: 1,
+        missingPlugins: [
+          { plugin: 'Events', feature: 'event reports' },
+          { plugin: 'Funnels', feature: 'funnel analytics' },
+          { plugin: 'Cohorts', feature: 'cohort retention' },
+          { plugin: 'CustomDimensions', feature: 'custom dimension reports' },
+          { plugin: 'UsersFlow', feature: 'user flow paths', fallback: 'paths stitched from Transitions' },
+          {
+            plugin: 'MarketingCampaignsReporting',
+            feature: 'campaign source, medium, and content breakdown',
+            fallback: 'core Referrers campaigns (name and keyword only)',
+          },
+        ],
+      },
+    });
+  });
+
   it('reports token failures and skips site diagnostics', async () => {
     const fetchMock = createSequencedFetchMock([
       '5.0.0',
@@ -382,7 +441,9 @@ describe('MatomoClient', () => {
         headers: new Headers(),
         json: async () => ({ idsite: '2', name: 'Legacy Site' }),
         text: async () => JSON.stringify({ idsite: '2', name: 'Legacy Site' }),
-      });
+      })
+      .mockResolvedValueOnce(createJsonResponse([]))
+      .mockResolvedValueOnce(createJsonResponse([]));
 
     vi.stubGlobal('fetch', fetchMock);
 
@@ -394,7 +455,8 @@ describe('MatomoClient', () => {
       status: 'ok',
       details: { version: '4.15.0' },
     });
-    expect(fetchMock).toHaveBeenCalledTimes(4);
+    // Two further calls load the report catalogue for the plugin check.
+    expect(fetchMock).toHaveBeenCalledTimes(6);
     expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('method')).toBe('API.getMatomoVersion');
     expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.get('method')).toBe('API.getVersion');
     expect(new URL(fetchMock.mock.calls[2][0] as string).searchParams.get('method')).toBe(
@@ -429,7 +491,9 @@ describe('MatomoClient', () => {
         headers: new Headers(),
         json: async () => ({ idsite: '2', name: 'Legacy Site' }),
         text: async () => JSON.stringify({ idsite: '2', name: 'Legacy Site' }),
-      });
+      })
+      .mockResolvedValueOnce(createJsonResponse([]))
+      .mockResolvedValueOnce(createJsonResponse([]));
 
     vi.stubGlobal('fetch', fetchMock);
 
@@ -441,7 +505,8 @@ describe('MatomoClient', () => {
       status: 'ok',
       details: { login: 'legacy-user' },
     });
-    expect(fetchMock).toHaveBeenCalledTimes(4);
+    // Two further calls load the report catalogue for the plugin check.
+    expect(fetchMock).toHaveBeenCalledTimes(6);
     expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.get('method')).toBe(
       'UsersManager.getUserByTokenAuth'
     );
@@ -646,6 +711,449 @@ describe('MatomoClient', () => {
     expect(siteRequest).toBeTruthy();
   });
 
+  it('reports product revenue and abandoned carts with the site currency', async () => {
+    const fetchMock = createCurrencyAwareFetchMock(
+      [
+        {
+          label: 'SKU-42',
+          revenue: '1250.5',
+          quantity: '25',
+          orders: '20',
+          avg_price: '50.02',
+          avg_quantity: '1.25',
+          nb_visits: '400',
+          conversion_rate: '5%',
+        },
+      ],
+      'sek'
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 3 });
+    const skus = await client.getProductSkus({ period: 'month', date: '2025-09-01', limit: 5 });
+
+    expect(skus).toEqual([
+      {
+        label: 'SKU-42',
+        revenue: { value: 1250.5, currency: 'SEK' },
+        quantity: 25,
+        orders: 20,
+        avg_price: { value: 50.02, currency: 'SEK' },
+        avg_quantity: 1.25,
+        nb_visits: 400,
+        conversion_rate: '5%',
+      },
+    ]);
+
+    const itemsUrl = (method: string) =>
+      fetchMock.mock.calls
+        .map(([input]) => new URL(input as string))
+        .filter(url => url.searchParams.get('method') === method);
+    const [skuUrl] = itemsUrl('Goals.getItemsSku');
+    expect(skuUrl?.searchParams.get('filter_limit')).toBe('5');
+    expect(skuUrl?.searchParams.has('abandonedCarts')).toBe(false);
+
+    await client.getProductNames();
+    await client.getProductCategories({ abandonedCarts: true });
+    expect(itemsUrl('Goals.getItemsName')).toHaveLength(1);
+    const [categoryUrl] = itemsUrl('Goals.getItemsCategory');
+    expect(categoryUrl?.searchParams.get('abandonedCarts')).toBe('1');
+
+    await client.getProductPerformance({ dimension: 'name', abandonedCarts: true });
+    const [, abandonedNameUrl] = itemsUrl('Goals.getItemsName');
+    expect(abandonedNameUrl?.searchParams.get('abandonedCarts')).toBe('1');
+  });
+
+  it('resolves custom dimensions by name before reading the report', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      if (url.searchParams.get('method') === 'CustomDimensions.getConfiguredCustomDimensions') {
+        return Promise.resolve(
+          createJsonResponse([
+            { idcustomdimension: '2', idsite: '1', name: 'Plan tier', index: '1', scope: 'visit', active: true },
+            { idcustomdimension: '5', idsite: '1', name: 'Logged in status', index: '2', scope: 'visit', active: true },
+          ])
+        );
+      }
+      return Promise.resolve(
+        createJsonResponse([
+          { label: 'yes', nb_visits: '120', nb_visits_converted: '8', segment: 'dimension5==yes' },
+          { label: 'no', nb_visits: '80' },
+        ])
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const report = await client.getCustomDimension({ customDimension: 'logged-in status', period: 'week', date: '2025-09-01' });
+
+    expect(report.dimension).toEqual({ id: 5, name: 'Logged in status', scope: 'visit', index: 2, active: true, segment: 'dimension5' });
+    expect(report.rows).toEqual([
+      { label: 'yes', nb_visits: 120, nb_visits_converted: 8, segment: 'dimension5==yes' },
+      { label: 'no', nb_visits: 80 },
+    ]);
+
+    const reportUrl = new URL(fetchMock.mock.calls[1][0] as string);
+    expect(reportUrl.searchParams.get('method')).toBe('CustomDimensions.getCustomDimension');
+    expect(reportUrl.searchParams.get('idDimension')).toBe('5');
+    expect(reportUrl.searchParams.get('filter_limit')).toBe('10');
+
+    // The configuration is cached, so listing and a second report reuse it.
+    await expect(client.listCustomDimensions()).resolves.toHaveLength(2);
+    await expect(client.getCustomDimension({ customDimension: 'membership' })).rejects.toThrow(
+      'Unknown custom dimension "membership". Configured dimensions: Plan tier, Logged in status.'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads live counters and strips visitor details from recent visits by default', async () => {
+    const visit = {
+      idVisit: '901',
+      visitIp: '203.0.113.7',
+      visitorId: 'a1b2c3d4e5f6a7b8',
+      userId: 'jane@example.com',
+      customVariables: { 1: { customVariableName1: 'plan', customVariableValue1: 'pro' } },
+      lastActionTimestamp: 1756721400,
+      visitDuration: '95',
+      actions: '2',
+      visitorType: 'returning',
+      referrerType: 'search',
+      referrerName: 'Google',
+      countryCode: 'se',
+      city: null,
+      browserName: 'Firefox',
+      actionDetails: [
+        { type: 'action', url: 'https://example.com/', pageTitle: 'Home', timestamp: 1756721305 },
+        { type: 'goal', url: null, pageTitle: '', timestamp: '1756721400' },
+      ],
+    };
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      if (url.searchParams.get('method') === 'Live.getCounters') {
+        return Promise.resolve(createJsonResponse([{ visits: '14', actions: '33', visitors: '12', visitsConverted: '1' }]));
+      }
+      return Promise.resolve(createJsonResponse([visit]));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const activity = await client.getRealtimeActivity({ lastMinutes: 5, limit: 3 });
+
+    expect(activity.counters).toEqual({ lastMinutes: 5, visits: 14, actions: 33, visitors: 12, visitsConverted: 1 });
+    expect(activity.visits).toEqual([
+      {
+        idVisit: 901,
+        lastActionAt: '2025-09-01T10:10:00.000Z',
+        visitDuration: 95,
+        actions: 2,
+        visitorType: 'returning',
+        referrerType: 'search',
+        referrerName: 'Google',
+        countryCode: 'se',
+        browser: 'Firefox',
+        pages: [
+          { type: 'action', url: 'https://example.com/', title: 'Home', timestamp: 1756721305 },
+          { type: 'goal', timestamp: 1756721400 },
+        ],
+      },
+    ]);
+
+    const urls = fetchMock.mock.calls.map(([input]) => new URL(input as string));
+    const requestFor = (method: string) => urls.find(url => url.searchParams.get('method') === method)?.searchParams;
+    expect(requestFor('Live.getCounters')?.get('lastMinutes')).toBe('5');
+    expect(requestFor('Live.getLastVisitsDetails')?.get('filter_limit')).toBe('3');
+
+    const [detailed] = await client.getRecentVisits({ includeVisitorDetails: true });
+    expect(detailed).toMatchObject({
+      visitIp: '203.0.113.7',
+      visitorId: 'a1b2c3d4e5f6a7b8',
+      userId: 'jane@example.com',
+      customVariables: visit.customVariables,
+    });
+    // Live data is never served from the reports cache.
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('drills into referrer channels and their subtables', async () => {
+    const fetchMock = createFetchMock([
+      {
+        label: 'Google',
+        nb_visits: '80',
+        nb_visits_converted: '4',
+        bounce_count: '20',
+        sum_visit_length: '8000',
+        url: 'google.com',
+        idsubdatatable: '12',
+        segment: 'referrerType==search;referrerName==Google',
+      },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const engines = await client.getReferrerDetails({ referrerType: 'organic search', period: 'week', date: '2025-09-01' });
+
+    expect(engines).toEqual([
+      {
+        label: 'Google',
+        nb_visits: 80,
+        nb_visits_converted: 4,
+        conversion_rate: 5,
+        bounce_rate: 25,
+        avg_time_on_site: 100,
+        url: 'google.com',
+        idSubtable: 12,
+        segment: 'referrerType==search;referrerName==Google',
+      },
+    ]);
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('Referrers.getSearchEngines');
+    expect(url.searchParams.has('idSubtable')).toBe(false);
+
+    await client.getSearchEngines({ idSubtable: 12 });
+    await client.getKeywords();
+    await client.getWebsites({ idSubtable: 3 });
+    await client.getSocials();
+    const calls = fetchMock.mock.calls.slice(1).map(([input]) => new URL(input as string).searchParams);
+    expect(calls.map(params => params.get('method'))).toEqual([
+      'Referrers.getKeywordsFromSearchEngineId',
+      'Referrers.getKeywords',
+      'Referrers.getUrlsFromWebsiteId',
+      'Referrers.getSocials',
+    ]);
+    expect(calls[0]?.get('idSubtable')).toBe('12');
+    expect(calls[2]?.get('idSubtable')).toBe('3');
+
+    await expect(client.getReferrerDetails({ referrerType: 'direct' })).rejects.toThrow(
+      'referrerType must be one of: search_engines, keywords, websites, social_networks.'
+    );
+    await expect(client.getWebsites({ idSubtable: 3, compare: 'previous_period' })).rejects.toThrow(/idSubtable cannot be combined/);
+    await expect(client.getWebsites({ idSubtable: 3, compare: 'previous_period' })).rejects.toMatchObject({
+      name: 'InvalidInputError',
+      status: 400,
+    });
+    await expect(client.compareSites({ sites: [] })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('splits campaigns by UTM parameters with MarketingCampaignsReporting', async () => {
+    const responses: Record<string, unknown> = {
+      'MarketingCampaignsReporting.getName': [
+        { label: 'autumn-sale', nb_visits: '200', nb_visits_converted: '10', revenue: '1500', idsubdatatable: '7' },
+      ],
+      'MarketingCampaignsReporting.getKeywordContentFromNameId': [
+        { label: 'running shoes - banner-a', nb_visits: '120', nb_visits_converted: '8', revenue: '1200' },
+        { label: 'trail', nb_visits: '80' },
+      ],
+      'MarketingCampaignsReporting.getSourceMedium': [
+        { label: 'newsletter - email', nb_visits: '90', nb_visits_converted: '6', revenue: '700' },
+        { label: 'facebook - paid-social', nb_visits: '110', nb_visits_converted: '4', revenue: '800' },
+      ],
+      'SitesManager.getSiteFromId': [{ currency: 'EUR' }],
+    };
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      return Promise.resolve(createJsonResponse(responses[url.searchParams.get('method') ?? '']));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const breakdown = await client.getCampaignBreakdown({ period: 'month', date: '2025-09-01' });
+
+    expect(breakdown).toEqual({
+      source: 'MarketingCampaignsReporting',
+      campaigns: [
+        {
+          name: 'autumn-sale',
+          nb_visits: 200,
+          nb_visits_converted: 10,
+          conversion_rate: 5,
+          revenue: { value: 1500, currency: 'EUR' },
+          keywords: [
+            {
+              keyword: 'running shoes',
+              content: 'banner-a',
+              nb_visits: 120,
+              nb_visits_converted: 8,
+              conversion_rate: 6.67,
+              revenue: { value: 1200, currency: 'EUR' },
+            },
+            { keyword: 'trail', nb_visits: 80 },
+          ],
+        },
+      ],
+      sourceMedium: [
+        {
+          source: 'newsletter',
+          medium: 'email',
+          nb_visits: 90,
+          nb_visits_converted: 6,
+          conversion_rate: 6.67,
+          revenue: { value: 700, currency: 'EUR' },
+        },
+        {
+          source: 'facebook',
+          medium: 'paid-social',
+          nb_visits: 110,
+          nb_visits_converted: 4,
+          conversion_rate: 3.64,
+          revenue: { value: 800, currency: 'EUR' },
+        },
+      ],
+    });
+
+    const subtableUrl = fetchMock.mock.calls
+      .map(([input]) => new URL(input as string))
+      .find(url => url.searchParams.get('method') === 'MarketingCampaignsReporting.getKeywordContentFromNameId');
+    expect(subtableUrl?.searchParams.get('idSubtable')).toBe('7');
+  });
+
+  it('falls back to Referrers campaign keywords without MarketingCampaignsReporting', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      switch (url.searchParams.get('method')) {
+        case 'MarketingCampaignsReporting.getName':
+          return Promise.resolve(createMethodMissingResponse('getName'));
+        case 'Referrers.getCampaigns':
+          return Promise.resolve(createJsonResponse([{ label: 'newsletter', nb_visits: '40', idsubdatatable: '3' }]));
+        case 'Referrers.getKeywordsFromCampaignId':
+          return Promise.resolve(createJsonResponse([{ label: 'october - issue', nb_visits: '40' }]));
+        default:
+          return Promise.resolve(createJsonResponse([{ currency: 'USD' }]));
+      }
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const breakdown = await client.getCampaignBreakdown();
+
+    expect(breakdown).toEqual({
+      source: 'Referrers',
+      campaigns: [{ name: 'newsletter', nb_visits: 40, keywords: [{ keyword: 'october - issue', nb_visits: 40 }] }],
+      sourceMedium: [],
+    });
+    const methods = fetchMock.mock.calls.map(([input]) => new URL(input as string).searchParams.get('method'));
+    expect(methods).not.toContain('MarketingCampaignsReporting.getSourceMedium');
+  });
+
+  it('lists configured goals with their match rule and default revenue', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      if (url.searchParams.get('method') === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse([{ currency: 'EUR' }]));
+      }
+      return Promise.resolve(
+        createJsonResponse([
+          {
+            idsite: '3',
+            idgoal: '4',
+            name: 'Demo request',
+            description: 'Submitted the demo form',
+            match_attribute: 'url',
+            pattern: '/demo/thanks',
+            pattern_type: 'contains',
+            case_sensitive: '0',
+            allow_multiple: '1',
+            revenue: '25',
+            event_value_as_revenue: '0',
+          },
+          { idsite: '3', idgoal: '5', name: 'Manual', match_attribute: 'manually', pattern: '', revenue: '0' },
+        ])
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 3 });
+    const goals = await client.listGoals();
+
+    expect(goals).toEqual([
+      {
+        id: 4,
+        name: 'Demo request',
+        description: 'Submitted the demo form',
+        matchAttribute: 'url',
+        pattern: '/demo/thanks',
+        patternType: 'contains',
+        caseSensitive: false,
+        allowMultiple: true,
+        revenue: { value: 25, currency: 'EUR' },
+        useEventValueAsRevenue: false,
+      },
+      { id: 5, name: 'Manual', matchAttribute: 'manually', caseSensitive: false, allowMultiple: false, useEventValueAsRevenue: false },
+    ]);
+  });
+
+  it('breaks goal conversions down by channel and landing page through segmented Goals.get calls', async () => {
+    const conversionsBySegment: Record<string, number> = {
+      'browserCode==FF': 12,
+      'browserCode==FF;referrerType==search': 7,
+      'browserCode==FF;referrerType==direct': 3,
+      'browserCode==FF;entryPageUrl==https%3A%2F%2Fexample.com%2Fpricing': 5,
+    };
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      const method = url.searchParams.get('method');
+      if (method === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse([{ currency: 'USD' }]));
+      }
+      if (method === 'Goals.getGoals') {
+        return Promise.resolve(
+          createJsonResponse([{ idsite: '1', idgoal: '2', name: 'Signup', match_attribute: 'url', pattern: '/welcome', revenue: '10' }])
+        );
+      }
+      if (method === 'Actions.getEntryPageUrls') {
+        return Promise.resolve(
+          createJsonResponse([
+            { label: '/pricing', url: 'https://example.com/pricing', entry_nb_visits: '40' },
+            { label: 'Others', entry_nb_visits: '3' },
+          ])
+        );
+      }
+      const conversions = conversionsBySegment[url.searchParams.get('segment') ?? ''] ?? 0;
+      return Promise.resolve(createJsonResponse({ nb_conversions: conversions, nb_visits_converted: conversions, revenue: conversions * 10 }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const byChannel = await client.getGoalBreakdown({ goalId: 'signup', period: 'month', date: '2025-09-01', segment: 'browserCode==FF' });
+
+    expect(byChannel.goal).toMatchObject({ id: 2, name: 'Signup' });
+    expect(byChannel.breakdown).toBe('channel');
+    expect(byChannel.totals).toEqual({ nb_conversions: 12, nb_visits_converted: 12, revenue: { value: 120, currency: 'USD' } });
+    expect(byChannel.rows).toHaveLength(5);
+    expect(byChannel.rows[0]).toEqual({
+      label: 'Search Engines',
+      segment: 'referrerType==search',
+      nb_conversions: 7,
+      nb_visits_converted: 7,
+      revenue: { value: 70, currency: 'USD' },
+      shareOfConversions: 58.33,
+    });
+    expect(byChannel.rows[1]).toMatchObject({ label: 'Direct Entry', nb_conversions: 3, shareOfConversions: 25 });
+
+    const goalCalls = fetchMock.mock.calls
+      .map(([request]) => new URL(request as string))
+      .filter(url => url.searchParams.get('method') === 'Goals.get');
+    expect(goalCalls).toHaveLength(6);
+    expect(goalCalls.every(url => url.searchParams.get('idGoal') === '2')).toBe(true);
+
+    const byLandingPage = await client.getGoalBreakdown({
+      goalId: 2,
+      breakdown: 'landingPage',
+      period: 'month',
+      date: '2025-09-01',
+      segment: 'browserCode==FF',
+    });
+    expect(byLandingPage.rows).toEqual([
+      {
+        label: 'https://example.com/pricing',
+        segment: 'entryPageUrl==https%3A%2F%2Fexample.com%2Fpricing',
+        nb_conversions: 5,
+        nb_visits_converted: 5,
+        revenue: { value: 50, currency: 'USD' },
+        shareOfConversions: 41.67,
+      },
+    ]);
+  });
+
   it('tracks cache stats and emits events', async () => {
     const fetchMock = createFetchMock([{ label: 'Home', nb_visits: '42' }]);
     vi.stubGlobal('fetch', fetchMock);
@@ -810,6 +1318,457 @@ describe('MatomoClient', () => {
     expect(url.searchParams.get('filter_limit')).toBe('5');
   });
 
+  it('maps country rows to ISO codes with conversion metrics and site currency', async () => {
+    const fetchMock = createCurrencyAwareFetchMock(
+      [
+        { label: 'Sweden', code: 'se', nb_visits: '40', nb_uniq_visitors: '31', nb_visits_converted: '4', revenue: '120.5', logo: 'plugins/se.png', segment: 'countryCode==se' },
+        { label: 'Unknown', code: 'xx', nb_visits: 3 },
+      ],
+      'sek'
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 2 });
+    const result = await client.getCountries({ period: 'month', date: '2025-09-01', limit: 5 });
+
+    expect(result).toEqual([
+      {
+        label: 'Sweden',
+        countryCode: 'SE',
+        country: 'Sweden',
+        nb_visits: 40,
+        nb_uniq_visitors: 31,
+        nb_visits_converted: 4,
+        conversion_rate: 10,
+        revenue: { value: 120.5, currency: 'SEK' },
+        segment: 'countryCode==se',
+      },
+      { label: 'Unknown', country: 'Unknown', nb_visits: 3 },
+    ]);
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('UserCountry.getCountry');
+    expect(url.searchParams.get('filter_limit')).toBe('5');
+  });
+
+  it('narrows regions and cities to a country through the segment', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse([{ currency: 'SEK' }]));
+      }
+      if (url.searchParams.get('method') === 'UserCountry.getCity') {
+        return Promise.resolve(
+          createJsonResponse([
+            {
+              label: 'Gothenburg, Västra Götaland, Sweden',
+              city_name: 'Gothenburg',
+              region: 'O',
+              region_name: 'Västra Götaland',
+              country: 'se',
+              country_name: 'Sweden',
+              lat: '57.7',
+              long: '11.97',
+              nb_visits: '12',
+            },
+          ])
+        );
+      }
+      return Promise.resolve(
+        createJsonResponse([
+          { label: 'Stockholm, Sweden', region: 'AB', region_name: 'Stockholm', country: 'se', country_name: 'Sweden', nb_visits: '20' },
+        ])
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 2 });
+    const regions = await client.getRegions({ countryCode: 'SE', segment: 'deviceType==smartphone' });
+    expect(regions).toEqual([
+      { label: 'Stockholm, Sweden', countryCode: 'SE', country: 'Sweden', regionCode: 'AB', region: 'Stockholm', nb_visits: 20 },
+    ]);
+    const regionUrl = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(regionUrl.searchParams.get('method')).toBe('UserCountry.getRegion');
+    expect(regionUrl.searchParams.get('segment')).toBe('deviceType==smartphone;countryCode==se');
+
+    const cities = await client.getVisitorLocations({ granularity: 'city', countryCode: 'se' });
+    expect(cities[0]).toMatchObject({ city: 'Gothenburg', region: 'Västra Götaland', countryCode: 'SE', latitude: 57.7, longitude: 11.97 });
+  });
+
+  it('breaks visits down by technology dimension with shares of all visits', async () => {
+    const fetchMock = createFetchMock([
+      { label: 'Chrome', nb_visits: '60', nb_visits_converted: '3', bounce_count: '30', sum_visit_length: '6000', segment: 'browserCode==CH' },
+      { label: 'Safari', nb_visits: '30', bounce_count: '10' },
+      { label: 'Firefox', nb_visits: '10' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 2 });
+    const browsers = await client.getTechnologyBreakdown({ period: 'month', date: '2025-09-01', limit: 2 });
+
+    expect(browsers).toEqual([
+      {
+        label: 'Chrome',
+        nb_visits: 60,
+        shareOfVisits: 60,
+        nb_visits_converted: 3,
+        conversion_rate: 5,
+        bounce_rate: 50,
+        avg_time_on_site: 100,
+        segment: 'browserCode==CH',
+      },
+      { label: 'Safari', nb_visits: 30, shareOfVisits: 30, bounce_rate: 33.33 },
+    ]);
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('DevicesDetection.getBrowsers');
+    expect(url.searchParams.get('filter_limit')).toBe('-1');
+
+    await client.getTechnologyBreakdown({ dimension: 'resolution' });
+    await client.getTechnologyBreakdown({ dimension: 'os' });
+    await client.getTechnologyBreakdown({ dimension: 'model' });
+    expect(fetchMock.mock.calls.slice(1).map(([input]) => new URL(input as string).searchParams.get('method'))).toEqual([
+      'Resolution.getResolution',
+      'DevicesDetection.getOsVersions',
+      'DevicesDetection.getModel',
+    ]);
+  });
+
+  it('distributes visits over engagement buckets in Matomo order', async () => {
+    const fetchMock = createFetchMock([
+      { label: '0-10s', nb_visits: '50', nb_uniq_visitors: '45', segment: 'visitDuration<10' },
+      { label: '11-30s', nb_visits: '30' },
+      { label: '31-60s', nb_visits: '20', nb_visits_converted: '2' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const durations = await client.getEngagementDistribution({ distribution: 'visitDuration', period: 'week', date: '2025-09-01' });
+
+    expect(durations).toEqual([
+      { label: '0-10s', nb_visits: 50, shareOfVisits: 50, nb_uniq_visitors: 45, segment: 'visitDuration<10' },
+      { label: '11-30s', nb_visits: 30, shareOfVisits: 30 },
+      { label: '31-60s', nb_visits: 20, shareOfVisits: 20, nb_visits_converted: 2, conversion_rate: 10 },
+    ]);
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('VisitorInterest.getNumberOfVisitsPerVisitDuration');
+    expect(url.searchParams.get('filter_limit')).toBe('-1');
+
+    await client.getEngagementDistribution();
+    await client.getEngagementDistribution({ distribution: 'dayOfWeek' });
+    await client.getEngagementDistribution({ distribution: 'pagesPerVisit' });
+    expect(fetchMock.mock.calls.slice(1).map(([input]) => new URL(input as string).searchParams.get('method'))).toEqual([
+      'VisitTime.getVisitInformationPerServerTime',
+      'VisitTime.getByDayOfWeek',
+      'VisitorInterest.getNumberOfVisitsPerPage',
+    ]);
+  });
+
+  it('adds the returning visit share to visit frequency', async () => {
+    const fetchMock = createFetchMock({
+      nb_visits_new: '300',
+      nb_visits_returning: '100',
+      bounce_rate_returning: '32%',
+      nb_actions_per_visit_returning: '4.2',
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const frequency = await client.getVisitorFrequency({ period: 'month', date: '2025-09-01' });
+
+    expect(frequency).toEqual({
+      nb_visits_new: 300,
+      nb_visits_returning: 100,
+      bounce_rate_returning: '32%',
+      nb_actions_per_visit_returning: 4.2,
+      returning_visits_share: 25,
+    });
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('method')).toBe('VisitFrequency.get');
+  });
+
+  it('distributes conversions by visits and days until conversion', async () => {
+    const fetchMock = createFetchMock([
+      { label: '1 visit', nb_conversions: '30' },
+      { label: '2 visits', nb_conversions: '10' },
+      { label: '3 visits', nb_conversions: '0' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const visits = await client.getVisitsToConversion({ goalId: 3 });
+    await client.getDaysToConversion();
+
+    expect(visits).toEqual([
+      { label: '1 visit', nb_conversions: 30, shareOfConversions: 75 },
+      { label: '2 visits', nb_conversions: 10, shareOfConversions: 25 },
+      { label: '3 visits', nb_conversions: 0, shareOfConversions: 0 },
+    ]);
+    const urls = fetchMock.mock.calls.map(([input]) => new URL(input as string));
+    expect(urls[0]?.searchParams.get('method')).toBe('Goals.getVisitsUntilConversion');
+    expect(urls[0]?.searchParams.get('idGoal')).toBe('3');
+    expect(urls[1]?.searchParams.get('method')).toBe('Goals.getDaysToConversion');
+    expect(urls[1]?.searchParams.has('idGoal')).toBe(false);
+  });
+
+  it('builds a weekly cohort retention matrix when the Cohorts plugin is installed', async () => {
+    const fetchMock = createFetchMock([
+      {
+        label: '2025-09-01',
+        nb_uniq_visitors: '120',
+        Cohorts_returning_visitors_percent_0: '100%',
+        Cohorts_returning_visitors_percent_1: '18%',
+      },
+      { label: '2025-09-08', nb_uniq_visitors: '80', Cohorts_returning_visitors_percent_0: '100%' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const retention = await client.getCohortRetention();
+
+    expect(retention).toEqual({
+      period: 'week',
+      available: true,
+      cohorts: [
+        { cohort: '2025-09-01', visitors: 120, retention: [100, 18] },
+        { cohort: '2025-09-08', visitors: 80, retention: [100] },
+      ],
+      averageRetention: [100, 18],
+    });
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('Cohorts.getCohorts');
+    expect(url.searchParams.get('period')).toBe('week');
+    expect(url.searchParams.get('date')).toBe('last8');
+  });
+
+  it('reports cohort retention as unavailable without the Cohorts plugin', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(createMethodMissingResponse('getCohorts'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+
+    await expect(client.getCohortRetention({ weeks: 4 })).resolves.toEqual({
+      period: 'week',
+      available: false,
+      cohorts: [],
+      averageRetention: [],
+    });
+  });
+
+  it('builds user flow paths from the UsersFlow plugin for a landing page', async () => {
+    const fetchMock = createFetchMock([
+      {
+        label: 'Interaction 1',
+        subtable: [
+          {
+            label: 'example.com/pricing',
+            nb_visits: '80',
+            nb_exits: '30',
+            subtable: [{ label: 'example.com/signup', nb_visits: '50' }],
+          },
+          { label: 'example.com/', nb_visits: '300', nb_exits: '100' },
+        ],
+      },
+      {
+        label: 'Interaction 2',
+        subtable: [{ label: 'example.com/signup', nb_visits: '50', nb_exits: '10' }],
+      },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const flow = await client.getUserFlow({ startUrl: 'https://example.com/pricing', period: 'month', date: '2025-09-01' });
+
+    expect(flow).toEqual({
+      source: 'UsersFlow',
+      startUrl: 'https://example.com/pricing',
+      paths: [
+        {
+          pages: ['example.com/pricing', 'example.com/signup'],
+          visits: 50,
+          steps: [
+            { step: 1, page: 'example.com/pricing', visits: 80, exits: 30, dropOff: 30, dropOffRate: 37.5 },
+            { step: 2, page: 'example.com/signup', visits: 50, exits: 10 },
+          ],
+        },
+      ],
+    });
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('UsersFlow.getUsersFlowPretty');
+    expect(url.searchParams.get('expanded')).toBe('1');
+    await expect(client.getUserFlow({ steps: 11 })).rejects.toThrow('between 2 and 10');
+    await expect(client.getUserFlow({ limit: 21 })).rejects.toThrow('limit must be an integer between 1 and 20');
+  });
+
+  it('stitches user flow from Transitions when the UsersFlow plugin is missing', async () => {
+    const transitionsByUrl: Record<string, unknown> = {
+      'https://example.com/pricing': {
+        pageMetrics: { pageviews: '100', entries: '40', exits: '20' },
+        followingPages: [{ label: 'example.com/signup', url: 'https://example.com/signup', referrals: '50' }],
+      },
+      'https://example.com/signup': { pageMetrics: { pageviews: '60', exits: '60' }, followingPages: [] },
+    };
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'UsersFlow.getUsersFlowPretty') {
+        return Promise.resolve(createMethodMissingResponse('getUsersFlowPretty'));
+      }
+      return Promise.resolve(createJsonResponse(transitionsByUrl[url.searchParams.get('pageUrl') ?? '']));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const flow = await client.getUserFlow({ startUrl: 'https://example.com/pricing', steps: 3 });
+
+    expect(flow.source).toBe('Transitions');
+    expect(flow.paths).toEqual([
+      {
+        pages: ['https://example.com/pricing', 'https://example.com/signup'],
+        visits: 20,
+        steps: [
+          { step: 1, page: 'https://example.com/pricing', visits: 40, exits: 8, dropOff: 20, dropOffRate: 50 },
+          { step: 2, page: 'https://example.com/signup', visits: 20, exits: 20 },
+        ],
+      },
+    ]);
+  });
+
+  it('retrieves flattened exit pages', async () => {
+    const fetchMock = createFetchMock([{ label: '/checkout/thanks', exit_nb_visits: '40', exit_rate: '80%', nb_hits: '50' }]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const pages = await client.getExitPages({ limit: 5 });
+
+    expect(pages).toEqual([{ label: '/checkout/thanks', exit_nb_visits: 40, exit_rate: '80%', nb_hits: 50 }]);
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('Actions.getExitPageUrls');
+    expect(url.searchParams.get('flat')).toBe('1');
+    expect(url.searchParams.get('filter_limit')).toBe('5');
+  });
+
+  it('maps page transitions to counts and shares of pageviews', async () => {
+    const fetchMock = createFetchMock({
+      pageMetrics: { pageviews: '200', entries: '50', exits: '30', loops: '4' },
+      previousPages: [{ label: 'example.com/', referrals: '80' }],
+      previousSiteSearches: [{ label: 'pricing', referrals: '10' }],
+      followingPages: [{ label: 'example.com/signup', referrals: '90' }],
+      followingSiteSearches: [],
+      outlinks: [{ label: 'partner.example.org/', referrals: '5' }],
+      downloads: [],
+      referrers: [
+        {
+          label: 'Search Engines',
+          shortName: 'search',
+          referrals: '40',
+          details: [{ label: 'Google', referrals: '36' }],
+        },
+        { label: 'Direct Entry', shortName: 'direct', referrals: '10' },
+      ],
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const transitions = await client.getPageTransitions({
+      url: 'https://example.com/pricing',
+      period: 'month',
+      date: '2025-09-01',
+      limit: 20,
+    });
+
+    expect(transitions).toEqual({
+      url: 'https://example.com/pricing',
+      pageviews: 200,
+      entries: 50,
+      entryShare: 25,
+      exits: 30,
+      exitShare: 15,
+      loops: 4,
+      previousPages: [{ label: 'example.com/', count: 80, share: 40 }],
+      previousSiteSearches: [{ label: 'pricing', count: 10, share: 5 }],
+      referrers: [
+        { label: 'Search Engines', count: 40, share: 20, details: [{ label: 'Google', count: 36, share: 18 }] },
+        { label: 'Direct Entry', count: 10, share: 5 },
+      ],
+      nextPages: [{ label: 'example.com/signup', count: 90, share: 45 }],
+      nextSiteSearches: [],
+      outlinks: [{ label: 'partner.example.org/', count: 5, share: 2.5 }],
+      downloads: [],
+    });
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('Transitions.getTransitionsForPageUrl');
+    expect(url.searchParams.get('pageUrl')).toBe('https://example.com/pricing');
+    expect(url.searchParams.get('limitBeforeGrouping')).toBe('20');
+    expect(url.searchParams.get('parts')).toBe('all');
+  });
+
+  it('retrieves flattened page titles, outlinks, and downloads', async () => {
+    const fetchMock = createFetchMock([
+      { label: 'partner.example.com/pricing', url: 'https://partner.example.com/pricing', nb_hits: '14', nb_visits: '11' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 4 });
+    const outlinks = await client.getOutlinks({ period: 'month', date: '2025-09-01', limit: 3 });
+
+    expect(outlinks).toEqual([
+      { label: 'partner.example.com/pricing', url: 'https://partner.example.com/pricing', nb_hits: 14, nb_visits: 11 },
+    ]);
+
+    await client.getDownloads({ segment: 'deviceType==desktop' });
+    await client.getPageTitles();
+
+    const urls = fetchMock.mock.calls.map(([input]) => new URL(input as string));
+    expect(urls.map(url => url.searchParams.get('method'))).toEqual(['Actions.getOutlinks', 'Actions.getDownloads', 'Actions.getPageTitles']);
+    expect(urls.every(url => url.searchParams.get('flat') === '1')).toBe(true);
+    expect(urls[0]?.searchParams.get('filter_limit')).toBe('3');
+    expect(urls[1]?.searchParams.get('segment')).toBe('deviceType==desktop');
+    expect(urls[2]?.searchParams.get('period')).toBe('day');
+  });
+
+  it('collects site search terms, zero-result terms, categories, and pages following a search', async () => {
+    const payloads: Record<string, unknown> = {
+      'Actions.getSiteSearchKeywords': [
+        { label: 'pricing', nb_visits: '12', nb_pages_per_search: '1.5', exit_nb_visits: '3', exit_rate: '25%' },
+      ],
+      'Actions.getSiteSearchNoResultKeywords': [{ label: 'refund policy', nb_visits: '4', exit_rate: '50%' }],
+      'Actions.getSiteSearchCategories': [],
+      'Actions.getPageUrlsFollowingSiteSearch': [
+        { label: '/pricing', url: 'https://example.com/pricing', nb_hits_following_search: '9', nb_hits: '40' },
+      ],
+    };
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      return Promise.resolve(createJsonResponse(payloads[url.searchParams.get('method') ?? '']));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 3 });
+    const overview = await client.getSiteSearch({ period: 'week', date: '2025-09-01', limit: 5 });
+
+    expect(overview).toEqual({
+      keywords: [{ label: 'pricing', nb_visits: 12, nb_pages_per_search: 1.5, exit_nb_visits: 3, exit_rate: '25%' }],
+      noResultKeywords: [{ label: 'refund policy', nb_visits: 4, exit_rate: '50%' }],
+      categories: [],
+      pagesFollowingSearch: [
+        { label: '/pricing', url: 'https://example.com/pricing', nb_hits_following_search: 9, nb_hits: 40 },
+      ],
+    });
+
+    const urls = fetchMock.mock.calls.map(([input]) => new URL(input as string));
+    expect(urls.every(url => url.searchParams.get('filter_limit') === '5' && url.searchParams.get('idSite') === '3')).toBe(true);
+    expect(urls.find(url => url.searchParams.get('method') === 'Actions.getPageUrlsFollowingSiteSearch')?.searchParams.get('flat')).toBe(
+      '1'
+    );
+
+    // The individual helpers share the cached reports.
+    await expect(client.getSiteSearchNoResultKeywords({ period: 'week', date: '2025-09-01', limit: 5 })).resolves.toEqual(
+      overview.noResultKeywords
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
   it('retrieves traffic channels and supports alias filtering', async () => {
     const fetchMock = createCurrencyAwareFetchMock([
       { label: 'Direct Entry', nb_visits: '120', revenue: '100' },
@@ -864,6 +1823,209 @@ describe('MatomoClient', () => {
     expect(channels.find(channel => channel.label === 'Search Engines')?.nb_visits).toBe(8);
   });
 
+  it('compares key numbers against the previous period', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      const isCurrent = url.searchParams.get('date') === '2025-09-10';
+      if (url.searchParams.get('method') === 'Actions.get') {
+        return Promise.resolve(createJsonResponse({ nb_pageviews: isCurrent ? 30 : 20 }));
+      }
+      return Promise.resolve(createJsonResponse({ nb_visits: isCurrent ? 12 : 0 }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    const result = await client.getKeyNumbers({ period: 'day', date: '2025-09-10', compare: 'previous_period' });
+
+    expect(result.current).toEqual({ period: 'day', date: '2025-09-10' });
+    expect(result.previous).toEqual({ period: 'day', date: '2025-09-09' });
+    expect(result.metrics.nb_pageviews).toEqual({
+      current: 30,
+      previous: 20,
+      delta: 10,
+      deltaPct: 50,
+      direction: 'up',
+    });
+    expect(result.metrics.nb_visits).toMatchObject({ delta: 12, deltaPct: null, direction: 'up' });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('aggregates multi-period windows into ranges before comparing', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-15T12:00:00Z'));
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse({ idsite: 1, timezone: 'UTC' }));
+      }
+      const isCurrent = url.searchParams.get('date')?.startsWith('2025-08') ?? false;
+      if (url.searchParams.get('method') === 'Actions.get') {
+        return Promise.resolve(createJsonResponse({ nb_pageviews: isCurrent ? 300 : 200 }));
+      }
+      return Promise.resolve(createJsonResponse({ nb_visits: isCurrent ? 120 : 100 }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+      const monthly = await client.getKeyNumbers({ period: 'month', date: 'last3', compare: 'previous_period' });
+
+      expect(monthly.current).toEqual({ period: 'range', date: '2025-08-01,2025-10-31' });
+      expect(monthly.previous).toEqual({ period: 'range', date: '2025-05-01,2025-07-31' });
+      expect(monthly.metrics.nb_visits).toMatchObject({ current: 120, previous: 100, delta: 20 });
+
+      const weekly = await client.getKeyNumbers({
+        period: 'week',
+        date: '2025-08-04,2025-08-17',
+        compare: 'previous_period',
+      });
+      expect(weekly.current).toEqual({ period: 'range', date: '2025-08-04,2025-08-17' });
+      expect(weekly.previous).toEqual({ period: 'range', date: '2025-07-21,2025-08-03' });
+      expect(weekly.metrics.nb_pageviews).toMatchObject({ current: 300, previous: 200, delta: 100 });
+
+      const reportCalls = fetchMock.mock.calls
+        .map(([request]) => new URL(request as string))
+        .filter(url => url.searchParams.get('method') !== 'SitesManager.getSiteFromId');
+      expect(reportCalls.every(url => url.searchParams.get('period') === 'range')).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('compares traffic channels year over year with currency-aware deltas', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse([{ currency: 'SEK' }]));
+      }
+      const isCurrent = url.searchParams.get('date') === '2025-09-01';
+      return Promise.resolve(
+        createJsonResponse([
+          { label: 'Direct Entry', nb_visits: isCurrent ? '90' : '120', revenue: isCurrent ? '50' : '40' },
+        ])
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 3 });
+    const result = await client.getTrafficChannels({ period: 'month', date: '2025-09-01', compare: 'previous_year' });
+
+    expect(result.previous).toEqual({ period: 'month', date: '2024-09-01' });
+    expect(result.rows[0]).toMatchObject({
+      label: 'Direct Entry',
+      metrics: {
+        nb_visits: { current: 90, previous: 120, delta: -30, deltaPct: -25, direction: 'down' },
+        revenue: { current: 50, previous: 40, delta: 10, deltaPct: 25, currency: 'SEK' },
+      },
+    });
+  });
+
+  it('resolves relative periods in the site timezone', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-15T23:30:00Z'));
+    const fetchMock = vi.fn(() => Promise.resolve(createJsonResponse({ idsite: 1, timezone: 'Europe/Stockholm' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+
+      await expect(client.resolvePeriod({ period: 'range', date: 'last7' })).resolves.toMatchObject({
+        date: '2025-10-10,2025-10-16',
+      });
+      await expect(client.resolvePeriod({ period: 'month', date: '2025-09-15' })).resolves.toMatchObject({
+        start: '2025-09-01',
+        end: '2025-09-30',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('resolves site names from the configured map and the hydrated Matomo roster', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(
+        createJsonResponse([
+          { idsite: '7', name: 'Shop SE', main_url: 'https://shop.se', timezone: 'Europe/Stockholm', currency: 'SEK' },
+          { idsite: '9', name: 'Shop DE', main_url: 'https://shop.de', timezone: 'Europe/Berlin', currency: 'EUR' },
+        ])
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({
+      baseUrl,
+      tokenAuth: token,
+      sites: [{ name: 'shop-se', siteId: 7, aliases: ['sweden'] }],
+      hydrateSites: true,
+    });
+
+    await expect(client.resolveSite('Sweden')).resolves.toMatchObject({ siteId: 7 });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await expect(client.resolveSite('shop.de')).resolves.toMatchObject({ name: 'Shop DE', siteId: 9, currency: 'EUR' });
+    await expect(client.resolveSite('shop-fi')).rejects.toThrow('Unknown site "shop-fi". Known sites: shop-se, Shop DE.');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const url = new URL(fetchMock.mock.calls[0]![0] as string);
+    expect(url.searchParams.get('method')).toBe('SitesManager.getSitesWithAtLeastViewAccess');
+
+    await expect(client.resolveSite('12')).resolves.toEqual({ name: '12', siteId: 12 });
+  });
+
+  it('uses configured site timezones without a Matomo lookup', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-15T23:30:00Z'));
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const client = createMatomoClient({
+        baseUrl,
+        tokenAuth: token,
+        sites: [{ name: 'shop-se', siteId: 7, timezone: 'Europe/Stockholm', currency: 'SEK' }],
+      });
+
+      await expect(client.resolvePeriod({ siteId: 7, date: 'today' })).resolves.toMatchObject({ date: '2025-10-16' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('compares key numbers across sites in parallel', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      const siteId = url.searchParams.get('idSite');
+      if (siteId === '9') {
+        return Promise.resolve(
+          createJsonResponse({ result: 'error', message: "You can't access this resource as it requires 'view' access" })
+        );
+      }
+      if (url.searchParams.get('method') === 'Actions.get') {
+        return Promise.resolve(createJsonResponse({ nb_pageviews: siteId === '7' ? 90 : 30 }));
+      }
+      return Promise.resolve(createJsonResponse({ nb_visits: siteId === '7' ? 30 : 10 }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({
+      baseUrl,
+      tokenAuth: token,
+      sites: [{ name: 'shop-se', siteId: 7 }],
+    });
+
+    const report = await client.compareSites({ sites: ['shop-se', 8, '9', 7], period: 'month', date: '2025-09-01' });
+
+    expect(report.sites.map(site => site.siteId)).toEqual([7, 8, 9]);
+    expect(report.sites[0]).toMatchObject({
+      name: 'shop-se',
+      metrics: { nb_visits: { value: 30, rank: 1, shareOfTotal: 75 }, nb_pageviews: { value: 90, rank: 1 } },
+    });
+    expect(report.sites[1]?.metrics.nb_visits).toEqual({ value: 10, rank: 2, shareOfTotal: 25 });
+    expect(report.sites[2]?.error).toContain("requires 'view' access");
+    expect(report.totals.metrics.nb_visits).toBe(40);
+  });
+
   it('fetches goal conversions with filters and normalization', async () => {
     const fetchMock = createCurrencyAwareFetchMock(
       [
@@ -922,22 +2084,42 @@ describe('MatomoClient', () => {
     expect(results[0].revenue).toEqual({ value: 0, currency: 'USD' });
   });
 
-  it('filters goal conversions by label when goalId is non-numeric', async () => {
-    const fetchMock = createCurrencyAwareFetchMock([
-      { idgoal: 1, goal: 'Donation g n f', nb_conversions: '2', nb_visits_converted: '1', revenue: '0' },
-      { idgoal: 2, goal: 'Newsletter Signup', nb_conversions: '5', nb_visits_converted: '4', revenue: '0' },
-    ]);
+  it('resolves goal names through the goal catalogue', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      const method = url.searchParams.get('method');
+      if (method === 'SitesManager.getSiteFromId') {
+        return Promise.resolve(createJsonResponse([{ currency: 'USD' }]));
+      }
+      if (method === 'Goals.getGoals') {
+        return Promise.resolve(
+          createJsonResponse({
+            1: { idsite: '12', idgoal: '1', name: 'Donation g n f', match_attribute: 'url', pattern: '/donate/thanks', pattern_type: 'contains', revenue: '0' },
+            2: { idsite: '12', idgoal: '2', name: 'Newsletter Signup', match_attribute: 'event_action', pattern: 'subscribe', pattern_type: 'exact', revenue: '0' },
+          })
+        );
+      }
+      return Promise.resolve(
+        createJsonResponse({ idgoal: '1', goal: 'Donation g n f', nb_conversions: '2', nb_visits_converted: '1', revenue: '0' })
+      );
+    });
     vi.stubGlobal('fetch', fetchMock);
 
     const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 12 });
-    const results = await client.getGoalConversions({ period: 'day', date: 'last7', goalId: 'Donation g n f' });
+    const results = await client.getGoalConversions({ period: 'day', date: 'last7', goalId: 'donation G N F' });
 
     expect(results).toHaveLength(1);
     expect(results[0]).toMatchObject({ id: '1', label: 'Donation g n f', nb_conversions: 2 });
     expect(results[0].revenue).toEqual({ value: 0, currency: 'USD' });
 
-    const url = new URL(fetchMock.mock.calls[0][0] as string);
-    expect(url.searchParams.has('idGoal')).toBe(false);
+    const goalsUrl = fetchMock.mock.calls
+      .map(([request]) => new URL(request as string))
+      .find(url => url.searchParams.get('method') === 'Goals.get');
+    expect(goalsUrl?.searchParams.get('idGoal')).toBe('1');
+
+    await expect(client.getGoalConversions({ goalId: 'Purchase' })).rejects.toThrow(
+      'Unknown goal "Purchase". Configured goals: Donation g n f, Newsletter Signup.'
+    );
   });
 
   it('passes Matomo special goal identifiers through unchanged', async () => {
@@ -1001,9 +2183,9 @@ describe('MatomoClient', () => {
     vi.stubGlobal('fetch', fetchMock);
 
     const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 5 });
-    const result = await client.getFunnelSummary({ funnelId: 'checkout' });
+    const result = await client.getFunnelSummary({ funnelId: '3' });
 
-    expect(result.id).toBe('checkout');
+    expect(result.id).toBe('3');
     expect(result.label).toBe('Checkout Funnel');
     expect(result.overallConversionRate).toBe(32.5);
     expect(result.totalConversions).toBe(48);
@@ -1014,7 +2196,7 @@ describe('MatomoClient', () => {
 
     const url = new URL(fetchMock.mock.calls[0][0] as string);
     expect(url.searchParams.get('method')).toBe('Funnels.getFunnel');
-    expect(url.searchParams.get('idFunnel')).toBe('checkout');
+    expect(url.searchParams.get('idFunnel')).toBe('3');
     expect(url.searchParams.get('idSite')).toBe('5');
     expect(url.searchParams.get('period')).toBe('day');
     expect(url.searchParams.get('date')).toBe('today');
@@ -1038,7 +2220,7 @@ describe('MatomoClient', () => {
     vi.stubGlobal('fetch', fetchMock);
 
     const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 4 });
-    const result = await client.getFunnelSummary({ funnelId: 'signup' });
+    const result = await client.getFunnelSummary({ funnelId: '7' });
 
     expect(result.label).toBe('Signup Flow');
     expect(result.totalConversions).toBe(5);
@@ -1048,6 +2230,271 @@ describe('MatomoClient', () => {
     expect(result.steps[1]).toMatchObject({ id: '2', label: '/signup' });
   });
 
+  it('lists activated funnels and resolves funnel names for the summary', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(input as string);
+      if (url.searchParams.get('method') === 'Funnels.getAllActivatedFunnelsForSite') {
+        return Promise.resolve(
+          createJsonResponse([
+            {
+              idfunnel: '4',
+              idsite: '2',
+              idgoal: '3',
+              name: 'Checkout flow',
+              activated: '1',
+              steps: [
+                { position: '1', name: 'Cart', pattern_type: 'path_contains', pattern: '/cart', required: '0' },
+                { position: '2', name: '', pattern_type: 'path_contains', pattern: '/checkout/payment', required: '1' },
+              ],
+            },
+            { idfunnel: 9, idgoal: 5, steps: [] },
+          ])
+        );
+      }
+      return Promise.resolve(createJsonResponse({ nb_conversions_total: '12', nb_visits_total: '60' }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 2 });
+    const funnels = await client.listFunnels();
+
+    expect(funnels).toEqual([
+      {
+        id: '4',
+        label: 'Checkout flow',
+        goalId: '3',
+        steps: [
+          { id: '1', label: 'Cart' },
+          { id: '2', label: '/checkout/payment' },
+        ],
+      },
+      { id: '9', label: 'Funnel 9', goalId: '5', steps: [] },
+    ]);
+
+    const summary = await client.getFunnelSummary({ funnelId: 'checkout-flow', period: 'week', date: '2025-09-01' });
+    expect(summary).toMatchObject({ id: '4', totalConversions: 12, totalVisits: 60 });
+
+    const summaryUrls = fetchMock.mock.calls
+      .map(([request]) => new URL(request as string))
+      .filter(url => url.searchParams.get('method')?.startsWith('Funnels.getFunnel'));
+    expect(summaryUrls.length).toBeGreaterThan(0);
+    expect(summaryUrls.every(url => url.searchParams.get('idFunnel') === '4')).toBe(true);
+
+    // The catalogue is cached, so the unknown name is rejected without another request.
+    const callCount = fetchMock.mock.calls.length;
+    await expect(client.getFunnelSummary({ funnelId: 'signup' })).rejects.toThrow(
+      'Unknown funnel "signup". Activated funnels: Checkout flow, Funnel 9.'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(callCount);
+  });
+
+  it('runs allowlisted reports through the generic DataTable normalizer', async () => {
+    const fetchMock = createFetchMock([
+      { label: 'Sweden', nb_visits: '42', code: 'se', bounce_rate: '35%' },
+      { label: 'Norway', nb_visits: 7, code: 'no', bounce_rate: '50%' },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 3 });
+    const result = await client.runReport({
+      method: 'UserCountry.getCountry',
+      period: 'month',
+      date: '2025-01-01',
+      limit: 2,
+      params: { flat: 1 },
+    });
+
+    expect(result).toEqual({
+      method: 'UserCountry.getCountry',
+      siteId: 3,
+      period: 'month',
+      date: '2025-01-01',
+      report: {
+        type: 'table',
+        rows: [
+          { label: 'Sweden', nb_visits: 42, code: 'se', bounce_rate: '35%' },
+          { label: 'Norway', nb_visits: 7, code: 'no', bounce_rate: '50%' },
+        ],
+      },
+    });
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('UserCountry.getCountry');
+    expect(url.searchParams.get('idSite')).toBe('3');
+    expect(url.searchParams.get('filter_limit')).toBe('2');
+    expect(url.searchParams.get('flat')).toBe('1');
+  });
+
+  it('lists available reports per site with pages and a category filter', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'API.getReportPagesMetadata') {
+        return Promise.resolve(
+          createJsonResponse([
+            {
+              category: { id: 'General_Visitors', name: 'Visitors' },
+              subcategory: { id: 'UserCountry_SubmenuLocations', name: 'Locations' },
+              widgets: [{ name: 'Country', module: 'UserCountry', action: 'getCountry' }],
+            },
+          ])
+        );
+      }
+      return Promise.resolve(
+        createJsonResponse([
+          {
+            category: 'Visitors',
+            subcategory: 'Locations',
+            name: 'Country',
+            module: 'UserCountry',
+            action: 'getCountry',
+            dimension: 'Country',
+            documentation: 'Countries your visitors<br /> come from.',
+            metrics: { nb_visits: 'Visits' },
+            processedMetrics: { bounce_rate: 'Bounce Rate' },
+            metricsDocumentation: { nb_visits: 'Number of visits.' },
+          },
+          { category: 'Goals', name: 'Newsletter', module: 'Goals', action: 'get', parameters: { idGoal: 2 }, metrics: {} },
+        ])
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 4 });
+    const reports = await client.listAvailableReports();
+
+    expect(reports).toEqual([
+      {
+        method: 'UserCountry.getCountry',
+        module: 'UserCountry',
+        action: 'getCountry',
+        name: 'Country',
+        category: 'Visitors',
+        subcategory: 'Locations',
+        dimension: 'Country',
+        documentation: 'Countries your visitors come from.',
+        metrics: [
+          { id: 'nb_visits', name: 'Visits', documentation: 'Number of visits.' },
+          { id: 'bounce_rate', name: 'Bounce Rate' },
+        ],
+        pages: ['Visitors > Locations'],
+      },
+      {
+        method: 'Goals.get',
+        module: 'Goals',
+        action: 'get',
+        name: 'Newsletter',
+        category: 'Goals',
+        metrics: [],
+        parameters: { idGoal: '2' },
+      },
+    ]);
+
+    const locations = await client.listAvailableReports({ category: 'locat' });
+    expect(locations.map(report => report.method)).toEqual(['UserCountry.getCountry']);
+    // Both metadata calls are cached per site.
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('idSite')).toBe('4');
+  });
+
+  it('refuses write methods and reserved parameters without calling Matomo', async () => {
+    const fetchMock = createFetchMock([]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1, reportAllowlist: ['*.*'] });
+
+    await expect(client.runReport({ method: 'UsersManager.getUsers' })).rejects.toMatchObject({
+      name: 'ReportMethodError',
+      status: 400,
+    });
+    await expect(client.runReport({ method: 'SitesManager.addSite' })).rejects.toThrow(/not allowed/);
+    await expect(client.runReport({ method: 'Goals.deleteGoal' })).rejects.toThrow(/not allowed/);
+    await expect(client.runReport({ method: 'API.getBulkRequest' })).rejects.toThrow(/not allowed/);
+    await expect(client.runReport({ method: 'getCountry' })).rejects.toThrow(/Module\.action/);
+    await expect(
+      client.runReport({ method: 'UserCountry.getCountry', params: { token_auth: 'other' } })
+    ).rejects.toThrow(/cannot be passed through params/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores the site report metadata unless the fallback is enabled', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(createJsonResponse([{ module: 'CustomReports', action: 'getCustomReport', name: 'Custom' }]))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1, reportAllowlist: ['UserCountry.get*'] });
+
+    await expect(client.runReport({ method: 'CustomReports.getCustomReport' })).rejects.toThrow(/not in the report allowlist/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('checks the report behind API.getProcessedReport against the allowlist', async () => {
+    const fetchMock = createFetchMock({ reportData: [] });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const defaults = createMatomoClient({ baseUrl, tokenAuth: token, defaultSiteId: 1 });
+    await expect(
+      defaults.runReport({ method: 'API.getProcessedReport', params: { apiModule: 'UserCountry', apiAction: 'getCountry' } })
+    ).rejects.toThrow(/not in the report allowlist/);
+
+    const client = createMatomoClient({
+      baseUrl,
+      tokenAuth: token,
+      defaultSiteId: 1,
+      reportAllowlist: ['API.getProcessedReport', 'UserCountry.get*'],
+    });
+    await expect(
+      client.runReport({ method: 'API.getProcessedReport', params: { apiModule: 'Live', apiAction: 'getLastVisitsDetails' } })
+    ).rejects.toThrow('Matomo method "Live.getLastVisitsDetails" is not in the report allowlist.');
+    await expect(
+      client.runReport({ method: 'API.getProcessedReport', params: { apiModule: 'UsersManager', apiAction: 'getUsers' } })
+    ).rejects.toThrow(/not allowed/);
+    await expect(client.runReport({ method: 'API.getProcessedReport', params: { apiModule: 'UserCountry' } })).rejects.toThrow(
+      /must be passed together/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await client.runReport({ method: 'API.getProcessedReport', params: { apiModule: 'UserCountry', apiAction: 'getCountry' } });
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.searchParams.get('method')).toBe('API.getProcessedReport');
+    expect(url.searchParams.get('apiAction')).toBe('getCountry');
+  });
+
+  it('allows methods listed in the site report metadata beyond the allowlist', async () => {
+    const fetchMock = vi.fn((input: RequestInfo) => {
+      const url = new URL(typeof input === 'string' ? input : (input as Request).url);
+      if (url.searchParams.get('method') === 'API.getReportMetadata') {
+        return Promise.resolve(createJsonResponse([{ module: 'CustomReports', action: 'getCustomReport', name: 'Custom' }]));
+      }
+      return Promise.resolve(createJsonResponse({ '2025-01-01': { nb_visits: '3' }, '2025-01-02': [] }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createMatomoClient({
+      baseUrl,
+      tokenAuth: token,
+      defaultSiteId: 1,
+      reportAllowlist: [],
+      reportMetadataFallback: true,
+    });
+
+    const result = await client.runReport({ method: 'CustomReports.getCustomReport', period: 'day', date: 'last2' });
+    expect(result.report).toEqual({
+      type: 'series',
+      series: [
+        { period: '2025-01-01', report: { type: 'record', values: { nb_visits: 3 } } },
+        { period: '2025-01-02', report: { type: 'table', rows: [] } },
+      ],
+    });
+
+    await expect(client.runReport({ method: 'Live.getLastVisitsDetails' })).rejects.toThrow(/not in the report allowlist/);
+    // Metadata is cached per site, so the second check does not refetch it.
+    const metadataCalls = fetchMock.mock.calls.filter(
+      ([input]) => new URL(input as string).searchParams.get('method') === 'API.getReportMetadata'
+    );
+    expect(metadataCalls).toHaveLength(1);
+  });
+
   describe('getHealthStatus', () => {
     it('returns healthy status when all checks pass', async () => {
       const fetchMock = createSequencedFetchMock(['3.14.0']);
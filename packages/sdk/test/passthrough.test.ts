@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_REPORT_ALLOWLIST,
+  isForbiddenReportMethod,
+  matchesMethodPattern,
+  normalizeDataTable,
+  parseReportAllowlist,
+} from '../src/passthrough.js';
+
+describe('report method patterns', () => {
+  it('matches exact names and wildcards case-insensitively', () => {
+    expect(matchesMethodPattern('UserCountry.getCountry', 'UserCountry.get*')).toBe(true);
+    expect(matchesMethodPattern('usercountry.getcountry', 'UserCountry.getCountry')).toBe(true);
+    expect(matchesMethodPattern('UserCountry.getCountry', 'UserCountry.getCity')).toBe(false);
+    expect(matchesMethodPattern('Actions.getPageUrls', '*.get*')).toBe(true);
+  });
+
+  it('treats user management and other write APIs as forbidden', () => {
+    expect(isForbiddenReportMethod('UsersManager.getUsers')).toBe(true);
+    expect(isForbiddenReportMethod('SitesManager.addSite')).toBe(true);
+    expect(isForbiddenReportMethod('Goals.updateGoal')).toBe(true);
+    expect(isForbiddenReportMethod('CoreAdminHome.invalidateArchivedReports')).toBe(true);
+    expect(isForbiddenReportMethod('Goals.getItemsSku')).toBe(false);
+    expect(isForbiddenReportMethod('SitesManager.getSiteFromId')).toBe(false);
+  });
+
+  it('expands the default entry when parsing operator allowlists', () => {
+    expect(parseReportAllowlist('Live.getCounters, ,UserCountry.getCountry')).toEqual([
+      'Live.getCounters',
+      'UserCountry.getCountry',
+    ]);
+    expect(parseReportAllowlist('default,Live.getCounters')).toEqual([...DEFAULT_REPORT_ALLOWLIST, 'Live.getCounters']);
+  });
+});
+
+describe('normalizeDataTable', () => {
+  it('coerces numeric strings and keeps labels, subtables, and unknown columns', () => {
+    expect(
+      normalizeDataTable([{ label: '2024', nb_visits: '12', avg_time_on_page: '3.5', idsubdatatable: 4, goals: { 'idgoal=1': { nb_conversions: '2' } } }])
+    ).toEqual({
+      type: 'table',
+      rows: [{ label: '2024', nb_visits: 12, avg_time_on_page: 3.5, idsubdatatable: 4, goals: { 'idgoal=1': { nb_conversions: 2 } } }],
+    });
+  });
+
+  it('recognizes records, bare values, and period-keyed series', () => {
+    expect(normalizeDataTable({ nb_visits: '5', bounce_rate: '40%' })).toEqual({
+      type: 'record',
+      values: { nb_visits: 5, bounce_rate: '40%' },
+    });
+    expect(normalizeDataTable({ value: '17' })).toEqual({ type: 'value', value: 17 });
+    expect(normalizeDataTable('5.1.2')).toEqual({ type: 'value', value: '5.1.2' });
+    expect(normalizeDataTable({ '2025-01': [{ label: 'a', nb_visits: 1 }], '2025-02': [] })).toEqual({
+      type: 'series',
+      series: [
+        { period: '2025-01', report: { type: 'table', rows: [{ label: 'a', nb_visits: 1 }] } },
+        { period: '2025-02', report: { type: 'table', rows: [] } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  PeriodError,
+  isRelativeDate,
+  precedingPeriodWindow,
+  resolvePeriodLabel,
+  resolvePeriodWindow,
+  shiftPeriodWindow,
+  todayInTimezone,
+} from '../src/periods.js';
+
+// Wednesday
+const now = new Date('2025-10-15T12:00:00Z');
+
+describe('todayInTimezone', () => {
+  it('uses the site timezone to pick the calendar day', () => {
+    const lateEvening = new Date('2025-10-15T23:30:00Z');
+    expect(todayInTimezone(undefined, lateEvening)).toBe('2025-10-15');
+    expect(todayInTimezone('Europe/Stockholm', lateEvening)).toBe('2025-10-16');
+    expect(todayInTimezone('America/Los_Angeles', new Date('2025-10-15T03:00:00Z'))).toBe('2025-10-14');
+  });
+
+  it('supports Matomo fixed offsets and falls back to UTC for unknown zones', () => {
+    expect(todayInTimezone('UTC+5.5', new Date('2025-10-15T20:00:00Z'))).toBe('2025-10-16');
+    expect(todayInTimezone('UTC-3', new Date('2025-10-15T02:00:00Z'))).toBe('2025-10-14');
+    expect(todayInTimezone('Mars/Olympus_Mons', now)).toBe('2025-10-15');
+  });
+});
+
+describe('resolvePeriodWindow', () => {
+  it('expands single dates to the enclosing unit', () => {
+    expect(resolvePeriodWindow({ period: 'day', date: 'yesterday' }, { now })).toEqual({
+      period: 'day',
+      date: '2025-10-14',
+      start: '2025-10-14',
+      end: '2025-10-14',
+      unit: 'day',
+      units: 1,
+      series: false,
+    });
+    expect(resolvePeriodWindow({ period: 'week', date: 'today' }, { now })).toMatchObject({
+      date: '2025-10-13',
+      start: '2025-10-13',
+      end: '2025-10-19',
+    });
+    expect(resolvePeriodWindow({ period: 'month', date: '2024-02-10' }, { now })).toMatchObject({
+      start: '2024-02-01',
+      end: '2024-02-29',
+    });
+    expect(resolvePeriodWindow({ period: 'month', date: '2025-01' }, { now })).toMatchObject({
+      date: '2025-01-01',
+      end: '2025-01-31',
+    });
+    expect(resolvePeriodWindow({ period: 'YEAR', date: '2025-06-01' }, { now })).toMatchObject({
+      period: 'year',
+      start: '2025-01-01',
+      end: '2025-12-31',
+    });
+  });
+
+  it('resolves lastN and previousN relative to the current unit', () => {
+    expect(resolvePeriodWindow({ period: 'range', date: 'last7' }, { now })).toMatchObject({
+      date: '2025-10-09,2025-10-15',
+      units: 7,
+      series: false,
+    });
+    expect(resolvePeriodWindow({ period: 'day', date: 'previous3' }, { now })).toMatchObject({
+      date: '2025-10-12,2025-10-14',
+      series: true,
+    });
+    expect(resolvePeriodWindow({ period: 'month', date: 'last3' }, { now })).toMatchObject({
+      start: '2025-08-01',
+      end: '2025-10-31',
+      units: 3,
+    });
+    expect(resolvePeriodWindow({ period: 'week', date: 'previous2' }, { now })).toMatchObject({
+      start: '2025-09-29',
+      end: '2025-10-12',
+      units: 2,
+    });
+  });
+
+  it('aligns explicit ranges and accepts relative endpoints', () => {
+    expect(resolvePeriodWindow({ period: 'range', date: '2025-09-01,yesterday' }, { now })).toMatchObject({
+      date: '2025-09-01,2025-10-14',
+      units: 44,
+    });
+    expect(resolvePeriodWindow({ period: 'month', date: '2025-01-15,2025-03-02' }, { now })).toMatchObject({
+      date: '2025-01-01,2025-03-31',
+      units: 3,
+      series: true,
+    });
+  });
+
+  it('rejects unknown periods and malformed dates', () => {
+    expect(() => resolvePeriodWindow({ period: 'quarter', date: 'today' }, { now })).toThrow(PeriodError);
+    expect(() => resolvePeriodWindow({ period: 'range', date: 'today' }, { now })).toThrow(
+      'Unsupported date "today" for period "range".'
+    );
+    expect(() => resolvePeriodWindow({ period: 'day', date: '2025-02-30' }, { now })).toThrow(PeriodError);
+    expect(() => resolvePeriodWindow({ period: 'range', date: '2025-10-10,2025-10-01' }, { now })).toThrow(PeriodError);
+    expect(() => resolvePeriodWindow({ period: 'day', date: 'last0' }, { now })).toThrow(PeriodError);
+  });
+});
+
+describe('window arithmetic', () => {
+  it('computes preceding windows of identical length', () => {
+    const range = resolvePeriodWindow({ period: 'range', date: '2025-03-01,2025-03-31' }, { now });
+    expect(precedingPeriodWindow(range)).toMatchObject({ date: '2025-01-29,2025-02-28', units: 31 });
+
+    const months = resolvePeriodWindow({ period: 'month', date: 'last3' }, { now });
+    expect(precedingPeriodWindow(months)).toMatchObject({ date: '2025-05-01,2025-07-31', units: 3 });
+
+    const week = resolvePeriodWindow({ period: 'week', date: '2025-10-15' }, { now });
+    expect(precedingPeriodWindow(week)).toMatchObject({ date: '2025-10-06', end: '2025-10-12' });
+  });
+
+  it('shifts windows by arbitrary units', () => {
+    const february = resolvePeriodWindow({ period: 'month', date: '2025-02-01' }, { now });
+    expect(shiftPeriodWindow(february, 1)).toMatchObject({ start: '2025-03-01', end: '2025-03-31' });
+
+    const leapDay = resolvePeriodWindow({ period: 'day', date: '2024-02-29' }, { now });
+    expect(shiftPeriodWindow(leapDay, -1, 'year')).toMatchObject({ date: '2023-02-28' });
+
+    const week = resolvePeriodWindow({ period: 'week', date: '2025-10-15' }, { now });
+    expect(shiftPeriodWindow(week, -1, 'year')).toMatchObject({ start: '2024-10-14', end: '2024-10-20' });
+  });
+});
+
+describe('helpers', () => {
+  it('detects dates that depend on the current day', () => {
+    expect(isRelativeDate('today')).toBe(true);
+    expect(isRelativeDate('2025-01-01,yesterday')).toBe(true);
+    expect(isRelativeDate('last30')).toBe(true);
+    expect(isRelativeDate('2025-01-01,2025-01-31')).toBe(false);
+  });
+
+  it('maps series labels back to calendar windows', () => {
+    expect(resolvePeriodLabel('2025-10-06,2025-10-12')).toEqual({ start: '2025-10-06', end: '2025-10-12' });
+    expect(resolvePeriodLabel('2025-02')).toEqual({ start: '2025-02-01', end: '2025-02-28' });
+    expect(resolvePeriodLabel('2024')).toEqual({ start: '2024-01-01', end: '2024-12-31' });
+    expect(resolvePeriodLabel('2025-10-15')).toEqual({ start: '2025-10-15', end: '2025-10-15' });
+    expect(resolvePeriodLabel('Total')).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildReportCatalogue, findMissingReportPlugins } from '../src/reportMetadata.js';
+
+describe('buildReportCatalogue', () => {
+  it('attaches pages from nested container widgets and skips malformed entries', () => {
+    const reports = buildReportCatalogue(
+      [
+        { category: 'Behaviour', name: 'Page URLs', module: 'Actions', action: 'getPageUrls' },
+        { category: 'Behaviour', name: 'No action', module: 'Actions' },
+        'garbage',
+      ],
+      [
+        {
+          category: { name: 'Behaviour' },
+          subcategory: { name: 'Pages' },
+          widgets: [{ isContainer: true, widgets: [{ module: 'Actions', action: 'getPageUrls' }] }],
+        },
+        { category: { name: 'Dashboard' }, subcategory: null, widgets: [{ module: 'Actions', action: 'getPageUrls' }] },
+      ]
+    );
+
+    expect(reports).toEqual([
+      {
+        method: 'Actions.getPageUrls',
+        module: 'Actions',
+        action: 'getPageUrls',
+        name: 'Page URLs',
+        category: 'Behaviour',
+        metrics: [],
+        pages: ['Behaviour > Pages', 'Dashboard'],
+      },
+    ]);
+  });
+
+  it('returns an empty catalogue for unexpected payloads', () => {
+    expect(buildReportCatalogue({ result: 'error' })).toEqual([]);
+  });
+});
+
+describe('findMissingReportPlugins', () => {
+  it('lists plugins whose reports are absent from the catalogue', () => {
+    const reports = buildReportCatalogue([
+      { module: 'goals', action: 'get', name: 'Goals' },
+      { module: 'Funnels', action: 'getFunnelFlow', name: 'Funnel' },
+    ]);
+    expect(findMissingReportPlugins(reports)).toEqual([
+      { plugin: 'Events', feature: 'event reports' },
+      { plugin: 'Cohorts', feature: 'cohort retention' },
+      { plugin: 'CustomDimensions', feature: 'custom dimension reports' },
+      { plugin: 'UsersFlow', feature: 'user flow paths', fallback: 'paths stitched from Transitions' },
+      {
+        plugin: 'MarketingCampaignsReporting',
+        feature: 'campaign source, medium, and content breakdown',
+        fallback: 'core Referrers campaigns (name and keyword only)',
+      },
+    ]);
+  });
+
+  it('marks only plugins without a fallback as required', () => {
+    const reports = buildReportCatalogue(
+      ['Goals', 'Events', 'Funnels', 'Cohorts', 'CustomDimensions'].map(module => ({ module, action: 'get', name: module }))
+    );
+    const missing = findMissingReportPlugins(reports);
+    expect(missing.map(plugin => plugin.plugin)).toEqual(['UsersFlow', 'MarketingCampaignsReporting']);
+    expect(missing.every(plugin => plugin.fallback !== undefined)).toBe(true);
+  });
+});
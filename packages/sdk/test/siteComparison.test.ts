@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { siteComparisonSchema } from '../src/schemas.js';
+import { buildSiteComparison } from '../src/siteComparison.js';
+
+const window = { period: 'month', date: '2025-09-01' };
+
+describe('buildSiteComparison', () => {
+  it('ranks sites and computes share of total for additive metrics', () => {
+    const report = buildSiteComparison(window, [
+      { siteId: 1, name: 'shop-se', keyNumbers: { nb_visits: 300, bounce_rate: '40%', nb_actions_per_visit: 3.2 } },
+      { siteId: 2, name: 'shop-de', keyNumbers: { nb_visits: 100, bounce_rate: '30%', nb_actions_per_visit: 2.5 } },
+      { siteId: 3, name: 'shop-fi', keyNumbers: { nb_visits: 100, bounce_rate: '55%', nb_actions_per_visit: 4 } },
+    ]);
+
+    expect(report.totals.metrics).toEqual({ nb_visits: 500, bounce_rate: null, nb_actions_per_visit: null });
+    expect(report.sites.map(site => site.metrics.nb_visits)).toEqual([
+      { value: 300, rank: 1, shareOfTotal: 60 },
+      { value: 100, rank: 2, shareOfTotal: 20 },
+      { value: 100, rank: 2, shareOfTotal: 20 },
+    ]);
+    expect(report.sites.map(site => site.metrics.bounce_rate?.rank)).toEqual([2, 1, 3]);
+    expect(report.sites[0]?.metrics.bounce_rate).toMatchObject({ value: 40, unit: 'percent', shareOfTotal: null });
+  });
+
+  it('treats missing channels as zero and skips totals for mixed currencies', () => {
+    const report = buildSiteComparison(window, [
+      {
+        siteId: 1,
+        name: 'shop-se',
+        keyNumbers: { nb_visits: 10 },
+        trafficChannels: [{ label: 'Search Engines', nb_visits: 6 }, { label: 'Direct Entry', nb_visits: 4 }],
+        ecommerce: { revenue: { value: 1000, currency: 'SEK' }, nb_conversions: 4 },
+      },
+      {
+        siteId: 2,
+        name: 'shop-de',
+        keyNumbers: { nb_visits: 30 },
+        trafficChannels: [{ label: 'Search Engines', nb_visits: 30 }],
+        ecommerce: { revenue: { value: 200, currency: 'EUR' }, nb_conversions: 6 },
+      },
+    ]);
+
+    expect(report.sites[1]?.trafficChannels?.['Direct Entry']).toEqual({ value: 0, rank: 2, shareOfTotal: 0 });
+    expect(report.totals.trafficChannels).toEqual({ 'Search Engines': 36, 'Direct Entry': 4 });
+    expect(report.totals.ecommerce).toEqual({ revenue: null, nb_conversions: 10 });
+    expect(report.sites[0]?.ecommerce?.revenue).toEqual({ value: 1000, rank: 1, shareOfTotal: null, currency: 'SEK' });
+  });
+
+  it('keeps failed sites in the table without ranking them', () => {
+    const report = buildSiteComparison(window, [
+      { siteId: 1, name: 'shop-se', keyNumbers: { nb_visits: 10 } },
+      { siteId: 2, name: 'shop-de', error: 'No view access' },
+    ]);
+
+    expect(report.sites[1]).toEqual({ siteId: 2, name: 'shop-de', metrics: {}, error: 'No view access' });
+    expect(report.sites[0]?.metrics.nb_visits).toEqual({ value: 10, rank: 1, shareOfTotal: 100 });
+    expect(siteComparisonSchema.parse(report)).toEqual(report);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { SiteRegistry, normalizeSiteKey, parseSiteMap } from '../src/sites.js';
+
+describe('parseSiteMap', () => {
+  it('accepts name-to-id objects, entry lists, and wrapped lists', () => {
+    expect(parseSiteMap({ 'puttski.com': 1, blog: { siteId: '2', currency: 'eur' } })).toEqual([
+      { name: 'puttski.com', siteId: 1, source: 'config' },
+      { name: 'blog', siteId: 2, currency: 'EUR', source: 'config' },
+    ]);
+
+    const entry = { name: 'shop-se', siteId: 7, aliases: ['Shop Sweden'], timezone: 'Europe/Stockholm' };
+    expect(parseSiteMap([entry])).toEqual([{ ...entry, source: 'config' }]);
+    expect(parseSiteMap({ sites: [entry] })).toEqual([{ ...entry, source: 'config' }]);
+  });
+
+  it('rejects entries without a positive integer siteId', () => {
+    expect(() => parseSiteMap([{ name: 'shop-se', siteId: -1 }])).toThrow(/^Invalid site map/);
+    expect(() => parseSiteMap('shop-se')).toThrow(/^Invalid site map/);
+  });
+});
+
+describe('SiteRegistry', () => {
+  it('resolves names, aliases, and URLs regardless of formatting', () => {
+    const registry = new SiteRegistry([
+      { name: 'Shop SE', siteId: 7, aliases: ['https://www.shop.se/', 'sweden'] },
+      { name: 'shop_se', siteId: 8 },
+    ]);
+
+    expect(registry.find('shop-se')?.siteId).toBe(7);
+    expect(registry.find('  SHOP SE ')?.siteId).toBe(7);
+    expect(registry.find('shop.se')?.siteId).toBe(7);
+    expect(registry.find('Sweden')?.siteId).toBe(7);
+    expect(registry.find('shop-de')).toBeUndefined();
+    expect(registry.get(8)?.name).toBe('shop_se');
+    expect(registry.size).toBe(2);
+  });
+
+  it('normalizes site keys', () => {
+    expect(normalizeSiteKey('https://www.Example.com/')).toBe('example.com');
+    expect(normalizeSiteKey('Load  Test')).toBe('load-test');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { usersFlowSchema } from '../src/schemas.js';
+import { buildUserFlowPaths, indexUsersFlow, normalizePageKey, type FlowLookup } from '../src/userFlow.js';
+
+const usersFlow = usersFlowSchema.parse([
+  {
+    label: 'Interaction 1',
+    nb_visits: '150',
+    subtable: [
+      {
+        label: 'example.com/',
+        nb_visits: '100',
+        nb_exits: '20',
+        subtable: [
+          { label: 'example.com/pricing', nb_visits: '60' },
+          { label: 'example.com/blog', nb_visits: '20' },
+        ],
+      },
+      { label: 'example.com/docs', nb_visits: '50', nb_exits: '50' },
+      { label: 'Others', nb_visits: '200' },
+    ],
+  },
+  {
+    label: 'Interaction 2',
+    subtable: [
+      { label: 'example.com/pricing', nb_visits: '70', nb_exits: '35', subtable: [{ label: 'example.com/signup', nb_visits: '35' }] },
+      { label: 'example.com/blog', nb_visits: '20', nb_exits: '20' },
+    ],
+  },
+  {
+    label: 'Interaction 3',
+    subtable: [{ label: 'example.com/signup', nb_visits: '40', nb_exits: '40' }],
+  },
+]);
+
+describe('normalizePageKey', () => {
+  it('ignores protocol, www, case, and trailing slashes', () => {
+    expect(normalizePageKey('https://www.Example.com/Pricing/')).toBe('example.com/pricing');
+    expect(normalizePageKey('example.com/pricing')).toBe('example.com/pricing');
+  });
+});
+
+describe('buildUserFlowPaths', () => {
+  const index = indexUsersFlow(usersFlow);
+  const lookup: FlowLookup = async (page, step) => index.get(step)?.get(normalizePageKey(page));
+  const starts = [...(index.get(1)?.values() ?? [])].map(node => ({ page: node.page, visits: node.visits }));
+
+  it('ranks entry-to-exit paths and estimates visits and drop-off per step', async () => {
+    const paths = await buildUserFlowPaths(starts, lookup, { limit: 3, maxSteps: 4 });
+
+    expect(paths.map(path => path.pages)).toEqual([
+      ['example.com/docs'],
+      ['example.com/', 'example.com/pricing', 'example.com/signup'],
+      ['example.com/', 'example.com/blog'],
+    ]);
+    expect(paths[1]).toEqual({
+      pages: ['example.com/', 'example.com/pricing', 'example.com/signup'],
+      visits: 30,
+      steps: [
+        { step: 1, page: 'example.com/', visits: 100, exits: 20, dropOff: 40, dropOffRate: 40 },
+        { step: 2, page: 'example.com/pricing', visits: 60, exits: 30, dropOff: 30, dropOffRate: 50 },
+        { step: 3, page: 'example.com/signup', visits: 30, exits: 30 },
+      ],
+    });
+  });
+
+  it('stops expanding at maxSteps and skips grouped rows', async () => {
+    const paths = await buildUserFlowPaths([...starts, { page: 'Others', visits: 500 }], lookup, { limit: 5, maxSteps: 2 });
+
+    expect(paths.map(path => path.pages)).toEqual([
+      ['example.com/', 'example.com/pricing'],
+      ['example.com/docs'],
+      ['example.com/', 'example.com/blog'],
+    ]);
+    expect(paths[0]?.steps[1]).toEqual({ step: 2, page: 'example.com/pricing', visits: 60, exits: 30 });
+  });
+});